@@ -14,12 +14,17 @@ import AvailableSurveys from './src/screens/AvailableSurveys';
 import MyInterviews from './src/screens/MyInterviews';
 import InterviewInterface from './src/screens/InterviewInterface';
 import InterviewDetails from './src/screens/InterviewDetails';
+import SyncReceipts from './src/screens/SyncReceipts';
+import CatiCallbacks from './src/screens/CatiCallbacks';
 
 // Import theme
 import { theme } from './src/theme/theme';
 
 // Import API service
 import { apiService } from './src/services/api';
+import { dataProtectionService } from './src/services/dataProtectionService';
+// Also defines the background sync task - must be imported before the app registers
+import { backgroundSyncService } from './src/services/backgroundSyncService';
 
 const Stack = createStackNavigator();
 
@@ -32,6 +37,13 @@ export default function App() {
     checkAuthStatus();
   }, []);
 
+  // Keep syncing offline interviews in the background while someone is logged in
+  useEffect(() => {
+    if (isAuthenticated) {
+      backgroundSyncService.start();
+    }
+  }, [isAuthenticated]);
+
   const checkAuthStatus = async () => {
     try {
       console.log('🔐 Checking authentication status...');
@@ -219,6 +231,12 @@ export default function App() {
       await AsyncStorage.multiRemove(['authToken', 'userData']);
       console.log('Local storage cleared');
       
+      // Stop background sync before its data is wiped
+      await backgroundSyncService.stop();
+
+      // Wipe offline interviews, audio and encryption keys - the device may be handed to someone else
+      await dataProtectionService.wipeOnLogout(user?._id);
+      
       // Update state
       setUser(null);
       setIsAuthenticated(false);
@@ -310,6 +328,36 @@ export default function App() {
                   },
                 }}
               />
+              <Stack.Screen 
+                name="SyncReceipts" 
+                component={SyncReceipts}
+                options={{
+                  headerShown: true,
+                  title: 'Sync Receipts',
+                  headerStyle: {
+                    backgroundColor: theme.colors.primary,
+                  },
+                  headerTintColor: '#ffffff',
+                  headerTitleStyle: {
+                    fontWeight: 'bold',
+                  },
+                }}
+              />
+              <Stack.Screen 
+                name="CatiCallbacks" 
+                component={CatiCallbacks}
+                options={{
+                  headerShown: true,
+                  title: 'Callbacks',
+                  headerStyle: {
+                    backgroundColor: theme.colors.primary,
+                  },
+                  headerTintColor: '#ffffff',
+                  headerTitleStyle: {
+                    fontWeight: 'bold',
+                  },
+                }}
+              />
               <Stack.Screen 
                 name="InterviewInterface" 
                 component={InterviewInterface}
@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput } from 'react-native-paper';
+import { getChoiceValue, getConstantSumTotal, sumAllocations } from '../utils/questionTypes';
+
+interface ConstantSumQuestionProps {
+  question: any;
+  response: Record<string, number> | null | undefined;
+  onChange: (value: Record<string, number> | null) => void;
+  getDisplayText: (text: string) => string;
+}
+
+/**
+ * Constant-sum question - the respondent splits a fixed total (e.g. 100 points) across the options
+ */
+export default function ConstantSumQuestion({ question, response, onChange, getDisplayText }: ConstantSumQuestionProps) {
+  const options = question.options || [];
+  const allocations = response && typeof response === 'object' ? response : {};
+  const total = getConstantSumTotal(question);
+  const allocated = sumAllocations(allocations);
+  const remaining = total - allocated;
+
+  const handleChange = (optionValue: string, text: string) => {
+    const digits = text.replace(/[^0-9]/g, '');
+    const next = { ...allocations };
+    if (digits === '') {
+      delete next[optionValue];
+    } else {
+      next[optionValue] = parseInt(digits, 10);
+    }
+    // Clearing every field clears the answer
+    onChange(Object.keys(next).length > 0 ? next : null);
+  };
+
+  return (
+    <View style={styles.container}>
+      {options.map((option: any) => {
+        const optionValue = getChoiceValue(option);
+        const amount = allocations[optionValue];
+        return (
+          <View key={optionValue} style={styles.row}>
+            <Text style={styles.optionText}>{getDisplayText(option.text || option)}</Text>
+            <TextInput
+              mode="outlined"
+              value={amount !== undefined && amount !== null ? String(amount) : ''}
+              onChangeText={(text) => handleChange(optionValue, text)}
+              keyboardType="numeric"
+              placeholder="0"
+              style={styles.input}
+              dense
+            />
+          </View>
+        );
+      })}
+      <View style={[styles.totalRow, remaining === 0 ? styles.totalComplete : remaining < 0 && styles.totalOver]}>
+        <Text style={styles.totalText}>Total: {allocated} / {total}</Text>
+        <Text style={styles.totalText}>
+          {remaining === 0 ? '✓ Complete' : remaining > 0 ? `${remaining} remaining` : `${-remaining} over`}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#374151',
+    paddingRight: 8,
+  },
+  input: {
+    width: 90,
+    textAlign: 'right',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  totalComplete: {
+    backgroundColor: '#d1fae5',
+  },
+  totalOver: {
+    backgroundColor: '#fee2e2',
+  },
+  totalText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+});
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Button, ActivityIndicator } from 'react-native-paper';
+import * as Location from 'expo-location';
+import { LocationService } from '../utils/location';
+import { GpsResponse } from '../types';
+import { isGpsResponse, formatGpsResponse } from '../utils/mediaQuestions';
+
+interface GpsQuestionProps {
+  question: any;
+  response: GpsResponse | null | undefined;
+  onChange: (value: GpsResponse) => void;
+}
+
+/**
+ * GPS question - captures a point location at this question (separate from the interview location)
+ */
+export default function GpsQuestion({ question, response, onChange }: GpsQuestionProps) {
+  const [isCapturing, setIsCapturing] = useState(false);
+  const captured = isGpsResponse(response) ? response : null;
+  const maxAccuracy = Number(question.settings?.maxAccuracy) || null;
+
+  const captureLocation = async () => {
+    setIsCapturing(true);
+    try {
+      const hasPermission = await LocationService.requestPermissions();
+      if (!hasPermission) {
+        Alert.alert('Location Permission', 'Location access is needed to capture the location for this question.');
+        return;
+      }
+      const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Highest });
+      onChange({
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy || 0,
+        altitude: location.coords.altitude,
+        capturedAt: new Date(location.timestamp).toISOString(),
+      });
+    } catch (error) {
+      console.error('❌ Error capturing GPS location:', error);
+      Alert.alert('Location Error', 'The location could not be captured. Please check that GPS is on and try again.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {captured ? (
+        <View style={styles.capturedContainer}>
+          <Text style={styles.coordinatesText}>{formatGpsResponse(captured)}</Text>
+          <Text style={styles.capturedText}>
+            Captured at {new Date(captured.capturedAt).toLocaleTimeString()}
+          </Text>
+        </View>
+      ) : null}
+      {maxAccuracy ? (
+        <Text style={styles.hintText}>Accuracy of {maxAccuracy}m or better is required.</Text>
+      ) : null}
+      {isCapturing ? (
+        <View style={styles.capturingRow}>
+          <ActivityIndicator size="small" color="#2563eb" />
+          <Text style={styles.hintText}>Getting GPS fix...</Text>
+        </View>
+      ) : (
+        <Button mode={captured ? 'outlined' : 'contained'} icon="crosshairs-gps" onPress={captureLocation}>
+          {captured ? 'Capture Again' : 'Capture Location'}
+        </Button>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  capturedContainer: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: '#ecfdf5',
+  },
+  coordinatesText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#065f46',
+  },
+  capturedText: {
+    fontSize: 13,
+    color: '#047857',
+    marginTop: 4,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  capturingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, RadioButton } from 'react-native-paper';
+import { getChoiceValue } from '../utils/questionTypes';
+
+interface MatrixQuestionProps {
+  question: any;
+  response: Record<string, string> | null | undefined;
+  onChange: (value: Record<string, string>) => void;
+  getDisplayText: (text: string) => string;
+}
+
+/**
+ * Matrix / grid question - each row is answered on the same option scale
+ */
+export default function MatrixQuestion({ question, response, onChange, getDisplayText }: MatrixQuestionProps) {
+  const rows = question.rows || [];
+  const options = question.options || [];
+  const answers = response && typeof response === 'object' ? response : {};
+
+  const handleSelect = (rowValue: string, optionValue: string) => {
+    onChange({ ...answers, [rowValue]: optionValue });
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={options.length > 3}>
+      <View style={styles.table}>
+        <View style={[styles.row, styles.headerRow]}>
+          <View style={styles.rowLabelCell} />
+          {options.map((option: any) => (
+            <View key={getChoiceValue(option)} style={styles.optionCell}>
+              <Text style={styles.headerText}>{getDisplayText(option.text || option)}</Text>
+            </View>
+          ))}
+        </View>
+        {rows.map((row: any, rowIndex: number) => {
+          const rowValue = getChoiceValue(row);
+          return (
+            <View key={rowValue} style={[styles.row, rowIndex % 2 === 1 && styles.alternateRow]}>
+              <View style={styles.rowLabelCell}>
+                <Text style={styles.rowText}>{getDisplayText(row.text || row)}</Text>
+              </View>
+              {options.map((option: any) => {
+                const optionValue = getChoiceValue(option);
+                return (
+                  <View key={optionValue} style={styles.optionCell}>
+                    <RadioButton
+                      value={optionValue}
+                      status={answers[rowValue] === optionValue ? 'checked' : 'unchecked'}
+                      onPress={() => handleSelect(rowValue, optionValue)}
+                    />
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  table: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    minHeight: 48,
+  },
+  headerRow: {
+    backgroundColor: '#f3f4f6',
+  },
+  alternateRow: {
+    backgroundColor: '#f9fafb',
+  },
+  rowLabelCell: {
+    width: 140,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  optionCell: {
+    width: 72,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 4,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+    textAlign: 'center',
+  },
+  rowText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+});
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, Image, Alert } from 'react-native';
+import { Text, Button, ActivityIndicator } from 'react-native-paper';
+import * as ImagePicker from 'expo-image-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { offlineStorage } from '../services/offlineStorage';
+import { MediaResponse } from '../types';
+import { isMediaResponse } from '../utils/mediaQuestions';
+
+interface PhotoQuestionProps {
+  question: any;
+  response: MediaResponse | null | undefined;
+  onChange: (value: MediaResponse) => void;
+}
+
+/**
+ * Photo question - takes a photo with the camera and keeps an encrypted copy in offline storage
+ */
+export default function PhotoQuestion({ question, response, onChange }: PhotoQuestionProps) {
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const previewUriRef = useRef<string | null>(null);
+  const captured = isMediaResponse(response) ? response : null;
+
+  // The camera's plaintext file is only kept for the preview
+  const replacePreview = (uri: string | null) => {
+    if (previewUriRef.current) {
+      FileSystem.deleteAsync(previewUriRef.current, { idempotent: true }).catch(() => {});
+    }
+    previewUriRef.current = uri;
+    setPreviewUri(uri);
+  };
+
+  useEffect(() => {
+    return () => replacePreview(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const takePhoto = async () => {
+    try {
+      const permission = await ImagePicker.requestCameraPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Camera Permission', 'Camera access is needed to take the photo for this question.');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ['images'],
+        quality: 0.6,
+        exif: false,
+      });
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      setIsSaving(true);
+      const asset = result.assets[0];
+      const offlinePath = await offlineStorage.copyMediaFileToOfflineStorage(asset.uri, question.id);
+      if (captured?.offlinePath) {
+        await offlineStorage.deleteAudioFileFromOfflineStorage(captured.offlinePath);
+      }
+      replacePreview(asset.uri);
+      onChange({
+        type: 'photo',
+        offlinePath,
+        mimeType: asset.mimeType || 'image/jpeg',
+        fileSize: asset.fileSize,
+        width: asset.width,
+        height: asset.height,
+        capturedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('❌ Error taking photo:', error);
+      Alert.alert('Photo Error', 'The photo could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {captured ? (
+        <View style={styles.capturedContainer}>
+          {previewUri ? (
+            <Image source={{ uri: previewUri }} style={styles.preview} resizeMode="cover" />
+          ) : null}
+          <Text style={styles.capturedText}>
+            ✓ Photo taken at {new Date(captured.capturedAt).toLocaleTimeString()}
+          </Text>
+        </View>
+      ) : null}
+      {isSaving ? (
+        <ActivityIndicator size="small" color="#2563eb" style={styles.loader} />
+      ) : (
+        <Button mode={captured ? 'outlined' : 'contained'} icon="camera" onPress={takePhoto}>
+          {captured ? 'Retake Photo' : 'Take Photo'}
+        </Button>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  capturedContainer: {
+    marginBottom: 12,
+  },
+  preview: {
+    width: '100%',
+    height: 220,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    marginBottom: 8,
+  },
+  capturedText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '500',
+  },
+  loader: {
+    marginVertical: 12,
+  },
+});
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ProgressBar, ActivityIndicator } from 'react-native-paper';
+import { quotaService } from '../services/quotaService';
+import { QuotaStatus, Survey } from '../types';
+import { getQuotaCellLabel } from '../utils/quotaEngine';
+
+interface QuotaProgressProps {
+  survey: Survey;
+}
+
+/**
+ * Quota progress of a survey - completed interviews per quota cell, including ones still waiting to sync
+ */
+export default function QuotaProgress({ survey }: QuotaProgressProps) {
+  const [statuses, setStatuses] = useState<QuotaStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    quotaService.getQuotaStatus(survey).then((result) => {
+      if (isMounted) {
+        setStatuses(result);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [survey]);
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#2563eb" style={styles.loader} />;
+  }
+
+  if (statuses.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {statuses.map((status) => (
+        <View key={status.quota.id} style={styles.quota}>
+          <Text style={styles.quotaName}>{status.quota.name}</Text>
+          {status.cells.map((cell) => (
+            <View key={cell.key} style={styles.cell}>
+              <View style={styles.cellHeader}>
+                <Text style={styles.cellLabel} numberOfLines={1}>{getQuotaCellLabel(cell)}</Text>
+                <Text style={[styles.cellCount, cell.isFull && styles.cellFull]}>
+                  {cell.currentCount}/{cell.target}{cell.isFull ? ' Full' : ''}
+                </Text>
+              </View>
+              <ProgressBar
+                progress={cell.percentage / 100}
+                color={cell.isFull ? '#dc2626' : '#2563eb'}
+                style={styles.progressBar}
+              />
+              {cell.localCount > 0 && (
+                <Text style={styles.pendingText}>{cell.localCount} pending sync on this device</Text>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+      {statuses[0].countsUpdatedAt && (
+        <Text style={styles.updatedText}>
+          Counts updated {new Date(statuses[0].countsUpdatedAt).toLocaleString()}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  loader: {
+    marginVertical: 8,
+  },
+  quota: {
+    marginBottom: 12,
+  },
+  quotaName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 6,
+  },
+  cell: {
+    marginBottom: 8,
+  },
+  cellHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  cellLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+    marginRight: 8,
+  },
+  cellCount: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  cellFull: {
+    color: '#dc2626',
+    fontWeight: '600',
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  pendingText: {
+    fontSize: 11,
+    color: '#d97706',
+    marginTop: 2,
+  },
+  updatedText: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+});
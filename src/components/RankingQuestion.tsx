@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, Animated, PanResponder } from 'react-native';
+import { Text, Button, IconButton } from 'react-native-paper';
+import { getChoiceValue } from '../utils/questionTypes';
+
+const ROW_HEIGHT = 56;
+
+interface RankingQuestionProps {
+  question: any;
+  response: string[] | null | undefined;
+  onChange: (value: string[]) => void;
+  getDisplayText: (text: string) => string;
+}
+
+interface RankingRowProps {
+  label: string;
+  rank: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (steps: number) => void;
+}
+
+/**
+ * One ranked option - drag the handle, or use the arrows, to move it
+ */
+function RankingRow({ label, rank, isFirst, isLast, onMove }: RankingRowProps) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [isDragging, setIsDragging] = useState(false);
+  // The responder is created once - keep the latest move handler in a ref
+  const onMoveRef = useRef(onMove);
+  onMoveRef.current = onMove;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: (_evt, gesture) => Math.abs(gesture.dy) > 4,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => setIsDragging(true),
+      onPanResponderMove: Animated.event([null, { dy: translateY }], { useNativeDriver: false }),
+      onPanResponderRelease: (_evt, gesture) => {
+        setIsDragging(false);
+        translateY.setValue(0);
+        const steps = Math.round(gesture.dy / ROW_HEIGHT);
+        if (steps !== 0) {
+          onMoveRef.current(steps);
+        }
+      },
+      onPanResponderTerminate: () => {
+        setIsDragging(false);
+        translateY.setValue(0);
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      style={[
+        styles.row,
+        isDragging && styles.rowDragging,
+        { transform: [{ translateY }] },
+      ]}
+    >
+      <View style={styles.dragHandle} {...panResponder.panHandlers}>
+        <Text style={styles.dragHandleText}>☰</Text>
+      </View>
+      <View style={styles.rankBadge}>
+        <Text style={styles.rankText}>{rank}</Text>
+      </View>
+      <Text style={styles.optionText} numberOfLines={2}>{label}</Text>
+      <IconButton icon="chevron-up" size={20} disabled={isFirst} onPress={() => onMove(-1)} />
+      <IconButton icon="chevron-down" size={20} disabled={isLast} onPress={() => onMove(1)} />
+    </Animated.View>
+  );
+}
+
+/**
+ * Ranking question - the respondent orders the options, rank 1 first
+ * The order is only stored once confirmed, so an untouched list never counts as an answer.
+ */
+export default function RankingQuestion({ question, response, onChange, getDisplayText }: RankingQuestionProps) {
+  const options = question.options || [];
+  const optionValues: string[] = options.map(getChoiceValue);
+  const isConfirmed = Array.isArray(response) && response.length > 0;
+
+  const [order, setOrder] = useState<string[]>(() => (isConfirmed ? response! : optionValues));
+
+  // Options can change under a question (e.g. piping) - keep the stored order when it still fits
+  useEffect(() => {
+    const source = Array.isArray(response) && response.length > 0 ? response : order;
+    const kept = source.filter((value) => optionValues.includes(value));
+    const added = optionValues.filter((value) => !kept.includes(value));
+    const next = [...kept, ...added];
+    if (next.join('|') !== order.join('|')) {
+      setOrder(next);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [optionValues.join('|'), response]);
+
+  const moveOption = (index: number, steps: number) => {
+    const target = Math.max(0, Math.min(order.length - 1, index + steps));
+    if (target === index) return;
+    const next = [...order];
+    const [moved] = next.splice(index, 1);
+    next.splice(target, 0, moved);
+    setOrder(next);
+    // Once confirmed, changes are saved as they are made
+    if (isConfirmed) {
+      onChange(next);
+    }
+  };
+
+  const getOptionLabel = (value: string) => {
+    const option = options.find((opt: any) => getChoiceValue(opt) === value);
+    return getDisplayText(option ? option.text || option : value);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>Drag or use the arrows to order the options - 1 is the highest rank.</Text>
+      {order.map((value, index) => (
+        <RankingRow
+          key={value}
+          label={getOptionLabel(value)}
+          rank={index + 1}
+          isFirst={index === 0}
+          isLast={index === order.length - 1}
+          onMove={(steps) => moveOption(index, steps)}
+        />
+      ))}
+      {isConfirmed ? (
+        <Text style={styles.confirmedText}>✓ Ranking saved</Text>
+      ) : (
+        <Button mode="contained" onPress={() => onChange(order)} style={styles.confirmButton}>
+          Confirm order
+        </Button>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: ROW_HEIGHT - 6,
+    marginBottom: 6,
+    paddingLeft: 4,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+  },
+  rowDragging: {
+    zIndex: 10,
+    borderColor: '#2563eb',
+    backgroundColor: '#eff6ff',
+    elevation: 4,
+  },
+  dragHandle: {
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  dragHandleText: {
+    fontSize: 18,
+    color: '#9ca3af',
+  },
+  rankBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#2563eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  rankText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#374151',
+  },
+  confirmButton: {
+    marginTop: 8,
+  },
+  confirmedText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, Card } from 'react-native-paper';
+import { DispositionCode, RespondentHistory } from '../types';
+import {
+  countRefusals,
+  getAttemptCategory,
+  getAttemptOutcomeLabel,
+  REPEAT_REFUSAL_LIMIT,
+  sortAttempts,
+} from '../utils/respondentHistory';
+
+interface RespondentHistoryPanelProps {
+  history: RespondentHistory;
+  dispositionCodes: DispositionCode[];
+}
+
+const formatDateTime = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+};
+
+/**
+ * Respondent context during a CATI call - earlier attempts with their outcomes and notes,
+ * preferred language and best time to call. Collapsed to a summary until tapped.
+ */
+export default function RespondentHistoryPanel({ history, dispositionCodes }: RespondentHistoryPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const attempts = sortAttempts(history.attempts);
+  const refusalCount = countRefusals(attempts, dispositionCodes);
+  const hasPreferences = !!(history.preferredLanguage || history.bestTimeToCall);
+
+  if (attempts.length === 0 && !hasPreferences) {
+    return null;
+  }
+
+  return (
+    <Card style={[styles.card, refusalCount >= REPEAT_REFUSAL_LIMIT && styles.refusedCard]}>
+      <Card.Content>
+        <TouchableOpacity onPress={() => setIsExpanded(!isExpanded)} style={styles.header}>
+          <Text style={styles.title}>
+            {attempts.length > 0
+              ? `${attempts.length} previous ${attempts.length === 1 ? 'call' : 'calls'} • Last: ${getAttemptOutcomeLabel(attempts[0], dispositionCodes)}`
+              : 'Respondent preferences'}
+          </Text>
+          <Text style={styles.toggleText}>{isExpanded ? 'Hide' : 'Show'}</Text>
+        </TouchableOpacity>
+
+        {refusalCount > 0 && (
+          <Text style={styles.refusalText}>
+            Refused {refusalCount} {refusalCount === 1 ? 'time' : 'times'} before
+          </Text>
+        )}
+        {history.preferredLanguage && (
+          <Text style={styles.preferenceText}>Preferred language: {history.preferredLanguage}</Text>
+        )}
+        {history.bestTimeToCall && (
+          <Text style={styles.preferenceText}>Best time to call: {history.bestTimeToCall}</Text>
+        )}
+
+        {isExpanded && attempts.map((attempt, index) => (
+          <View key={`${attempt.attemptedAt}_${index}`} style={styles.attempt}>
+            <View style={styles.attemptHeader}>
+              <Text
+                style={[
+                  styles.attemptOutcome,
+                  getAttemptCategory(attempt, dispositionCodes) === 'refusal' && styles.refusalOutcome,
+                ]}
+              >
+                {getAttemptOutcomeLabel(attempt, dispositionCodes)}
+              </Text>
+              <Text style={styles.attemptDate}>{formatDateTime(attempt.attemptedAt)}</Text>
+            </View>
+            {attempt.interviewerName && <Text style={styles.attemptMeta}>By {attempt.interviewerName}</Text>}
+            {attempt.refusalReason && <Text style={styles.attemptMeta}>Reason: {attempt.refusalReason}</Text>}
+            {attempt.callbackTime && (
+              <Text style={styles.attemptMeta}>Asked for a call at {formatDateTime(attempt.callbackTime)}</Text>
+            )}
+            {attempt.notes && <Text style={styles.attemptNotes}>{attempt.notes}</Text>}
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    elevation: 1,
+  },
+  refusedCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#dc2626',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  title: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginRight: 8,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  refusalText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#dc2626',
+    marginTop: 4,
+  },
+  preferenceText: {
+    fontSize: 12,
+    color: '#374151',
+    marginTop: 4,
+  },
+  attempt: {
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    paddingTop: 8,
+    marginTop: 8,
+  },
+  attemptHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  attemptOutcome: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1f2937',
+    marginRight: 8,
+  },
+  refusalOutcome: {
+    color: '#dc2626',
+  },
+  attemptDate: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  attemptMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  attemptNotes: {
+    fontSize: 12,
+    color: '#4b5563',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+});
@@ -11,6 +11,7 @@ import {
   StatusBar,
   Platform,
   AppState,
+  Image,
 } from 'react-native';
 import { Audio } from 'expo-av';
 import { Ionicons } from '@expo/vector-icons';
@@ -28,6 +29,10 @@ import {
 } from 'react-native-paper';
 import { apiService } from '../services/api';
 import { findGenderResponse, normalizeGenderResponse } from '../utils/genderUtils';
+import { flattenSurveyQuestions } from '../utils/surveyEngine';
+import { formatGridResponse } from '../utils/questionTypes';
+import { isMediaResponse, isGpsResponse, formatGpsResponse } from '../utils/mediaQuestions';
+import { MediaResponse, ValidationOverride } from '../types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const { width, height } = Dimensions.get('window');
@@ -40,6 +45,49 @@ interface ResponseDetailsModalProps {
   assignmentExpiresAt?: Date | null;
 }
 
+/**
+ * Uploaded photo or signature of a response - S3 keys are resolved to a signed URL
+ */
+function MediaResponseImage({ media }: { media: MediaResponse }) {
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const mediaUrl = media.mediaUrl || '';
+    if (mediaUrl.startsWith('http://') || mediaUrl.startsWith('https://')) {
+      setImageUri(mediaUrl);
+      return;
+    }
+    apiService.getMediaSignedUrl(mediaUrl).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.signedUrl) {
+        setImageUri(result.signedUrl);
+      } else {
+        setLoadError(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [media.mediaUrl]);
+
+  if (loadError) {
+    return <Text style={styles.responseText}>{media.type === 'signature' ? 'Signature' : 'Photo'} could not be loaded</Text>;
+  }
+  if (!imageUri) {
+    return <ActivityIndicator size="small" color="#2563eb" style={styles.mediaLoader} />;
+  }
+  return (
+    <Image
+      source={{ uri: imageUri }}
+      style={media.type === 'signature' ? styles.signatureImage : styles.photoImage}
+      resizeMode="contain"
+      onError={() => setLoadError(true)}
+    />
+  );
+}
+
 export default function ResponseDetailsModal({
   visible,
   interview,
@@ -1254,6 +1302,18 @@ export default function ResponseDetailsModal({
       return 'No response';
     }
 
+    const gridDisplay = formatGridResponse(question, response);
+    if (gridDisplay !== null) {
+      return gridDisplay;
+    }
+
+    if (isGpsResponse(response)) {
+      return formatGpsResponse(response);
+    }
+    if (isMediaResponse(response)) {
+      return response.type === 'signature' ? 'Signature captured' : 'Photo captured';
+    }
+
     if (Array.isArray(response)) {
       if (response.length === 0) return 'No selections';
       
@@ -1288,18 +1348,15 @@ export default function ResponseDetailsModal({
   };
 
   const findQuestionByText = (questionText: string, survey: any) => {
-    if (survey?.sections) {
-      for (const section of survey.sections) {
-        if (section.questions) {
-          for (const question of section.questions) {
-            if (question.text === questionText) {
-              return question;
-            }
-          }
-        }
-      }
+    return flattenSurveyQuestions(survey).find((question: any) => question.text === questionText) || null;
+  };
+
+  // Roster responses carry the ID of the repeated question (their text has the member's label piped in)
+  const findResponseQuestion = (response: any, survey: any) => {
+    if (response?.rosterQuestionId) {
+      return flattenSurveyQuestions(survey).find((question: any) => question.id === response.rosterQuestionId) || null;
     }
-    return null;
+    return findQuestionByText(response?.questionText, survey);
   };
 
   // Helper function to find question in survey by keywords
@@ -1308,39 +1365,13 @@ export default function ResponseDetailsModal({
     const actualSurvey = survey.survey || survey;
     const normalizedKeywords = keywords.map(k => k.toLowerCase());
     
-    const searchInQuestions = (questions: any[]) => {
-      for (const question of questions) {
-        const questionText = getMainText(question.text || question.questionText || '').toLowerCase();
-        if (requireAll) {
-          if (normalizedKeywords.every(keyword => questionText.includes(keyword))) {
-            return question;
-          }
-        } else {
-          if (normalizedKeywords.some(keyword => questionText.includes(keyword))) {
-            return question;
-          }
-        }
-      }
-      return null;
-    };
-    
-    // Search in sections
-    if (actualSurvey.sections) {
-      for (const section of actualSurvey.sections) {
-        if (section.questions) {
-          const found = searchInQuestions(section.questions);
-          if (found) return found;
-        }
-      }
-    }
-    
-    // Search in top-level questions
-    if (actualSurvey.questions) {
-      const found = searchInQuestions(actualSurvey.questions);
-      if (found) return found;
-    }
-    
-    return null;
+    // Sections first, then top-level questions
+    return flattenSurveyQuestions(actualSurvey).find((question: any) => {
+      const questionText = getMainText(question.text || question.questionText || '').toLowerCase();
+      return requireAll
+        ? normalizedKeywords.every(keyword => questionText.includes(keyword))
+        : normalizedKeywords.some(keyword => questionText.includes(keyword));
+    }) || null;
   };
 
   // Helper function to find response by matching question text (without translations)
@@ -2090,16 +2121,36 @@ export default function ResponseDetailsModal({
                           return !questionText.toLowerCase().includes('select assembly constituency') &&
                                  !questionText.toLowerCase().includes('select polling station');
                         })
-                        .map((response: any, index: number) => {
-                          const question = findQuestionByText(response.questionText, survey);
+                        .map((response: any, index: number, shownResponses: any[]) => {
+                          const question = findResponseQuestion(response, survey);
+                          const previous = shownResponses[index - 1];
+                          const startsRosterIteration = !!response.rosterIteration &&
+                            (previous?.rosterIteration !== response.rosterIteration || previous?.rosterLabel !== response.rosterLabel);
                           return (
                             <View key={index} style={styles.responseItem}>
+                              {startsRosterIteration && (
+                                <Text style={styles.rosterHeader}>
+                                  {response.rosterLabel || `#${response.rosterIteration}`}
+                                </Text>
+                              )}
                               <Text style={styles.questionText}>
                                 Q{index + 1}: {response.questionText}
                               </Text>
-                              <Text style={styles.responseText}>
-                                {formatResponseDisplay(response.response, question)}
-                              </Text>
+                              {isMediaResponse(response.response) && response.response.mediaUrl ? (
+                                <MediaResponseImage media={response.response} />
+                              ) : (
+                                <Text style={styles.responseText}>
+                                  {formatResponseDisplay(response.response, question)}
+                                </Text>
+                              )}
+                              {/* Soft validation warnings the interviewer confirmed */}
+                              {(interview.metadata?.validationOverrides || [])
+                                .filter((override: ValidationOverride) => override.questionId === response.questionId)
+                                .map((override: ValidationOverride) => (
+                                  <Text key={override.ruleId} style={styles.validationOverrideText}>
+                                    ⚠️ Confirmed by interviewer: {override.message}
+                                  </Text>
+                                ))}
                             </View>
                           );
                         })
@@ -2640,11 +2691,42 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 8,
   },
+  validationOverrideText: {
+    fontSize: 12,
+    color: '#b45309',
+    marginTop: 4,
+  },
+  rosterHeader: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#2563eb',
+    marginBottom: 6,
+  },
   responseText: {
     fontSize: 14,
     color: '#6b7280',
     lineHeight: 20,
   },
+  photoImage: {
+    width: '100%',
+    height: 220,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    marginTop: 4,
+  },
+  signatureImage: {
+    width: '100%',
+    height: 120,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginTop: 4,
+  },
+  mediaLoader: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
   noDataText: {
     fontSize: 14,
     color: '#9ca3af',
@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, Alert } from 'react-native';
+import { Text, Button, ActivityIndicator } from 'react-native-paper';
+import { captureRef } from 'react-native-view-shot';
+import * as FileSystem from 'expo-file-system/legacy';
+import { offlineStorage } from '../services/offlineStorage';
+import { MediaResponse } from '../types';
+import { isMediaResponse } from '../utils/mediaQuestions';
+
+const PAD_HEIGHT = 200;
+const STROKE_WIDTH = 3;
+
+type Point = { x: number; y: number };
+
+interface SignatureQuestionProps {
+  question: any;
+  response: MediaResponse | null | undefined;
+  onChange: (value: MediaResponse) => void;
+}
+
+/**
+ * Signature question - the respondent signs on the pad, which is saved as a PNG in offline storage
+ */
+export default function SignatureQuestion({ question, response, onChange }: SignatureQuestionProps) {
+  const [strokes, setStrokes] = useState<Point[][]>([]);
+  const [isSigning, setIsSigning] = useState(!isMediaResponse(response));
+  const [isSaving, setIsSaving] = useState(false);
+  const padRef = useRef<View>(null);
+  const captured = isMediaResponse(response) ? response : null;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture when the surrounding ScrollView wants to scroll
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (evt) => {
+        const { locationX, locationY } = evt.nativeEvent;
+        setStrokes((current) => [...current, [{ x: locationX, y: locationY }]]);
+      },
+      onPanResponderMove: (evt) => {
+        const { locationX, locationY } = evt.nativeEvent;
+        setStrokes((current) => {
+          if (current.length === 0) return current;
+          const last = current[current.length - 1];
+          return [...current.slice(0, -1), [...last, { x: locationX, y: locationY }]];
+        });
+      },
+    })
+  ).current;
+
+  const saveSignature = async () => {
+    if (strokes.length === 0) {
+      Alert.alert('Signature', 'Please sign on the pad first.');
+      return;
+    }
+    setIsSaving(true);
+    let pngUri: string | null = null;
+    try {
+      pngUri = await captureRef(padRef, { format: 'png', quality: 1, result: 'tmpfile' });
+      const offlinePath = await offlineStorage.copyMediaFileToOfflineStorage(pngUri, question.id);
+      if (captured?.offlinePath) {
+        await offlineStorage.deleteAudioFileFromOfflineStorage(captured.offlinePath);
+      }
+      onChange({
+        type: 'signature',
+        offlinePath,
+        mimeType: 'image/png',
+        capturedAt: new Date().toISOString(),
+      });
+      setIsSigning(false);
+      setStrokes([]);
+    } catch (error) {
+      console.error('❌ Error saving signature:', error);
+      Alert.alert('Signature Error', 'The signature could not be saved. Please try again.');
+    } finally {
+      if (pngUri) {
+        await FileSystem.deleteAsync(pngUri, { idempotent: true }).catch(() => {});
+      }
+      setIsSaving(false);
+    }
+  };
+
+  if (!isSigning && captured) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.capturedText}>
+          ✓ Signature saved at {new Date(captured.capturedAt).toLocaleTimeString()}
+        </Text>
+        <Button mode="outlined" icon="draw" onPress={() => setIsSigning(true)}>
+          Sign Again
+        </Button>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View ref={padRef} collapsable={false} style={styles.pad} {...panResponder.panHandlers}>
+        {strokes.map((stroke, strokeIndex) =>
+          stroke.map((point, pointIndex) => {
+            // Each segment is a rotated bar from the previous point; a single tap draws a dot
+            const previous = stroke[pointIndex - 1] || point;
+            const length = Math.hypot(point.x - previous.x, point.y - previous.y);
+            const angle = Math.atan2(point.y - previous.y, point.x - previous.x);
+            return (
+              <View
+                key={`${strokeIndex}-${pointIndex}`}
+                pointerEvents="none"
+                style={[
+                  styles.segment,
+                  {
+                    left: (point.x + previous.x) / 2 - (length + STROKE_WIDTH) / 2,
+                    top: (point.y + previous.y) / 2 - STROKE_WIDTH / 2,
+                    width: length + STROKE_WIDTH,
+                    transform: [{ rotate: `${angle}rad` }],
+                  },
+                ]}
+              />
+            );
+          })
+        )}
+        {strokes.length === 0 ? (
+          <Text style={styles.placeholder} pointerEvents="none">Sign here</Text>
+        ) : null}
+      </View>
+      {isSaving ? (
+        <ActivityIndicator size="small" color="#2563eb" style={styles.loader} />
+      ) : (
+        <View style={styles.buttonRow}>
+          <Button mode="outlined" onPress={() => setStrokes([])} disabled={strokes.length === 0}>
+            Clear
+          </Button>
+          {captured ? (
+            <Button mode="text" onPress={() => { setStrokes([]); setIsSigning(false); }}>
+              Cancel
+            </Button>
+          ) : null}
+          <Button mode="contained" onPress={saveSignature} disabled={strokes.length === 0}>
+            Save Signature
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  pad: {
+    height: PAD_HEIGHT,
+    borderWidth: 1,
+    borderColor: '#9ca3af',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  segment: {
+    position: 'absolute',
+    height: STROKE_WIDTH,
+    borderRadius: STROKE_WIDTH / 2,
+    backgroundColor: '#111827',
+  },
+  placeholder: {
+    fontSize: 16,
+    color: '#d1d5db',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    gap: 8,
+  },
+  capturedText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+});
@@ -16,7 +16,8 @@ import {
   Surface,
 } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
-import { Survey } from '../types';
+import { Survey, ConditionNode } from '../types';
+import { getConditionExpression } from '../utils/conditionExpressions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -44,6 +45,9 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
       case 'is_not_empty': return 'is not empty';
       case 'is_selected': return 'is selected';
       case 'is_not_selected': return 'is not selected';
+      case 'in': return 'is one of';
+      case 'not_in': return 'is not one of';
+      case 'between': return 'is between';
       default: return operator;
     }
   };
@@ -71,29 +75,35 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
     return null;
   };
 
-  // Helper function to format conditional logic
-  const formatConditionalLogic = (conditions: any[]) => {
-    if (!conditions || conditions.length === 0) return '';
-    
-    return conditions.map((condition, index) => {
-      const question = findQuestionById(condition.questionId);
-      const operator = getOperatorDescription(condition.operator);
-      const value = condition.value;
-      
-      let conditionText = '';
-      if (question) {
-        conditionText = `"${question.text}" ${operator} "${value}"`;
-      } else {
-        conditionText = `Question ${condition.questionId} ${operator} "${value}"`;
+  // Helper function to format conditional logic (groups in parentheses)
+  const formatConditionalLogic = (question: any) => {
+    const expression = getConditionExpression(question);
+    if (!expression) return '';
+
+    const formatNode = (node: ConditionNode, isNested: boolean): string => {
+      if (node.type === 'group') {
+        const text = node.conditions
+          .map(child => formatNode(child, true))
+          .join(` ${node.combinator} `);
+        return isNested && node.conditions.length > 1 ? `(${text})` : text;
+      }
+      if (node.type === 'not') {
+        return `NOT ${formatNode(node.condition, true)}`;
       }
-      
-      if (index > 0) {
-        const logic = condition.logic || 'AND';
-        conditionText = ` ${logic} ${conditionText}`;
+
+      const operator = getOperatorDescription(node.operator);
+      const value = Array.isArray(node.value) ? node.value.join(node.operator === 'between' ? ' and ' : ', ') : node.value;
+      const valueText = ['is_empty', 'is_not_empty'].includes(node.operator) ? '' : ` "${value}"`;
+      if (node.computed) {
+        return `${node.computed.replace('_', ' ')} ${operator}${valueText}`;
       }
-      
-      return conditionText;
-    }).join('');
+      const conditionQuestion = node.questionId ? findQuestionById(node.questionId) : null;
+      return conditionQuestion
+        ? `"${conditionQuestion.text}" ${operator}${valueText}`
+        : `Question ${node.questionId} ${operator}${valueText}`;
+    };
+
+    return formatNode(expression, false);
   };
 
   // Helper function to format date
@@ -387,7 +397,7 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
                         
                         {/* Question Tags - moved below question */}
                         <View style={styles.questionTagsContainer}>
-                          {question.conditions && question.conditions.length > 0 && (
+                          {getConditionExpression(question) && (
                             <Chip style={styles.conditionalChip} textStyle={styles.conditionalChipText}>
                               Conditional
                             </Chip>
@@ -402,14 +412,14 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
                         )}
                         
                         {/* Conditional Logic Display */}
-                        {question.conditions && question.conditions.length > 0 && (
+                        {getConditionExpression(question) && (
                           <View style={styles.conditionalLogic}>
                             <View style={styles.conditionalLogicHeader}>
                               <Ionicons name="flash" size={16} color="#f59e0b" />
                               <Text style={styles.conditionalLogicTitle}>Conditional Logic:</Text>
                             </View>
                             <Text style={styles.conditionalLogicText}>
-                              This question will only appear when: {formatConditionalLogic(question.conditions)}
+                              This question will only appear when: {formatConditionalLogic(question)}
                             </Text>
                           </View>
                         )}
@@ -479,7 +489,7 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
                     
                     {/* Question Tags - moved below question */}
                     <View style={styles.questionTagsContainer}>
-                      {question.conditions && question.conditions.length > 0 && (
+                      {getConditionExpression(question) && (
                         <Chip style={styles.conditionalChip} textStyle={styles.conditionalChipText}>
                           Conditional
                         </Chip>
@@ -494,14 +504,14 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
                     )}
                     
                     {/* Conditional Logic Display */}
-                    {question.conditions && question.conditions.length > 0 && (
+                    {getConditionExpression(question) && (
                       <View style={styles.conditionalLogic}>
                         <View style={styles.conditionalLogicHeader}>
                           <Ionicons name="flash" size={16} color="#f59e0b" />
                           <Text style={styles.conditionalLogicTitle}>Conditional Logic:</Text>
                         </View>
                         <Text style={styles.conditionalLogicText}>
-                          This question will only appear when: {formatConditionalLogic(question.conditions)}
+                          This question will only appear when: {formatConditionalLogic(question)}
                         </Text>
                       </View>
                     )}
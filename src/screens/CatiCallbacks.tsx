@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  Snackbar,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { apiService } from '../services/api';
+import { offlineStorage } from '../services/offlineStorage';
+import { callbackService } from '../services/callbackService';
+import { CatiCallback, groupCallbacks } from '../utils/catiCallbacks';
+
+export default function CatiCallbacks({ navigation }: any) {
+  const [callbacks, setCallbacks] = useState<CatiCallback[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [startingCallbackId, setStartingCallbackId] = useState<string | null>(null);
+  const [snackbarVisible, setSnackbarVisible] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  useEffect(() => {
+    loadCallbacks();
+    // Callbacks change when an interview started from here is saved
+    const unsubscribe = navigation.addListener('focus', loadCallbacks);
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadCallbacks = async () => {
+    try {
+      setCallbacks(await callbackService.getCallbacks());
+    } catch (error) {
+      console.error('Error loading callbacks:', error);
+      showSnackbar('Failed to load callbacks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadCallbacks();
+    setIsRefreshing(false);
+  };
+
+  const showSnackbar = (message: string) => {
+    setSnackbarMessage(message);
+    setSnackbarVisible(true);
+  };
+
+  // Restart the interview with this respondent - the interview screen calls them right away
+  const handleCallNow = async (callback: CatiCallback) => {
+    setStartingCallbackId(callback.id);
+    try {
+      if (!(await apiService.isOnline())) {
+        showSnackbar('Callbacks need an internet connection');
+        return;
+      }
+      const survey = await offlineStorage.getSurveyById(callback.surveyId);
+      if (!survey) {
+        showSnackbar('Survey is not downloaded on this device - sync surveys and try again');
+        return;
+      }
+      navigation.navigate('InterviewInterface', { survey, isCatiMode: true, callbackQueueId: callback.queueId });
+    } catch (error) {
+      console.error('Error starting callback:', error);
+      showSnackbar('Failed to start callback');
+    } finally {
+      setStartingCallbackId(null);
+    }
+  };
+
+  const handleRemove = (callback: CatiCallback) => {
+    Alert.alert(
+      'Remove Callback',
+      `Remove the callback for ${callback.respondentName || 'this respondent'}? The reminder will be cancelled.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await callbackService.removeCallback(callback.id);
+              await loadCallbacks();
+            } catch (error) {
+              console.error('Error removing callback:', error);
+              showSnackbar('Failed to remove callback');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDue = (dateString: string) => {
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) return 'N/A';
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const renderCallback = (callback: CatiCallback, isOverdue: boolean) => (
+    <Card key={callback.id} style={[styles.callbackCard, isOverdue && styles.overdueCard]}>
+      <Card.Content>
+        <View style={styles.callbackHeader}>
+          <Text style={styles.respondentName} numberOfLines={1}>
+            {callback.respondentName || 'Respondent'}
+          </Text>
+          <Text style={[styles.dueText, isOverdue && styles.overdueText]}>{formatDue(callback.dueAt)}</Text>
+        </View>
+        <Text style={styles.surveyName} numberOfLines={2}>{callback.surveyName || callback.surveyId}</Text>
+        {callback.acName && <Text style={styles.metaText}>AC: {callback.acName}</Text>}
+        {callback.notes && <Text style={styles.notesText}>{callback.notes}</Text>}
+        <View style={styles.actions}>
+          <Button
+            mode="text"
+            onPress={() => handleRemove(callback)}
+            textColor="#6b7280"
+            compact
+          >
+            Remove
+          </Button>
+          <Button
+            mode="contained"
+            onPress={() => handleCallNow(callback)}
+            loading={startingCallbackId === callback.id}
+            disabled={startingCallbackId !== null}
+            buttonColor="#001D48"
+            icon="phone"
+            compact
+          >
+            Call Now
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  const groups = groupCallbacks(callbacks);
+  const sections: Array<{ title: string; items: CatiCallback[]; isOverdue: boolean }> = [
+    { title: 'Overdue', items: groups.overdue, isOverdue: true },
+    { title: 'Later Today', items: groups.today, isOverdue: false },
+    { title: 'Upcoming', items: groups.upcoming, isOverdue: false },
+  ];
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#001D48" />
+        <Text style={styles.loadingText}>Loading callbacks...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <StatusBar style="light" />
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={['#001D48']}
+            tintColor="#001D48"
+          />
+        }
+      >
+        {callbacks.length > 0 ? (
+          sections.filter(section => section.items.length > 0).map(section => (
+            <View key={section.title} style={styles.section}>
+              <Text style={[styles.sectionTitle, section.isOverdue && styles.overdueText]}>
+                {section.title} ({section.items.length})
+              </Text>
+              {section.items.map(callback => renderCallback(callback, section.isOverdue))}
+            </View>
+          ))
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyTitle}>No Callbacks</Text>
+            <Text style={styles.emptySubtitle}>
+              Respondents who ask to be called later are listed here, with a reminder shortly before the call is due.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={4000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  callbackCard: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  overdueCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#dc2626',
+  },
+  callbackHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 4,
+  },
+  respondentName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    flex: 1,
+    marginRight: 12,
+  },
+  dueText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#001D48',
+  },
+  overdueText: {
+    color: '#dc2626',
+  },
+  surveyName: {
+    fontSize: 13,
+    color: '#374151',
+    marginBottom: 2,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  notesText: {
+    fontSize: 13,
+    color: '#4b5563',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    paddingHorizontal: 24,
+  },
+});
@@ -15,6 +15,8 @@ import { Chip, Button } from 'react-native-paper';
 import { Audio } from 'expo-av';
 import { apiService } from '../services/api';
 import { SurveyResponse } from '../types';
+import { formatGridResponse } from '../utils/questionTypes';
+import { isMediaResponse, isGpsResponse, formatGpsResponse } from '../utils/mediaQuestions';
 
 interface InterviewDetailsProps {
   route?: {
@@ -202,6 +204,18 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
       return 'No response';
     }
 
+    const gridDisplay = formatGridResponse(surveyQuestion, response);
+    if (gridDisplay !== null) {
+      return gridDisplay;
+    }
+
+    if (isGpsResponse(response)) {
+      return formatGpsResponse(response);
+    }
+    if (isMediaResponse(response)) {
+      return response.type === 'signature' ? 'Signature captured' : 'Photo captured';
+    }
+
     // If it's an array (multiple selections)
     if (Array.isArray(response)) {
       if (response.length === 0) return 'No selections';
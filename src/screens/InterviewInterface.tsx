@@ -38,11 +38,86 @@ import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system/legacy';
 import { apiService } from '../services/api';
 import { LocationService } from '../utils/location';
-import { Survey, SurveyResponse } from '../types';
+import { AudioPosition, InterviewParadata, QuotaStatus, RandomizationRecord, RespondentHistory, Survey, SurveyResponse, ValidationOverride } from '../types';
 import { parseTranslation, getMainText, parseMultiTranslation, getLanguageText } from '../utils/translations';
 import { isGenderQuestion } from '../utils/genderUtils';
+import {
+  SurveyEngineContext,
+  buildSurveyQuestions,
+  getVisibleQuestions,
+  getMaxPossibleQuestions,
+  getProgress,
+  getNextQuestionIndex,
+  getPreviousQuestionIndex,
+  validateQuestion,
+  getValidationIssues,
+  getInvalidQuestions,
+  getUnansweredRequiredQuestions,
+  hasResponseContent,
+  isConsentDeclined,
+  isAgeQuestion,
+  getComputedValues,
+  getPipingValues,
+} from '../utils/surveyEngine';
+import { pipeQuestion } from '../utils/surveyVariables';
+import { getGridResponseFields } from '../utils/questionTypes';
+import { expandRosterQuestions, getRosterResponseFields } from '../utils/rosters';
+import {
+  createParadata,
+  endAllQuestionVisits,
+  endQuestionVisit,
+  getParadataQualityMetrics,
+  getResponseTime,
+  recordAnswerChange,
+  recordBackNavigation,
+  startQuestionVisit,
+} from '../utils/paradata';
+import {
+  getCurrentValidationOverrides,
+  isValidationIssueConfirmed,
+  ValidationIssue,
+} from '../utils/validationRules';
+import {
+  applyRecordedOrder,
+  createSeededRandom,
+  getOptionKey,
+  getOptionRandomization,
+  orderOptions,
+} from '../utils/randomization';
+import { parseCallbackTime } from '../utils/catiCallbacks';
+import {
+  buildCallDisposition,
+  DispositionFollowUps,
+  findDispositionCode,
+  getDispositionAbandonReason,
+  getDispositionCodes,
+  getDispositionFollowUpError,
+  getDispositionNotes,
+  getDispositionOptions,
+  isConnectedDisposition,
+} from '../utils/dispositions';
+import { countRefusals, normalizeRespondentHistory, REPEAT_REFUSAL_LIMIT } from '../utils/respondentHistory';
 import { offlineStorage, OfflineInterview } from '../services/offlineStorage';
 import { offlineDataCache } from '../services/offlineDataCache';
+import { audioUploadService } from '../services/audioUploadService';
+import { interviewJournal } from '../services/interviewJournal';
+import { quotaService } from '../services/quotaService';
+import { randomizationService } from '../services/randomizationService';
+import { setAssignmentService } from '../services/setAssignmentService';
+import { callbackService } from '../services/callbackService';
+import {
+  findFullQuotaCell,
+  getMatchedQuotaCellIds,
+  getOptionQuotaCell,
+  getQuotaCellLabel,
+} from '../utils/quotaEngine';
+import MatrixQuestion from '../components/MatrixQuestion';
+import RankingQuestion from '../components/RankingQuestion';
+import ConstantSumQuestion from '../components/ConstantSumQuestion';
+import PhotoQuestion from '../components/PhotoQuestion';
+import SignatureQuestion from '../components/SignatureQuestion';
+import GpsQuestion from '../components/GpsQuestion';
+import RespondentHistoryPanel from '../components/RespondentHistoryPanel';
 
 const { width, height } = Dimensions.get('window');
 
@@ -227,7 +302,7 @@ async function cachePollingDataForACs(acs: any[], state: string): Promise<void>
 }
 
 export default function InterviewInterface({ navigation, route }: any) {
-  const { survey: routeSurvey, responseId, isContinuing, isCatiMode: routeIsCatiMode } = route.params;
+  const { survey: routeSurvey, responseId, isContinuing, isCatiMode: routeIsCatiMode, resumeInterrupted, callbackQueueId } = route.params;
   
   // OPTIMIZATION: Use state for survey so we can update it with full data when fetched
   const [survey, setSurvey] = useState<any>(routeSurvey);
@@ -330,6 +405,9 @@ export default function InterviewInterface({ navigation, route }: any) {
   const [isPaused, setIsPaused] = useState(false);
   const [showAbandonConfirm, setShowAbandonConfirm] = useState(false);
   
+  // Crash-safe journal for CAPI interviews (checkpointed on every answer)
+  const journalRef = useRef<{ journalId: string; partialAudioPaths: string[]; resumeCount: number } | null>(null);
+  
   // Audio recording state
   const [isRecording, setIsRecording] = useState(false);
   const [isRecordingReady, setIsRecordingReady] = useState(false); // NEW: Tracks when recording is fully started and confirmed
@@ -379,22 +457,32 @@ export default function InterviewInterface({ navigation, route }: any) {
   const [showStationDropdown, setShowStationDropdown] = useState(false);
   
   // Quota management state
-  const [genderQuotas, setGenderQuotas] = useState<any>(null);
+  const [quotaStatuses, setQuotaStatuses] = useState<QuotaStatus[]>([]);
   const [targetAudienceErrors, setTargetAudienceErrors] = useState<Map<string, string>>(new Map());
+  // Soft validation warnings the interviewer confirmed (a ref, so saving right after a confirmation sees it)
+  const validationOverridesRef = useRef<ValidationOverride[]>([]);
+  // Per-question timings, visits and answer changes (refs - recorded on every step without re-rendering)
+  const paradataRef = useRef<InterviewParadata>(createParadata());
+  const audioPositionRef = useRef<{ offset: number; sampledAt: number } | null>(null);
   const [othersTextInputs, setOthersTextInputs] = useState<Record<string, string>>({}); // Store "Others" text input values by questionId_optionValue
   const [shuffledOptions, setShuffledOptions] = useState<Record<string, any[]>>({}); // Store shuffled options per questionId to maintain consistent order
+  // Section, question and option orders of this interview (recorded with the response)
+  const [randomization, setRandomization] = useState<RandomizationRecord | null>(null);
   const scrollViewRef = React.useRef<ScrollView>(null); // Ref for ScrollView to scroll to top
   const lastFetchedACRef = useRef<string | null>(null); // Track last AC we fetched MP/MLA for
   
   // CATI interview state
   const [catiQueueId, setCatiQueueId] = useState<string | null>(null);
   const [catiRespondent, setCatiRespondent] = useState<any>(null);
+  const [respondentHistory, setRespondentHistory] = useState<RespondentHistory | null>(null);
   const [callStatus, setCallStatus] = useState<'idle' | 'calling' | 'connected' | 'failed' | null>(null);
   const [callId, setCallId] = useState<string | null>(null);
   const [showAbandonModal, setShowAbandonModal] = useState(false);
   const [abandonReason, setAbandonReason] = useState<string>('');
   const [abandonNotes, setAbandonNotes] = useState<string>('');
   const [callLaterDate, setCallLaterDate] = useState<string>('');
+  // Follow-ups the selected call status requires (refusal reason, callback time, notes)
+  const [dispositionFollowUps, setDispositionFollowUps] = useState<DispositionFollowUps>({});
   
   // State to track which Set is being shown in this interview
   const [selectedSetNumber, setSelectedSetNumber] = useState<number | null>(null);
@@ -421,6 +509,9 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   }, [showStationDropdown]);
 
+  // Call statuses (disposition codes) of the survey - the options of the CATI call status question
+  const dispositionCodes = useMemo(() => getDispositionCodes(survey), [survey]);
+
   // Get all questions from all sections
   // CRITICAL: For CATI, this depends on selectedSetNumber to filter questions correctly
   const allQuestions = useMemo(() => {
@@ -448,50 +539,7 @@ export default function InterviewInterface({ navigation, route }: any) {
         description: 'Please select the status of the call attempt.',
         required: true,
         order: -4, // Make it appear first (before interviewer ID and consent form)
-        options: [
-          {
-            id: 'call-connected',
-            text: 'Call Connected {কল সংযুক্ত হয়েছে}',
-            value: 'call_connected',
-            code: 'call_connected'
-          },
-          {
-            id: 'busy',
-            text: 'Busy {ব্যস্ত}',
-            value: 'busy',
-            code: 'busy'
-          },
-          {
-            id: 'switched-off',
-            text: 'Switched Off {সুইচ অফ}',
-            value: 'switched_off',
-            code: 'switched_off'
-          },
-          {
-            id: 'not-reachable',
-            text: 'Not Reachable {পৌঁছানো যায়নি}',
-            value: 'not_reachable',
-            code: 'not_reachable'
-          },
-          {
-            id: 'did-not-pick-up',
-            text: 'Did Not Pick Up {উত্তর দেননি}',
-            value: 'did_not_pick_up',
-            code: 'did_not_pick_up'
-          },
-          {
-            id: 'number-does-not-exist',
-            text: 'Number Does Not Exist {নম্বর বিদ্যমান নেই}',
-            value: 'number_does_not_exist',
-            code: 'number_does_not_exist'
-          },
-          {
-            id: 'didnt-get-call',
-            text: "Didn't Get Call {কল পাননি}",
-            value: 'didnt_get_call',
-            code: 'didnt_get_call'
-          }
-        ],
+        options: getDispositionOptions(dispositionCodes),
         sectionIndex: -4, // Special section for call status
         questionIndex: -4,
         sectionId: 'call-status',
@@ -652,322 +700,22 @@ export default function InterviewInterface({ navigation, route }: any) {
       }
     }
 
-    // Helper function to determine which Set to show for this interview
-    const determineSetNumber = (sessionId: string | null, survey: any): number | null => {
-      if (!sessionId || !survey) return null;
-      
-      // Find all unique set numbers in the survey
-      const setNumbers = new Set<number>();
-      survey.sections?.forEach((section: any) => {
-        section.questions?.forEach((question: any) => {
-          if (question.setsForThisQuestion && question.setNumber !== null && question.setNumber !== undefined) {
-            setNumbers.add(question.setNumber);
-          }
-        });
-      });
-      
-      if (setNumbers.size === 0) return null;
-      
-      // Use sessionId as seed to deterministically select a Set
-      const seed = parseInt(sessionId.slice(-8), 16) || 0;
-      const setArray = Array.from(setNumbers).sort((a, b) => a - b);
-      const selectedIndex = seed % setArray.length;
-      return setArray[selectedIndex];
-    };
-
-    // Helper function to check if question should be shown based on interview mode and sets logic
-    const shouldShowQuestion = (question: any, interviewMode: string, currentSetNumber: number | null): boolean => {
-      // Check CAPI/CATI visibility
-      if (interviewMode === 'capi' && question.enabledForCAPI === false) {
-        return false;
-      }
-      if (interviewMode === 'cati') {
-        // Hide questions explicitly disabled for CATI
-        if (question.enabledForCATI === false) {
-        return false;
-        }
-        // Also hide questions that are CAPI-only (enabledForCAPI is true but enabledForCATI is not true)
-        // This catches cases where Survey Builder sets "show only in CAPI" but doesn't explicitly set enabledForCATI to false
-        if (question.enabledForCAPI === true && question.enabledForCATI !== true) {
-          return false;
-        }
-      }
-      
-      // Sets logic ONLY applies to CATI interviews, NOT CAPI
-      // For CAPI, show all questions regardless of sets
-      if (interviewMode === 'capi') {
-        // For CAPI, always show questions (sets don't apply)
-        return true;
-      }
-      
-      // For CATI, apply sets logic
-      if (interviewMode === 'cati' && question.setsForThisQuestion) {
-        // If question has a set number, only show if it matches the selected set
-        if (question.setNumber !== null && question.setNumber !== undefined) {
-          // If no set is selected yet, we'll determine it
-          if (currentSetNumber === null) {
-            return false; // Don't show until set is determined
-          }
-          // Only show questions from the selected set
-          return question.setNumber === currentSetNumber;
-        }
-        // If setsForThisQuestion is true but no setNumber, treat as always show (backward compatibility)
-        return true;
-      }
-      
-      // Questions without Sets appear in all surveys
-      return true;
-    };
-
-    // Determine current interview mode
-    const interviewMode = isCatiMode ? 'cati' : 'capi';
-    
-    // Determine which Set to show for this interview (if sets are used)
-    // Note: Sets only apply to CATI, not CAPI
-    let currentSetNumber = selectedSetNumber;
-    // For CAPI, always set to null (no sets - show all questions from both sets)
-    if (interviewMode === 'capi') {
-      currentSetNumber = null;
-    }
-    // For CATI, use the selectedSetNumber (fetched via useEffect)
-    
-    // Add regular survey questions from sections (filtered by CAPI/CATI and sets logic)
-    // SPECIAL: For target survey in CATI mode, include Q17 and Q7 even if they're conditionally hidden or in a different set
-    // This ensures they can be reordered correctly even if they're not initially visible
-    const TARGET_SURVEY_ID = '68fd1915d41841da463f0d46';
-    const isTargetSurveyCATI = isCatiMode && survey && (survey._id === TARGET_SURVEY_ID || survey.id === TARGET_SURVEY_ID);
-    
-    if (survey?.sections && Array.isArray(survey.sections) && survey.sections.length > 0) {
-      survey.sections.forEach((section: any, sectionIndex: number) => {
-        if (section && section.questions && Array.isArray(section.questions) && section.questions.length > 0) {
-          section.questions.forEach((question: any, questionIndex: number) => {
-            if (!question) return; // Skip null/undefined questions
-            // Check if question should be shown
-            const shouldShow = shouldShowQuestion(question, interviewMode, currentSetNumber);
-            const isQ17 = question.questionNumber === '17' || (question.questionNumber && String(question.questionNumber).toLowerCase() === '17');
-            const isQ7 = question.questionNumber === '7' || (question.questionNumber && String(question.questionNumber).toLowerCase() === '7');
-            
-            // For Q17 and Q7 in target survey CATI mode, include them even if filtered out by set logic (for reordering purposes)
-            // But still respect CATI visibility settings (enabledForCATI !== false)
-            if (shouldShow || (isTargetSurveyCATI && (isQ17 || isQ7) && question.enabledForCATI !== false)) {
-              questions.push({
-                ...question,
-                sectionIndex,
-                questionIndex,
-                sectionId: section?.id || `section-${sectionIndex}`,
-                sectionTitle: section?.title || 'Survey Section'
-              });
-              // Debug logging for Q7 when included
-              if (isQ7) {
-                console.log(`✅ Q7 Included in allQuestions: questionNumber=${question.questionNumber}, shouldShow=${shouldShow}, enabledForCATI=${question.enabledForCATI}, setNumber=${question.setNumber}, currentSetNumber=${currentSetNumber}`);
-              }
-            }
-          });
-        }
-      });
-    }
-    
-    // Add direct survey questions (not in sections)
-    if (survey?.questions && Array.isArray(survey.questions) && survey.questions.length > 0) {
-      survey.questions.forEach((question: any, questionIndex: number) => {
-        if (!question) return; // Skip null/undefined questions
-        questions.push({
-          ...question,
-          sectionIndex: 0, // Default section for direct questions
-          questionIndex,
-          sectionId: 'direct-questions',
-          sectionTitle: 'Survey Questions'
-        });
-      });
-    }
-    
-    // Removed excessive logging
-    // console.log('🔍 Total questions processed:', questions.length);
-    // console.log('🔍 Questions array:', questions.map(q => ({ id: q.id, text: q.text, type: q.type })));
-    
-    // For CATI, log which questions are being included based on set number
-    if (isCatiMode && selectedSetNumber !== null) {
-      const setQuestions = questions.filter((q: any) => q.setsForThisQuestion && q.setNumber === selectedSetNumber);
-      const nonSetQuestions = questions.filter((q: any) => !q.setsForThisQuestion);
-      console.log(`🔵 CATI Questions filtered - Set ${selectedSetNumber} questions: ${setQuestions.length}, Non-set questions: ${nonSetQuestions.length}, Total: ${questions.length}`);
-    }
-    
-    // Special handling for survey 68fd1915d41841da463f0d46: Dynamic question reordering for CATI mode
-    if (isCatiMode && survey && (survey._id === TARGET_SURVEY_ID || survey.id === TARGET_SURVEY_ID)) {
-      // Helper function to identify questions by questionNumber ONLY (no text patterns)
-      // Simple and reliable: match by questionNumber only
-      const identifyQuestion = (question: any, targetNumber: string, subQuestion: string | null = null): boolean => {
-        const qNum = String(question.questionNumber || '').trim().toLowerCase();
-        const targetNumLower = String(targetNumber).toLowerCase();
-        
-        // For sub-questions (like 16.a, 16.b), check questionNumber pattern
-        if (subQuestion) {
-          // Check if questionNumber matches the pattern (e.g., "16.a", "16a", "16.A")
-          const patternLower = `${targetNumber}.${subQuestion.toLowerCase()}`;
-          const patternLowerNoDot = `${targetNumber}${subQuestion.toLowerCase()}`;
-          const patternUpper = `${targetNumber}.${subQuestion.toUpperCase()}`;
-          const patternUpperNoDot = `${targetNumber}${subQuestion.toUpperCase()}`;
-          
-          if (qNum === patternLower || qNum === patternLowerNoDot || 
-              qNum === patternUpper || qNum === patternUpperNoDot ||
-              question.questionNumber === patternLower || question.questionNumber === patternUpper) {
-            return true;
-          }
-          return false;
-        }
-        
-        // For non-sub-questions, check by questionNumber (exact match)
-        const questionNumberMatches = qNum === targetNumLower || 
-                                     question.questionNumber === targetNumber || 
-                                     question.questionNumber === String(targetNumber);
-        
-        return questionNumberMatches;
-      };
-
-      // Define the desired order with question identifiers for CATI
-      // Format: { number: '2', patterns: ['text patterns'], subQuestion: 'A' or 'B' for sub-questions }
-      // IMPORTANT: Order matters - questions will be reordered in this exact sequence
-      const desiredOrder = [
-        { number: '2' },
-        { number: '1' },
-        { number: '13' },
-        { number: '14' },
-        { number: '16', subQuestion: 'A' },
-        { number: '16', subQuestion: 'B' },
-        { number: '5' },
-        { number: '6' },
-        { number: '7' },
-        { number: '8' },
-        { number: '9' },
-        { number: '10' },
-        { number: '17' },
-        { number: '19' },
-        { number: '28' },
-        { number: '20' },
-        { number: '21' },
-        { number: '22' },
-        { number: '26' },
-        { number: '27' },
-        { number: '3' },
-        { number: '23' },
-        { number: '24' },
-        { number: '25' },
-      ];
-
-      // Find where Q1 starts (questions before Q1 should remain unchanged)
-      // Q1 is typically the first question after system questions (call-status, interviewer-id, consent-form, etc.)
-      let q1StartIndex = -1;
-      questions.forEach((q: any, idx: number) => {
-        if (identifyQuestion(q, '1')) {
-          q1StartIndex = idx;
-        }
-      });
-
-      // If Q1 not found, check for first question with questionNumber >= 1
-      if (q1StartIndex === -1) {
-        questions.forEach((q: any, idx: number) => {
-          const qNum = parseInt(q.questionNumber);
-          if (!isNaN(qNum) && qNum >= 1 && q1StartIndex === -1) {
-            q1StartIndex = idx;
-          }
-        });
-      }
-
-      // If still not found, assume all questions after system questions are survey questions
-      // System questions typically have negative order or specific IDs
-      if (q1StartIndex === -1) {
-        questions.forEach((q: any, idx: number) => {
-          if (q.order && q.order < 0) {
-            // This is a system question, Q1 should be after this
-            q1StartIndex = Math.max(q1StartIndex, idx + 1);
-          }
-        });
-      }
-
-      // Default: if still not found, start from index 0 (reorder all)
-      if (q1StartIndex === -1) {
-        q1StartIndex = 0;
-      }
-
-      // Split questions: before Q1 and from Q1 onwards
-      const questionsBeforeQ1 = questions.slice(0, q1StartIndex);
-      const questionsFromQ1 = questions.slice(q1StartIndex);
-
-      // Find and extract questions in desired order
-      const reorderedQuestions: any[] = [];
-      const usedIndices = new Set<number>();
-
-      desiredOrder.forEach(({ number, subQuestion }, orderIndex) => {
-        const foundIndex = questionsFromQ1.findIndex((q: any, idx: number) => {
-          if (usedIndices.has(idx)) return false;
-          const matches = identifyQuestion(q, number, subQuestion || null);
-          if (matches) {
-            console.log(`✅ Found Q${number}${subQuestion ? '.' + subQuestion : ''} at index ${idx} (questionNumber: ${q.questionNumber}, id: ${q.id}) for order position ${orderIndex + 1}`);
-          }
-          return matches;
-        });
-
-        if (foundIndex !== -1) {
-          reorderedQuestions.push(questionsFromQ1[foundIndex]);
-          usedIndices.add(foundIndex);
-        } else {
-          console.warn(`⚠️ Could not find Q${number}${subQuestion ? '.' + subQuestion : ''} for order position ${orderIndex + 1}. Available questions: ${questionsFromQ1.map((q: any, i: number) => `[${i}]Q${q.questionNumber || '?'}`).join(', ')}`);
-        }
-      });
-      
-      // Add remaining questions (not in desired order) at the end
-      const remainingQuestions = questionsFromQ1.filter((_: any, idx: number) => !usedIndices.has(idx));
-
-      // Combine: questions before Q1 + reordered questions + remaining questions
-      const finalQuestions = [...questionsBeforeQ1, ...reorderedQuestions, ...remainingQuestions];
-
-      // CRITICAL: Re-filter to ensure no CAPI-only questions slip through
-      // This is a safety check to ensure questions with enabledForCATI === false are removed
-      // BUT: Don't filter out Q7 and Q17 for target survey in CATI mode (they're needed for reordering)
-      const filteredFinalQuestions = finalQuestions.filter((q: any) => {
-        const isQ7 = q.questionNumber === '7' || (q.questionNumber && String(q.questionNumber).toLowerCase() === '7');
-        const isQ17 = q.questionNumber === '17' || (q.questionNumber && String(q.questionNumber).toLowerCase() === '17');
-        
-        // For Q7 and Q17 in target survey CATI mode, always include them (they'll be filtered by conditions later)
-        if (isTargetSurveyCATI && (isQ7 || isQ17)) {
-          if (isQ7) {
-            console.log(`✅ Q7 Passing final filter: enabledForCATI=${q.enabledForCATI}, enabledForCAPI=${q.enabledForCAPI}`);
-          }
-          return true; // Always include Q7/Q17 for reordering
-        }
-        
-        // Re-check visibility for CATI mode
-        if (q.enabledForCATI === false) {
-          return false; // Hide questions explicitly disabled for CATI
-        }
-        // Also hide questions that are CAPI-only (enabledForCAPI is true but enabledForCATI is not true)
-        if (q.enabledForCAPI === true && q.enabledForCATI !== true) {
-          return false;
-        }
-        return true;
-      });
-
-      console.log(`✅ Reordered ${reorderedQuestions.length} questions for CATI interview (Survey: ${TARGET_SURVEY_ID})`);
-      console.log(`📋 Order: ${reorderedQuestions.map((q: any) => `Q${q.questionNumber || '?'}`).join(', ')}`);
-      if (finalQuestions.length !== filteredFinalQuestions.length) {
-        console.log(`⚠️ Filtered out ${finalQuestions.length - filteredFinalQuestions.length} CAPI-only questions from CATI interview`);
-      }
-
-      // Return reordered and filtered questions array
-      return filteredFinalQuestions;
-    }
+    // Regular survey questions - filtered by CAPI/CATI and sets, in CATI order for the target survey
+    // (selectedSetNumber is reserved when the session starts)
+    questions.push(...buildSurveyQuestions(survey, {
+      mode: isCatiMode ? 'cati' : 'capi',
+      setNumber: selectedSetNumber,
+      randomization,
+    }));
     
     return questions;
-  }, [survey?.sections, survey?.questions, requiresACSelection, assignedACs, allACs, selectedAC, availableGroups, availablePollingStations, selectedPollingStation.groupName, selectedPollingStation.stationName, interviewerFirstName, isCatiMode, selectedSetNumber]);
+    // Option orders are added to the randomization record as questions are shown - they don't change the questions
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [survey?.sections, survey?.questions, requiresACSelection, assignedACs, allACs, selectedAC, availableGroups, availablePollingStations, selectedPollingStation.groupName, selectedPollingStation.stationName, interviewerFirstName, isCatiMode, selectedSetNumber, dispositionCodes, randomization?.seed, randomization?.sectionOrder, randomization?.questionOrders]);
   
   // Check consent form response
   const consentResponse = responses['consent-form'];
-  // Check for various possible values: '2', 2, 'consent-disagree', or the option ID
-  const isConsentDisagreed = consentResponse === '2' || 
-                             consentResponse === 2 || 
-                             consentResponse === 'consent-disagree' ||
-                             String(consentResponse).toLowerCase().includes('disagree') ||
-                             String(consentResponse).toLowerCase() === 'no';
+  const isConsentDisagreed = isConsentDeclined(consentResponse);
   // If consent is "No" AND we're on the consent form question, show Abandon button (similar to call status)
   // Show Abandon button whenever consent is disagreed (similar to how call status works)
   const shouldShowAbandonForConsent = isConsentDisagreed && currentQuestion?.id === 'consent-form';
@@ -988,275 +736,56 @@ export default function InterviewInterface({ navigation, route }: any) {
   
   // Check call status for CATI interviews
   const callStatusResponse = responses['call-status'];
-  const isCallConnected = callStatusResponse === 'call_connected';
+  const isCallConnected = isConnectedDisposition(callStatusResponse, dispositionCodes);
   const hasCallStatusResponse = callStatusResponse !== null && callStatusResponse !== undefined && callStatusResponse !== '';
   const shouldShowSubmitForCallStatus = isCatiMode && hasCallStatusResponse && !isCallConnected;
-
-  // Helper function to check if response has content
-  const hasResponseContent = (response: any): boolean => {
-    if (response === null || response === undefined) return false;
-    if (typeof response === 'string') return response.trim().length > 0;
-    if (Array.isArray(response)) return response.length > 0;
-    if (typeof response === 'number') return !isNaN(response) && isFinite(response); // Allow 0 and negative numbers
-    if (typeof response === 'boolean') return true;
-    return true;
-  };
-
-  // Evaluate conditional logic for a question
-  const evaluateConditions = useCallback((question: any) => {
-    if (!question.conditions || question.conditions.length === 0) {
-      return true;
-    }
-
-    const results = question.conditions.map((condition: any) => {
-      const response = responses[condition.questionId];
-      
-      if (response === undefined || response === null) {
-        return false;
-      }
-
-      let met = false;
-
-      // Find the target question to get its options for proper comparison
-      const targetQuestion = allQuestions.find((q: any) => q.id === condition.questionId);
-      
-      // Helper function to get main text (without translation) for comparison
-      const getComparisonValue = (val: any): string => {
-        if (val === null || val === undefined) return String(val || '').toLowerCase().trim();
-        const strVal = String(val);
-        
-        // If we have the target question and it has options, try to match the value to an option
-        if (targetQuestion && 'options' in targetQuestion && targetQuestion.options && Array.isArray(targetQuestion.options)) {
-          // Check if val matches any option.value or option.text (after stripping translations)
-          const options = (targetQuestion as any).options;
-          for (const option of options) {
-            const optionValue = typeof option === 'object' ? (option.value || option.text) : option;
-            const optionText = typeof option === 'object' ? option.text : option;
-            
-            // Check if val matches option.value or option.text (with or without translations)
-            if (strVal === String(optionValue) || strVal === String(optionText)) {
-              // Return the main text of the option (without translation)
-              return getMainText(String(optionText)).toLowerCase().trim();
-            }
-            
-            // Also check if main texts match (in case translations differ)
-            if (getMainText(strVal).toLowerCase().trim() === getMainText(String(optionText)).toLowerCase().trim()) {
-              return getMainText(String(optionText)).toLowerCase().trim();
-            }
-          }
-        }
-        
-        // Fallback: just strip translations from the value itself
-        return getMainText(strVal).toLowerCase().trim();
-      };
-
-      // Get comparison values for both response and condition value
-      const responseComparison = Array.isArray(response) 
-        ? response.map((r: any) => getComparisonValue(r))
-        : getComparisonValue(response);
-      const conditionComparison = getComparisonValue(condition.value);
-
-      switch (condition.operator) {
-        case 'equals':
-          if (Array.isArray(responseComparison)) {
-            met = responseComparison.some((r: string) => r === conditionComparison);
-          } else {
-            met = responseComparison === conditionComparison;
-          }
-          break;
-        case 'not_equals':
-          if (Array.isArray(responseComparison)) {
-            met = !responseComparison.some((r: string) => r === conditionComparison);
-          } else {
-            met = responseComparison !== conditionComparison;
-          }
-          break;
-        case 'contains':
-          const responseStr = Array.isArray(responseComparison) 
-            ? responseComparison.join(' ') 
-            : String(responseComparison);
-          met = responseStr.includes(conditionComparison);
-          break;
-        case 'not_contains':
-          const responseStr2 = Array.isArray(responseComparison) 
-            ? responseComparison.join(' ') 
-            : String(responseComparison);
-          met = !responseStr2.includes(conditionComparison);
-          break;
-        case 'greater_than':
-          // Convert response to string first, then parse to handle various formats
-          // Handle both direct numeric values and values from options
-          let responseValue: any = response;
-          // If response is an array, take the first element
-          if (Array.isArray(response)) {
-            responseValue = response[0];
-          }
-          // If response is an object, try to extract numeric value
-          if (typeof responseValue === 'object' && responseValue !== null) {
-            responseValue = (responseValue as any).value || (responseValue as any).text || responseValue;
-          }
-          const responseStrNum = String(responseValue || '').trim();
-          const conditionStrNum = String(condition.value || '').trim();
-          const responseNum = parseFloat(responseStrNum);
-          const conditionNum = parseFloat(conditionStrNum);
-          met = !isNaN(responseNum) && !isNaN(conditionNum) && responseNum > conditionNum;
-          if (question.questionNumber === '7') {
-            console.log(`🔍 Q7 Condition Debug: questionId=${condition.questionId}, response="${response}" (extracted: "${responseValue}", as string: "${responseStrNum}", parsed: ${responseNum}), condition.value="${condition.value}" (as string: "${conditionStrNum}", parsed: ${conditionNum}), met=${met}`);
-          }
-          break;
-        case 'less_than':
-          const responseNum2 = parseFloat(String(response));
-          const conditionNum2 = parseFloat(String(condition.value));
-          met = !isNaN(responseNum2) && !isNaN(conditionNum2) && responseNum2 < conditionNum2;
-          break;
-        case 'is_empty':
-          met = !hasResponseContent(response);
-          break;
-        case 'is_not_empty':
-          met = hasResponseContent(response);
-          break;
-        case 'is_selected':
-          if (Array.isArray(responseComparison)) {
-            met = responseComparison.some((r: string) => r === conditionComparison);
-          } else {
-            met = responseComparison === conditionComparison;
-          }
-          break;
-        case 'is_not_selected':
-          if (Array.isArray(responseComparison)) {
-            met = !responseComparison.some((r: string) => r === conditionComparison);
-          } else {
-            met = responseComparison !== conditionComparison;
-          }
-          break;
-        default:
-          met = false;
-      }
-
-      return met;
-    });
-
-    // Handle AND/OR logic between conditions
-    if (results.length === 1) {
-      return results[0];
-    }
-
-    let finalResult = results[0];
-    for (let i = 1; i < results.length; i++) {
-      const logic = question.conditions[i].logic || 'AND';
-      if (logic === 'AND') {
-        finalResult = finalResult && results[i];
-      } else if (logic === 'OR') {
-        finalResult = finalResult || results[i];
-      }
-    }
-
-    return finalResult;
-  }, [responses]);
+  const selectedDisposition = isCatiMode ? findDispositionCode(dispositionCodes, callStatusResponse) : null;
+
+  // Survey engine context: interview mode, CATI set and the AC/polling station chosen so far
+  const engineContext = useMemo<SurveyEngineContext>(() => ({
+    mode: isCatiMode ? 'cati' : 'capi',
+    setNumber: selectedSetNumber,
+    selectedAC,
+    pollingStationSelected: !!(selectedPollingStation.groupName && selectedPollingStation.stationName),
+    // For CATI the AC comes from the respondent's session data
+    acName: selectedAC || acFromSessionData,
+    byeElectionAvailable: !!(selectedAC || acFromSessionData) && hasByeElection,
+    mpName,
+    mlaName,
+    dispositionCodes,
+  }), [isCatiMode, selectedSetNumber, selectedAC, selectedPollingStation.groupName, selectedPollingStation.stationName, acFromSessionData, hasByeElection, mpName, mlaName, dispositionCodes]);
+
+  // Computed variables (usable in conditions and sent with the response) and {{name}} piping values
+  const computedValues = useMemo(() => {
+    return getComputedValues(survey, allQuestions, responses, engineContext);
+  }, [survey, allQuestions, responses, engineContext]);
+  const pipingValues = useMemo(() => {
+    return getPipingValues(survey, allQuestions, responses, engineContext);
+  }, [survey, allQuestions, responses, engineContext]);
+
+  // Full quota cell the respondent falls in - the interview is screened out as soon as it is known
+  const quotaScreenOut = useMemo(() => {
+    return findFullQuotaCell(quotaStatuses, { responses, allQuestions, computedValues });
+  }, [quotaStatuses, responses, allQuestions, computedValues]);
 
   // Get visible questions based on conditional logic
+  // (for CATI in the target survey, allQuestions is already in CATI order)
   const visibleQuestions = useMemo(() => {
-    if (!allQuestions || allQuestions.length === 0) {
-      return [];
-    }
-    const visible = allQuestions.filter((question: any) => {
-      if (!question) return false;
-      
-      // Check conditional logic first
-      if (!evaluateConditions(question)) {
-        return false;
-      }
-      
-      // For survey "68fd1915d41841da463f0d46": Hide Question 7 (Bye-Election Party Choice) 
-      // if selected AC does not have bye-election
-      const isTargetSurvey = survey && (survey._id === '68fd1915d41841da463f0d46' || survey.id === '68fd1915d41841da463f0d46');
-      if (isTargetSurvey) {
-        const questionNum = String(question.questionNumber || '').toLowerCase();
-        // Q7 is the bye-election question
-        const isQ7 = questionNum === '7' || questionNum === '7.0';
-        
-        if (isQ7) {
-          // Only show Q7 if selected AC has bye-election
-          // For CATI, check if AC is available from session data
-          const acToCheck = selectedAC || acFromSessionData;
-          if (!acToCheck || !hasByeElection) {
-            console.log(`🔍 Q7 Filtered by bye-election check: acToCheck=${acToCheck}, hasByeElection=${hasByeElection}`);
-            return false;
-          }
-        }
-      }
-      
-      return true;
-    });
-    
-    // CRITICAL: For CATI mode in target survey, allQuestions is already reordered in getAllQuestions()
-    // We just need to maintain that order here - no need to reorder again
-    // The visible array already maintains the order from allQuestions
-    return visible;
-  }, [allQuestions, evaluateConditions, selectedAC, hasByeElection, survey, acFromSessionData, isCatiMode]); // Added isCatiMode to dependencies
-
-  // Calculate maximum possible questions from current state
-  // This considers all questions that could potentially be shown based on all possible conditional paths
+    return getVisibleQuestions(survey, allQuestions, responses, engineContext);
+  }, [survey, allQuestions, responses, engineContext]);
+
+  // Maximum possible questions from the current state - questions whose conditions may still be met count too
   const maxPossibleQuestions = useMemo(() => {
-    if (!allQuestions || allQuestions.length === 0) {
-      return 0;
-    }
-    
-    let maxCount = 0;
-    
-    for (const question of allQuestions) {
-      if (!question) continue;
-      
-      // Check if question has conditions
-      const hasConditions = question.conditions && question.conditions.length > 0;
-      
-      if (!hasConditions) {
-        // Questions without conditions are always shown
-        maxCount++;
-      } else {
-        // For questions with conditions, check if they could potentially be shown
-        // A question could be shown if:
-        // 1. Its conditions are already met (it's currently visible), OR
-        // 2. It has conditions that reference questions that haven't been answered yet (could potentially be met)
-        
-        // Check if conditions are already met (question is currently visible)
-        const isCurrentlyVisible = evaluateConditions(question);
-        
-        // Check if conditions reference questions that haven't been answered yet
-        const hasUnansweredDependencies = question.conditions.some((cond: any) => {
-          const response = responses[cond.questionId];
-          return response === undefined || response === null || response === '';
-        });
-        
-        // Special handling for Q7 in target survey - only count if AC has bye-election
-        const isTargetSurvey = survey && (survey._id === '68fd1915d41841da463f0d46' || survey.id === '68fd1915d41841da463f0d46');
-        let shouldCountQ7 = true;
-        if (isTargetSurvey) {
-          const questionNum = String(question.questionNumber || '').toLowerCase();
-          const isQ7 = questionNum === '7' || questionNum === '7.0';
-          
-          if (isQ7) {
-            const acToCheck = selectedAC || acFromSessionData;
-            shouldCountQ7 = acToCheck && hasByeElection;
-          }
-        }
-        
-        // Count if currently visible OR could potentially be shown (has unanswered dependencies)
-        if (shouldCountQ7 && (isCurrentlyVisible || hasUnansweredDependencies)) {
-          maxCount++;
-        }
-      }
-    }
-    
-    return maxCount;
-  }, [allQuestions, responses, evaluateConditions, selectedAC, hasByeElection, survey, acFromSessionData]);
+    return getMaxPossibleQuestions(survey, allQuestions, responses, engineContext);
+  }, [survey, allQuestions, responses, engineContext]);
 
-  const currentQuestion = visibleQuestions && visibleQuestions.length > 0 && currentQuestionIndex < visibleQuestions.length 
-    ? visibleQuestions[currentQuestionIndex] 
-    : null;
-  const progress = (maxPossibleQuestions || (visibleQuestions && visibleQuestions.length > 0))
-    ? (currentQuestionIndex + 1) / (maxPossibleQuestions || visibleQuestions.length)
-    : 0;
+  // Earlier answers and computed variables are piped into the question's text and options
+  const currentQuestion = useMemo(() => {
+    return visibleQuestions && visibleQuestions.length > 0 && currentQuestionIndex < visibleQuestions.length 
+      ? pipeQuestion(visibleQuestions[currentQuestionIndex], pipingValues)
+      : null;
+  }, [visibleQuestions, currentQuestionIndex, pipingValues]);
+  const { total: totalQuestions, progress } = getProgress(currentQuestionIndex, visibleQuestions.length, maxPossibleQuestions);
 
   // OPTIMIZATION: Load ACs when AC selection question becomes visible
   useEffect(() => {
@@ -1375,63 +904,6 @@ export default function InterviewInterface({ navigation, route }: any) {
     checkAudioPermission();
   }, []);
 
-  // Fetch set number for CATI interviews (to alternate sets)
-  // OPTIMIZATION: Use default Set 1 immediately, then fetch actual set number in background
-  useEffect(() => {
-    const fetchSetNumber = async () => {
-      // Only fetch for CATI interviews
-      if (!isCatiMode || !survey?._id || selectedSetNumber !== null) {
-          return;
-        }
-        
-        // Helper function to get default set (Set 1)
-        const getDefaultSet = (): number | null => {
-          const setNumbers = new Set<number>();
-          survey?.sections?.forEach((section: any) => {
-            section.questions?.forEach((question: any) => {
-              if (question.setsForThisQuestion && question.setNumber !== null && question.setNumber !== undefined) {
-                setNumbers.add(question.setNumber);
-              }
-            });
-          });
-          const setArray = Array.from(setNumbers).sort((a, b) => a - b);
-          return setArray.length > 0 ? setArray[0] : null; // First set (usually Set 1)
-        };
-        
-      // OPTIMIZATION: Set default Set 1 immediately (don't block interview start)
-      const defaultSet = getDefaultSet();
-      if (defaultSet !== null && selectedSetNumber === null) {
-        console.log('✅ Setting default Set number:', defaultSet, '(will update from API if different)');
-        setSelectedSetNumber(defaultSet);
-      }
-      
-      // OPTIMIZATION: Fetch actual set number in background (non-blocking)
-      // This allows interview to start immediately with default Set 1
-      if (!survey?._id) {
-        console.warn('No survey ID available, skipping set number fetch');
-        return;
-      }
-      
-      // Fetch in background - don't await, let it update when ready
-      apiService.getLastCatiSetNumber(survey._id)
-        .then((response) => {
-        if (response && response.success && response.data) {
-          const nextSetNumber = response.data.nextSetNumber;
-            if (nextSetNumber !== null && nextSetNumber !== undefined && nextSetNumber !== defaultSet) {
-              console.log('🔄 Updating Set number from API:', nextSetNumber, '(was:', defaultSet, ')');
-            setSelectedSetNumber(nextSetNumber);
-            }
-          }
-        })
-        .catch((error: any) => {
-          // Silently handle errors - default Set 1 is already set
-          console.log('⚠️ Set number API call failed, using default Set 1');
-        });
-    };
-
-    fetchSetNumber();
-  }, [isCatiMode, survey?._id, selectedSetNumber, survey?.sections]);
-
   // Memoize AC from sessionData to avoid unnecessary re-renders
   const acFromSessionData = useMemo(() => {
     if (!isCatiMode || !sessionData) return null;
@@ -1885,7 +1357,7 @@ export default function InterviewInterface({ navigation, route }: any) {
           try {
             // Start interview and fetch full survey in parallel
             const [interviewResult, surveyResult] = await Promise.all([
-              apiService.startCatiInterview(survey._id),
+              apiService.startCatiInterview(survey._id, callbackQueueId),
               fullSurveyPromise || Promise.resolve({ success: false }) // Resolve immediately if not needed
             ]);
             
@@ -2001,12 +1473,23 @@ export default function InterviewInterface({ navigation, route }: any) {
           }
           
           // All checks passed - proceed with starting the interview
+          // A callback whose queue entry is gone gets another respondent - never dial them as the callback
+          const isCallbackReplaced = !!callbackQueueId && data.respondent.id !== callbackQueueId;
+          if (isCallbackReplaced) {
+            console.warn('⚠️ Callback queue entry not available - server assigned another respondent:', data.respondent.id);
+            await callbackService.removeCallbacksForQueue(callbackQueueId);
+          }
           
           setSessionId(data.sessionId);
           setSessionData(data);
           setCatiQueueId(data.respondent.id); // This is the queue entry ID
           setCatiRespondent(data.respondent);
           
+          // Reserve the question set before any question is shown - it stays fixed for the interview
+          setSelectedSetNumber(await setAssignmentService.reserveSetNumber(fullSurveyData, 'cati', data.sessionId));
+          // Plan the randomized orders before any question or option is shown, so every order is recorded
+          setRandomization(await randomizationService.createInterviewRandomization(fullSurveyData));
+          
           // Update survey with full data if fetched
           if (fullSurveyData && fullSurveyData.sections) {
             // Update survey state with full data
@@ -2038,10 +1521,83 @@ export default function InterviewInterface({ navigation, route }: any) {
           // OPTIMIZATION: Defer set number fetch - can run after interview starts
           // Set number fetch will happen in its own useEffect (already implemented)
           
+          // Respondent's call history - fetched with the queue entry ID (unless the server sent it along)
+          // and kept for the rest of the session
+          const historyPromise: Promise<RespondentHistory | null> = data.respondent.history
+            ? Promise.resolve(normalizeRespondentHistory(data.respondent.history))
+            : apiService.getCatiRespondentHistory(data.respondent.id)
+                .then((historyResult) => (historyResult.success ? normalizeRespondentHistory(historyResult.data) : null))
+                .catch(() => null);
+          historyPromise.then(setRespondentHistory);
+          
           // Auto-make call after a short delay
           // Use the respondent ID directly from data, not from state (to avoid timing issues)
-          setTimeout(() => {
+          // Not dialing - hand the queue entry back and leave, without recording a call attempt or abandonment
+          const skipRespondent = async () => {
+            const releaseResult = await apiService.releaseCatiRespondent(data.respondent.id);
+            if (!releaseResult.success) {
+              console.warn('⚠️ Could not release CATI queue entry:', releaseResult.message);
+            }
+            showSnackbar('No call made - respondent returned to the queue');
+            setTimeout(() => {
+              navigation.goBack();
+            }, 500);
+          };
+          // Ask before dialing - resolves false if the interviewer chooses not to call
+          const confirmCall = (title: string, message: string, confirmText: string) =>
+            new Promise<boolean>((resolve) => {
+              Alert.alert(
+                title,
+                message,
+                [
+                  { text: "Don't Call", style: 'cancel', onPress: () => resolve(false) },
+                  { text: confirmText, onPress: () => resolve(true) },
+                ],
+                { cancelable: false }
+              );
+            });
+          setTimeout(async () => {
             if (data.respondent && data.respondent.id) {
+              if (isCallbackReplaced) {
+                const confirmed = await confirmCall(
+                  'Callback Not Available',
+                  'The callback you opened is no longer available and was removed from your list. ' +
+                    'You were assigned a different respondent instead - not the person who asked to be called back. Call them?',
+                  'Call New Respondent'
+                );
+                if (!confirmed) {
+                  await skipRespondent();
+                  return;
+                }
+              }
+
+              // Respondents who refused repeatedly are only called again if the interviewer confirms
+              // The call is held until the history loads or fails (the request times out on its own)
+              const history = await historyPromise;
+              if (!history) {
+                const confirmed = await confirmCall(
+                  'Call History Unavailable',
+                  "This respondent's call history could not be loaded, so earlier refusals can't be checked. Call them anyway?",
+                  'Call Anyway'
+                );
+                if (!confirmed) {
+                  await skipRespondent();
+                  return;
+                }
+              }
+              const refusalCount = history ? countRefusals(history.attempts, getDispositionCodes(fullSurveyData)) : 0;
+              if (refusalCount >= REPEAT_REFUSAL_LIMIT) {
+                const confirmed = await confirmCall(
+                  'Respondent Refused Before',
+                  `This respondent refused ${refusalCount} times before. Call them again?`,
+                  'Call Anyway'
+                );
+                if (!confirmed) {
+                  await skipRespondent();
+                  return;
+                }
+              }
+              
               // Call the API directly with the queue ID from data
               apiService.makeCallToRespondent(data.respondent.id)
                 .then((callResult) => {
@@ -2069,6 +1625,24 @@ export default function InterviewInterface({ navigation, route }: any) {
             }
           }, 1500);
         } else {
+          // Resuming an interview the app was killed during - pick up its journal
+          // and move the partial recording somewhere the OS won't clean up
+          const interruptedCheckpoint = resumeInterrupted ? await interviewJournal.getInterruptedInterview() : null;
+          if (interruptedCheckpoint && interruptedCheckpoint.surveyId === survey._id) {
+            const partialAudioPaths = await interviewJournal.rescuePartialAudio(interruptedCheckpoint);
+            journalRef.current = {
+              journalId: interruptedCheckpoint.journalId,
+              partialAudioPaths,
+              resumeCount: interruptedCheckpoint.resumeCount + 1,
+            };
+          } else {
+            journalRef.current = {
+              journalId: interviewJournal.generateJournalId(),
+              partialAudioPaths: [],
+              resumeCount: 0,
+            };
+          }
+
           // CAPI mode - OPTIMIZATION: Run location fetch and startInterview in parallel
           setLocationLoading(true);
           
@@ -2119,6 +1693,51 @@ export default function InterviewInterface({ navigation, route }: any) {
           if (result.success && result.response) {
             setSessionId(result.response.sessionId);
             setSessionData(result.response);
+            
+            // Restore the interrupted interview before the first checkpoint can overwrite it
+            if (interruptedCheckpoint && interruptedCheckpoint.surveyId === survey._id) {
+              setResponses(interruptedCheckpoint.responses);
+              validationOverridesRef.current = interruptedCheckpoint.validationOverrides || [];
+              // The visit open when the app was killed ended with the last checkpoint
+              paradataRef.current = interruptedCheckpoint.paradata
+                ? endAllQuestionVisits(interruptedCheckpoint.paradata, new Date(interruptedCheckpoint.updatedAt))
+                : createParadata();
+              // Keep the orders the respondent already saw
+              if (interruptedCheckpoint.randomization) {
+                setRandomization(interruptedCheckpoint.randomization);
+                setShuffledOptions({});
+              }
+              setCurrentQuestionIndex(interruptedCheckpoint.currentQuestionIndex || 0);
+              setSelectedAC(interruptedCheckpoint.selectedAC || null);
+              if (interruptedCheckpoint.selectedPollingStation) {
+                setSelectedPollingStation(interruptedCheckpoint.selectedPollingStation);
+              }
+              if (interruptedCheckpoint.selectedSetNumber !== undefined && interruptedCheckpoint.selectedSetNumber !== null) {
+                setSelectedSetNumber(interruptedCheckpoint.selectedSetNumber);
+              }
+              if (!location && interruptedCheckpoint.locationData) {
+                setLocationData(interruptedCheckpoint.locationData);
+              }
+              setStartTime(new Date(interruptedCheckpoint.startTime));
+              console.log(`✅ Resumed interrupted interview at question ${(interruptedCheckpoint.currentQuestionIndex || 0) + 1}`);
+              showSnackbar('Interrupted interview restored. Recording continues in a new audio file.');
+            }
+            
+            // Reserve the question set of a new interview (surveys that use sets in CAPI) - a restored one keeps its set
+            const restoredSetNumber = interruptedCheckpoint && interruptedCheckpoint.surveyId === survey._id
+              ? interruptedCheckpoint.selectedSetNumber ?? null
+              : null;
+            if (restoredSetNumber === null) {
+              setSelectedSetNumber(await setAssignmentService.reserveSetNumber(fullSurveyData, 'capi', result.response.sessionId));
+            }
+            // Plan the randomized orders before any question or option is shown - a restored interview keeps its orders
+            const restoredRandomization = interruptedCheckpoint && interruptedCheckpoint.surveyId === survey._id
+              ? interruptedCheckpoint.randomization
+              : undefined;
+            if (!restoredRandomization) {
+              setRandomization(await randomizationService.createInterviewRandomization(fullSurveyData));
+            }
+            
             setIsInterviewActive(true);
             
             // Check for AC assignment
@@ -2262,8 +1881,7 @@ export default function InterviewInterface({ navigation, route }: any) {
     
     // For CATI, check if call status is connected before starting timer
     if (isCatiMode) {
-      const callStatusResponse = responses['call-status'];
-      const isCallConnected = callStatusResponse === 'call_connected';
+      const isCallConnected = isConnectedDisposition(responses['call-status'], dispositionCodes);
       if (!isCallConnected) {
         // Don't start timer if call is not connected
         return;
@@ -2277,7 +1895,88 @@ export default function InterviewInterface({ navigation, route }: any) {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [startTime, isPaused, isCatiMode, responses]);
+  }, [startTime, isPaused, isCatiMode, responses, dispositionCodes]);
+
+  // Sample the recording's length so paradata can note where in the audio each step happened
+  useEffect(() => {
+    if (isCatiMode || !isRecording) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const status = globalRecording ? await globalRecording.getStatusAsync() : null;
+        if (status?.isRecording) {
+          audioPositionRef.current = { offset: (status.durationMillis || 0) / 1000, sampledAt: Date.now() };
+        }
+      } catch (error) {
+        // Recording is being stopped - keep the last sample
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isCatiMode, isRecording]);
+
+  // Position in the interview recording for paradata. CAPI uses the local recording; for CATI the
+  // telephony server records the call, so the offset is the time since the call was connected.
+  const getAudioPosition = (): AudioPosition => {
+    if (isCatiMode) {
+      return startTime ? { audioOffset: Math.max(0, Math.round((Date.now() - startTime.getTime()) / 1000)) } : {};
+    }
+    const sample = audioPositionRef.current;
+    if (!isRecording || !sample) {
+      return {};
+    }
+    const sinceSample = isAudioPaused ? 0 : (Date.now() - sample.sampledAt) / 1000;
+    return {
+      audioOffset: Math.round(sample.offset + sinceSample),
+      audioSegment: journalRef.current?.partialAudioPaths.length || 0,
+    };
+  };
+
+  // Paradata: a visit starts when a question is shown and ends when another one is
+  const currentQuestionId = visibleQuestions[currentQuestionIndex]?.id;
+  useEffect(() => {
+    if (!currentQuestionId || !isInterviewActive) return;
+
+    paradataRef.current = startQuestionVisit(paradataRef.current, currentQuestionId, new Date(), getAudioPosition());
+    return () => {
+      paradataRef.current = endQuestionVisit(paradataRef.current, currentQuestionId, new Date());
+    };
+  }, [currentQuestionId, isInterviewActive]);
+
+  // Checkpoint the in-progress CAPI interview on every answer and navigation step
+  // so it can be resumed from the dashboard if the app is killed
+  useEffect(() => {
+    if (isCatiMode || !isInterviewActive || !startTime || !journalRef.current) return;
+
+    let recordingUri: string | null = audioUri;
+    if (globalRecording) {
+      try {
+        recordingUri = globalRecording.getURI() || audioUri;
+      } catch (uriError) {
+        // URI not available yet - keep the last known one
+      }
+    }
+
+    interviewJournal.checkpoint({
+      journalId: journalRef.current.journalId,
+      surveyId: survey._id,
+      surveyName: survey.surveyName,
+      sessionId,
+      responses,
+      currentQuestionIndex,
+      selectedAC,
+      selectedPollingStation,
+      selectedSetNumber,
+      locationData,
+      startTime: startTime.toISOString(),
+      recordingUri,
+      partialAudioPaths: journalRef.current.partialAudioPaths,
+      resumeCount: journalRef.current.resumeCount,
+      validationOverrides: validationOverridesRef.current,
+      paradata: paradataRef.current,
+      randomization: randomization || undefined,
+    });
+  }, [responses, currentQuestionIndex, selectedAC, selectedPollingStation, selectedSetNumber, isInterviewActive, isRecording, audioUri, randomization]);
 
   // Cleanup any existing recording on component mount - ensure clean state
   // This is critical for APK builds where native resources may persist
@@ -2338,24 +2037,18 @@ export default function InterviewInterface({ navigation, route }: any) {
     };
   }, []);
 
-  // Fetch gender quotas from backend
-  const fetchGenderQuotas = useCallback(async () => {
-    try {
-      const result = await apiService.getGenderResponseCounts(survey._id);
-      if (result.success) {
-        setGenderQuotas(result.data.genderQuotas);
-      }
-    } catch (error) {
-      console.error('Error fetching gender quotas:', error);
-    }
-  }, [survey._id]);
+  // Fetch quota counts (server counts plus unsynced interviews on this device)
+  const fetchQuotaStatus = useCallback(async () => {
+    const statuses = await quotaService.getQuotaStatus(survey);
+    setQuotaStatuses(statuses);
+  }, [survey]);
 
-  // Fetch gender quotas when component mounts
+  // Fetch quota counts when component mounts
   useEffect(() => {
     if (survey._id) {
-      fetchGenderQuotas();
+      fetchQuotaStatus();
     }
-  }, [survey._id, fetchGenderQuotas]);
+  }, [survey._id, fetchQuotaStatus]);
 
   // Handle Android back button - show abandon confirmation
   useEffect(() => {
@@ -2914,6 +2607,15 @@ export default function InterviewInterface({ navigation, route }: any) {
       }
     }
     
+    paradataRef.current = recordAnswerChange(
+      paradataRef.current,
+      questionId,
+      responses[questionId],
+      response,
+      new Date(),
+      getAudioPosition()
+    );
+
     setResponses(prev => ({
       ...prev,
       [questionId]: response
@@ -3100,12 +2802,12 @@ export default function InterviewInterface({ navigation, route }: any) {
         return newErrors;
       });
 
-      // Refresh gender quotas if gender question is answered
-      if (questionId === 'fixed_respondent_gender') {
-        // Small delay to allow backend to process the response
-        setTimeout(() => {
-          fetchGenderQuotas();
-        }, 1000);
+      // Refresh quota counts when a quota question is answered
+      const isQuotaQuestion = quotaStatuses.some(status =>
+        (status.quota.dimensions || []).some(dimension => dimension.questionId === questionId)
+      );
+      if (isQuotaQuestion) {
+        fetchQuotaStatus();
       }
     } else {
       // Clear target audience error if response is empty
@@ -3117,114 +2819,9 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
-  // Phone number validation function
-  const validatePhoneNumber = (phoneNumber: string | null | undefined): { valid: boolean; message: string | null } => {
-    // Convert to string if it's not already, handle null/undefined
-    const phoneStr = phoneNumber != null ? String(phoneNumber) : '';
-    
-    if (!phoneStr || phoneStr.trim() === '') {
-      return { valid: true, message: null }; // Empty is allowed (optional field)
-    }
-    
-    // Remove any non-digit characters
-    const digitsOnly = phoneStr.replace(/\D/g, '');
-    
-    // Check if exactly 10 digits (required)
-    if (digitsOnly.length !== 10) {
-      return { valid: false, message: 'Phone number must be exactly 10 digits.' };
-    }
-    
-    // Check for invalid patterns (repeating digits like 1111111111, 22222222, 987654321, etc.)
-    // Check for all same digits
-    if (/^(\d)\1{4,}$/.test(digitsOnly)) {
-      return { valid: false, message: 'Please enter a valid phone number.' };
-    }
-    
-    // Check for sequential patterns like 987654321, 123456789
-    const isSequential = (str: string): boolean => {
-      const nums = str.split('').map(Number);
-      let ascending = true;
-      let descending = true;
-      for (let i = 1; i < nums.length; i++) {
-        if (nums[i] !== nums[i-1] + 1) ascending = false;
-        if (nums[i] !== nums[i-1] - 1) descending = false;
-      }
-      return ascending || descending;
-    };
-    
-    if (digitsOnly.length >= 7 && isSequential(digitsOnly)) {
-      return { valid: false, message: 'Please enter a valid phone number.' };
-    }
-    
-    // Check for common invalid patterns
-    const invalidPatterns = [
-      /^1111111111$/,
-      /^2222222222$/,
-      /^3333333333$/,
-      /^4444444444$/,
-      /^5555555555$/,
-      /^6666666666$/,
-      /^7777777777$/,
-      /^8888888888$/,
-      /^9999999999$/,
-      /^0000000000$/,
-      /^9876543210$/,
-      /^1234567890$/,
-      /^987654321$/,
-      /^123456789$/
-    ];
-    
-    for (const pattern of invalidPatterns) {
-      if (pattern.test(digitsOnly)) {
-        return { valid: false, message: 'Please enter a valid phone number.' };
-      }
-    }
-    
-    return { valid: true, message: null };
-  };
-
   const goToNextQuestion = () => {
     const currentQuestion = visibleQuestions[currentQuestionIndex];
     
-    // For CATI interviews, check call status question
-    if (isCatiMode && currentQuestion && currentQuestion.id === 'call-status') {
-      const callStatusResponse = responses['call-status'];
-      if (!callStatusResponse) {
-        showSnackbar('Please select a call status before proceeding.');
-        return;
-      }
-      
-      // If call is not connected, don't allow moving to next question
-      // User should submit instead
-      if (callStatusResponse !== 'call_connected') {
-        showSnackbar('Please submit the interview with the selected call status.');
-        return;
-      }
-      
-      // Call is connected, reset timer to 0 and set startTime to now
-      // Timer will start automatically via useEffect after this
-      setDuration(0);
-      setStartTime(new Date());
-    }
-    
-    // Check consent form question - if "No" is selected, don't allow moving forward
-    if (currentQuestion && currentQuestion.id === 'consent-form') {
-      const consentResponse = responses['consent-form'];
-      const isConsentDisagreed = consentResponse === '2' || 
-                                 consentResponse === 2 || 
-                                 consentResponse === 'consent-disagree' ||
-                                 String(consentResponse).toLowerCase().includes('disagree') ||
-                                 String(consentResponse).toLowerCase() === 'no';
-      
-      if (isConsentDisagreed) {
-        showSnackbar('Please abandon the interview using the Abandon button.');
-        return;
-      }
-    }
-    
-    // REMOVED: Registered voter question blocking logic
-    // Users can proceed to next question normally - backend condition logic will handle "No" responses appropriately
-    
     // Check geofencing error for polling station questions (only if booster is DISABLED - geofencing enforced when booster is OFF)
     if (geofencingError && (currentQuestion as any)?.isPollingStationSelection && !locationControlBooster) {
       showSnackbar(geofencingError);
@@ -3237,80 +2834,90 @@ export default function InterviewInterface({ navigation, route }: any) {
       return;
     }
 
-    // Check if current question is required and not answered
-    if (currentQuestion.required) {
-      const response = responses[currentQuestion.id];
-      const hasValidResponse = response !== null && 
-                              response !== undefined && 
-                              response !== '' && 
-                              (Array.isArray(response) ? response.length > 0 : true);
-      
-      if (!hasValidResponse) {
-        showSnackbar('This is a required question. Please provide an answer before proceeding.');
+    // Respondent falls in a full quota cell - the interview can only be abandoned
+    if (quotaScreenOut) {
+      showSnackbar('Quota is full for this respondent. Please end the interview.');
+      return;
+    }
+
+    // Call status, consent, required answer, AC/polling station and hard validation rule checks
+    const validationError = validateQuestion(currentQuestion, responses, engineContext, allQuestions, computedValues);
+    if (validationError) {
+      showSnackbar(validationError);
+      return;
+    }
+
+    // Follow-ups the call status requires
+    if (isCatiMode && currentQuestion.id === 'call-status') {
+      const followUpError = getDispositionFollowUpError(selectedDisposition, dispositionFollowUps);
+      if (followUpError) {
+        showSnackbar(followUpError);
         return;
       }
     }
-    
-    // For CAPI interviews, check if AC and polling station are selected before allowing navigation
-    if (!isCatiMode && currentQuestion) {
-      // Check if current question is AC selection - check by ID, type, or flag
-      const isACSelectionQuestion = currentQuestion.id === 'ac-selection' ||
-                                    (currentQuestion as any)?.isACSelection ||
-                                    (currentQuestion.text && currentQuestion.text.toLowerCase().includes('select assembly constituency'));
-      
-      if (isACSelectionQuestion) {
-        if (!selectedAC) {
-          showSnackbar('Please select an Assembly Constituency before proceeding.');
-          return;
-        }
-      }
-      
-      // Check if current question is polling station selection - check by ID, type, or flag
-      const isPollingStationQuestion = currentQuestion.id === 'polling-station-selection' ||
-                                      currentQuestion.type === 'polling_station' ||
-                                      (currentQuestion as any)?.isPollingStationSelection ||
-                                      (currentQuestion.text && currentQuestion.text.toLowerCase().includes('select polling station'));
-      
-      if (isPollingStationQuestion) {
-        if (!selectedPollingStation.groupName || !selectedPollingStation.stationName) {
-          showSnackbar('Please select both Group and Polling Station before proceeding.');
-          return;
-        }
-      }
-      
-      // Check for phone number validation (only in CAPI mode)
-      const questionText = currentQuestion.text || '';
-      const isPhoneQuestion = questionText.toLowerCase().includes('share your mobile') || 
-                              questionText.toLowerCase().includes('mobile number') ||
-                              questionText.toLowerCase().includes('phone number');
-      
-      if (isPhoneQuestion) {
-        const phoneResponse = responses[currentQuestion.id];
-        
-        // Check if "refused to share phone number" is selected (stored as 0 or '0')
-        const didNotAnswer = phoneResponse === 0 || phoneResponse === '0' || phoneResponse === null || phoneResponse === undefined;
-        
-        // Only validate if "refused to share phone number" is NOT selected
-        if (!didNotAnswer) {
-          const validation = validatePhoneNumber(phoneResponse as string);
-          if (!validation.valid) {
-            showSnackbar(validation.message || 'Please enter a valid phone number.');
-            return;
-          }
-        }
-        // If "refused to share phone number" is selected, allow proceeding without validation
+
+    const moveToNextQuestion = () => {
+      // For CATI interviews, leaving a connected call status resets the timer to 0 and startTime to now
+      // Timer will start automatically via useEffect after this
+      if (isCatiMode && currentQuestion.id === 'call-status') {
+        setDuration(0);
+        setStartTime(new Date());
       }
+
+      setCurrentQuestionIndex(getNextQuestionIndex(currentQuestionIndex, visibleQuestions));
+    };
+
+    if (requestValidationWarningConfirmation(currentQuestion, moveToNextQuestion)) {
+      return;
     }
-    
-    if (currentQuestionIndex < visibleQuestions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
+    moveToNextQuestion();
+  };
+
+  // Soft validation rules: the interviewer corrects the answer or confirms it, and the confirmation
+  // is sent with the response so quality agents can review it
+  // Returns true if a confirmation was requested (onConfirmed runs once the interviewer confirms)
+  const requestValidationWarningConfirmation = (question: any, onConfirmed: () => void): boolean => {
+    if (!question) return false;
+    const response = responses[question.id];
+    const warnings = getValidationIssues(question, responses, engineContext, allQuestions, computedValues)
+      .filter(issue => issue.severity === 'soft' &&
+        !isValidationIssueConfirmed(validationOverridesRef.current, question.id, issue, response));
+    if (warnings.length === 0) {
+      return false;
     }
+
+    Alert.alert(
+      'Please Confirm Answer',
+      warnings.map(warning => warning.message).join('\n\n'),
+      [
+        { text: 'Correct Answer', style: 'cancel' },
+        {
+          text: 'Confirm Answer',
+          onPress: () => {
+            confirmValidationWarnings(question.id, warnings, response);
+            onConfirmed();
+          },
+        },
+      ]
+    );
+    return true;
+  };
+
+  const confirmValidationWarnings = (questionId: string, warnings: ValidationIssue[], response: any) => {
+    const confirmedAt = new Date().toISOString();
+    validationOverridesRef.current = [
+      ...validationOverridesRef.current.filter(override =>
+        !(override.questionId === questionId && warnings.some(warning => warning.ruleId === override.ruleId))
+      ),
+      ...warnings.map(warning => ({ questionId, ruleId: warning.ruleId, message: warning.message, response, confirmedAt })),
+    ];
   };
 
   const goToPreviousQuestion = () => {
     if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
+      paradataRef.current = recordBackNavigation(paradataRef.current);
     }
+    setCurrentQuestionIndex(getPreviousQuestionIndex(currentQuestionIndex));
   };
 
   const pauseInterview = async () => {
@@ -3360,6 +2967,14 @@ export default function InterviewInterface({ navigation, route }: any) {
 
     try {
       setIsLoading(true);
+      
+      // Calls are placed by the server - without data, record the call status instead (it syncs later)
+      if (!(await apiService.isOnline())) {
+        setCallStatus('failed');
+        showSnackbar('No data connection - the call cannot be placed. Select the call status and submit; it will sync when you are back online.');
+        return;
+      }
+      
       setCallStatus('calling');
       
       const result = await apiService.makeCallToRespondent(catiQueueId);
@@ -3387,7 +3002,7 @@ export default function InterviewInterface({ navigation, route }: any) {
     try {
       // If reasonOverride is provided (e.g., 'consent_refused', 'not_voter'), skip modal and use it directly
       // This handles cases where we know the reason and don't need user input
-      const shouldSkipModal = reasonOverride === 'consent_refused' || reasonOverride === 'not_voter';
+      const shouldSkipModal = reasonOverride === 'consent_refused' || reasonOverride === 'not_voter' || reasonOverride === 'quota_full';
       
       // STEP 1: ALWAYS save offline FIRST (before any API calls)
       console.log('💾 STEP 1: Saving abandonment to offline storage FIRST...');
@@ -3395,10 +3010,19 @@ export default function InterviewInterface({ navigation, route }: any) {
       // Build final responses for offline save
       const finalResponsesForOffline = buildFinalResponsesForOffline();
       
+      // A CATI call that didn't connect is abandoned with its call status (disposition code)
+      const callDisposition = !reasonOverride && !abandonReason && selectedDisposition && !selectedDisposition.isConnected
+        ? selectedDisposition
+        : null;
+
       // Use reasonOverride if provided, otherwise use abandonReason state
-      const finalAbandonReason = reasonOverride || (abandonReason === 'other' ? abandonNotes.trim() : abandonReason);
+      const finalAbandonReason = reasonOverride ||
+                                (callDisposition ? getDispositionAbandonReason(callDisposition) :
+                                 abandonReason === 'other' ? abandonNotes.trim() : abandonReason);
       const finalAbandonNotes = reasonOverride === 'not_voter' ? 'Not a registered voter in this assembly constituency' :
                                reasonOverride === 'consent_refused' ? 'Consent form: No' :
+                               reasonOverride === 'quota_full' && quotaScreenOut ? `Quota full: ${quotaScreenOut.quota.name} - ${getQuotaCellLabel(quotaScreenOut.cell)}` :
+                               callDisposition ? getDispositionNotes(callDisposition, dispositionFollowUps) :
                                (abandonReason === 'other' ? abandonNotes : undefined);
       
       // Save to offline storage FIRST
@@ -3438,67 +3062,6 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
-  // Background abandonment function for CATI interviews
-  const attemptCatiAbandonmentInBackground = async (
-    interviewId: string,
-    catiQueueId: string,
-    reasonOverride: string | null,
-    finalAbandonReason: string,
-    finalAbandonNotes: string | undefined
-  ): Promise<void> => {
-    try {
-      console.log(`🔄 Background CATI abandonment for interview: ${interviewId}`);
-      
-      const isOnline = await apiService.isOnline();
-      if (!isOnline) {
-        console.log('📴 Offline - abandonment saved, will sync when online');
-        return;
-      }
-
-      const interview = await offlineStorage.getOfflineInterviewById(interviewId);
-      if (!interview) {
-        throw new Error('Interview not found in offline storage');
-      }
-
-      await offlineStorage.updateInterviewStatus(interviewId, 'syncing');
-
-      const consentResponse = interview.responses['consent-form'];
-      const isConsentRefused = consentResponse === '2' || consentResponse === 2 || reasonOverride === 'consent_refused';
-      
-      const reasonToSend = reasonOverride || (isConsentRefused ? 'consent_refused' : finalAbandonReason);
-      const notesToSend = reasonOverride === 'consent_refused' ? 'Consent form: No' : 
-                         reasonOverride === 'not_voter' ? 'Not a registered voter in this assembly constituency' :
-                         (finalAbandonNotes || undefined);
-      const dateToSend = (finalAbandonReason === 'call_later' && interview.metadata?.callLaterDate) ? interview.metadata.callLaterDate : undefined;
-      
-      const callStatusResponse = interview.responses['call-status'];
-      const callStatusForStats = isConsentRefused ? null : callStatusResponse;
-
-      const result = await apiService.abandonCatiInterview(
-        catiQueueId,
-        reasonToSend || undefined,
-        notesToSend || undefined,
-        dateToSend || undefined,
-        callStatusForStats || undefined
-      );
-
-      // CRITICAL: Verify API response before considering it successful
-      if (!result || !result.success) {
-        throw new Error(result?.message || 'CATI abandonment failed');
-      }
-      
-      // CRITICAL: Do NOT mark as synced or delete here
-      // Let the sync service handle status updates and cleanup after proper verification
-      console.log('✅ Background CATI abandonment completed - sync service will verify and cleanup:', interviewId);
-      
-      // Update status back to pending so sync service can handle it properly
-      await offlineStorage.updateInterviewStatus(interviewId, 'pending');
-    } catch (error: any) {
-      console.error('❌ Background CATI abandonment error:', error);
-      await offlineStorage.updateInterviewStatus(interviewId, 'failed', error.message);
-    }
-  };
-
   // Background abandonment function for CAPI interviews
   const attemptCapiAbandonmentInBackground = async (
     interviewId: string,
@@ -4006,75 +3569,23 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
-  const resumeAudioRecording = async () => {
-    try {
-      if (isRecording && isAudioPaused && globalRecording) {
-        console.log('Resuming audio recording...');
-        await globalRecording.startAsync();
-        setIsAudioPaused(false);
-        showSnackbar('Audio recording resumed');
-      }
-    } catch (error) {
-      console.error('Error resuming recording:', error);
-      showSnackbar('Failed to resume recording');
-    }
-  };
-
-  // Function to validate required questions
-  const validateRequiredQuestions = () => {
-    const unansweredRequiredQuestions: Array<{question: any, index: number}> = [];
-    
-    // For CATI interviews, if call status is not connected, skip consent form validation
-    const callStatusResponse = responses['call-status'];
-    const isCallConnected = callStatusResponse === 'call_connected';
-    const shouldSkipConsentCheck = isCatiMode && callStatusResponse && !isCallConnected;
-    
-    // Check all visible questions (questions that were actually shown to the user)
-    visibleQuestions.forEach((question, index) => {
-      if (question.required) {
-        // Skip consent form validation if call is not connected
-        if (shouldSkipConsentCheck && question.id === 'consent-form') {
-          return; // Skip this question
-        }
-        
-        // Special handling for AC selection question
-        if (question.id === 'ac-selection' || (question as any)?.isACSelection) {
-          if (!selectedAC) {
-            unansweredRequiredQuestions.push({
-              question: question,
-              index: index
-            });
-            return;
-          }
-        }
-        
-        // Special handling for polling station selection question
-        if (question.id === 'polling-station-selection' || question.type === 'polling_station' || (question as any)?.isPollingStationSelection) {
-          if (!selectedPollingStation.groupName || !selectedPollingStation.stationName) {
-            unansweredRequiredQuestions.push({
-              question: question,
-              index: index
-            });
-            return;
-          }
-        }
-        
-        const response = responses[question.id];
-        const hasValidResponse = response !== null && 
-                                response !== undefined && 
-                                response !== '' && 
-                                (Array.isArray(response) ? response.length > 0 : true);
-        
-        if (!hasValidResponse) {
-          unansweredRequiredQuestions.push({
-            question: question,
-            index: index
-          });
-        }
+  const resumeAudioRecording = async () => {
+    try {
+      if (isRecording && isAudioPaused && globalRecording) {
+        console.log('Resuming audio recording...');
+        await globalRecording.startAsync();
+        setIsAudioPaused(false);
+        showSnackbar('Audio recording resumed');
       }
-    });
-    
-    return unansweredRequiredQuestions;
+    } catch (error) {
+      console.error('Error resuming recording:', error);
+      showSnackbar('Failed to resume recording');
+    }
+  };
+
+  // Function to validate required questions (visible questions that were actually shown to the user)
+  const validateRequiredQuestions = () => {
+    return getUnansweredRequiredQuestions(visibleQuestions, responses, engineContext);
   };
 
   // Helper function to save interview offline (CAPI only)
@@ -4094,6 +3605,18 @@ export default function InterviewInterface({ navigation, route }: any) {
     try {
       const interviewId = offlineStorage.generateInterviewId();
       const endTime = new Date();
+      // CATI outcome for response rates, and the callback time asked for ("Call Later" or a call status that takes one)
+      const callDisposition = isCatiMode
+        ? buildCallDisposition(dispositionCodes, interviewData.responses['call-status'], {
+            isCompleted: interviewData.isCompleted,
+            abandonReason: interviewData.abandonReason,
+            hasSurveyAnswers: allQuestions.some((question: any) =>
+              (question.sectionIndex ?? 0) >= 0 && hasResponseContent(interviewData.responses[question.id])
+            ),
+          }, dispositionFollowUps)
+        : null;
+      const callLaterTime = !isCatiMode ? null :
+        interviewData.abandonReason === 'call_later' ? parseCallbackTime(callLaterDate) : parseCallbackTime(callDisposition?.callbackTime);
       
       // Calculate actual duration from start and end time
       // Use the current duration state as fallback, but prefer calculated from timestamps
@@ -4162,6 +3685,8 @@ export default function InterviewInterface({ navigation, route }: any) {
             try {
               audioOfflinePath = await offlineStorage.copyAudioFileToOfflineStorage(finalAudioUri, interviewId);
               console.log('✅ Audio file copied to offline storage:', audioOfflinePath);
+              // The offline copy is encrypted - don't leave the plaintext recording behind
+              await FileSystem.deleteAsync(finalAudioUri, { idempotent: true });
             } catch (copyError: any) {
               console.error('❌ Error copying audio file to offline storage:', copyError);
               // Continue anyway - interview will be saved without offline audio copy
@@ -4182,6 +3707,9 @@ export default function InterviewInterface({ navigation, route }: any) {
         console.warn('⚠️ No audio URI to save for offline interview');
       }
       
+      // The question on screen is still being visited
+      const paradata = endAllQuestionVisits(paradataRef.current, endTime);
+
       const offlineInterview: OfflineInterview = {
         id: interviewId,
         surveyId: survey._id,
@@ -4209,7 +3737,7 @@ export default function InterviewInterface({ navigation, route }: any) {
           latitude: selectedPollingStation.latitude,
           longitude: selectedPollingStation.longitude
         } : null,
-        selectedSetNumber: selectedSetNumber || null,
+        selectedSetNumber: selectedSetNumber ?? null,
         startTime: startTime ? startTime.toISOString() : new Date().toISOString(),
         endTime: endTime.toISOString(),
         duration: actualDuration, // Use calculated duration
@@ -4217,22 +3745,35 @@ export default function InterviewInterface({ navigation, route }: any) {
         audioOfflinePath: audioOfflinePath || null, // Copied file path (safe storage)
         audioUploadStatus: audioOfflinePath ? 'pending' : undefined, // Set status if audio exists
         audioUploadError: null,
+        partialAudioPaths: !isCatiMode && journalRef.current?.partialAudioPaths.length
+          ? journalRef.current.partialAudioPaths
+          : undefined,
+        paradata,
         metadata: {
           qualityMetrics: {
-            averageResponseTime: 0,
-            backNavigationCount: 0,
+            ...getParadataQualityMetrics(paradata),
             dataQualityScore: 100,
             totalPauseTime: 0,
             totalPauses: 0,
           },
           callStatus: isCatiMode ? (responses['call-status'] || 'call_connected') : undefined,
+          disposition: callDisposition || undefined,
           supervisorID: responses['supervisor-id'] || undefined,
+          computedValues, // Computed variables at completion - sent with the response on sync
+          // Soft validation warnings the interviewer confirmed, for quality review
+          validationOverrides: getCurrentValidationOverrides(validationOverridesRef.current, responses),
+          // Orders the sections, questions and options were shown in, for order-effect analysis
+          randomization: randomization || undefined,
+          // Quota cells of this respondent - counted locally until the interview is synced
+          quotaCellIds: getMatchedQuotaCellIds(quotaStatuses.map(status => status.quota), { responses, allQuestions, computedValues }),
           finalResponses: interviewData.finalResponses,
           isCompleted: interviewData.isCompleted,
           abandonReason: interviewData.abandonReason,
           abandonNotes: interviewData.abandonNotes,
+          callLaterDate: callLaterTime ? callLaterTime.toISOString() : undefined,
           locationControlBooster: locationControlBooster, // Save booster status (when true, geofencing is bypassed)
           geofencingError: geofencingError || null, // Save geofencing status
+          resumeCount: !isCatiMode && journalRef.current?.resumeCount ? journalRef.current.resumeCount : undefined,
         },
         status: 'pending',
         syncAttempts: 0,
@@ -4240,6 +3781,32 @@ export default function InterviewInterface({ navigation, route }: any) {
 
       await offlineStorage.saveOfflineInterview(offlineInterview);
       console.log('✅ Interview saved offline:', interviewId);
+      
+      // The interview is safely stored - the crash journal is no longer needed
+      if (!isCatiMode) {
+        journalRef.current = null;
+        await interviewJournal.clear();
+      }
+
+      // "Call Later" respondents go on the interviewer's call-back list; any other outcome resolves the callback
+      if (isCatiMode && catiQueueId) {
+        if (callLaterTime) {
+          const scheduled = await callbackService.scheduleCallback({
+            queueId: catiQueueId,
+            surveyId: survey._id,
+            surveyName: survey.surveyName || null,
+            respondentName: catiRespondent?.name ? catiRespondent.name.split(' ')[0] : null,
+            acName: selectedAC || acFromSessionData || catiRespondent?.ac || null,
+            dueAt: callLaterTime.toISOString(),
+            notes: abandonNotes.trim() || null,
+          });
+          if (!scheduled) {
+            showSnackbar('Could not add this respondent to your callback list - please note the callback time.');
+          }
+        } else {
+          await callbackService.removeCallbacksForQueue(catiQueueId);
+        }
+      }
       return interviewId;
     } catch (error: any) {
       console.error('❌ Error saving interview offline:', error);
@@ -4249,7 +3816,7 @@ export default function InterviewInterface({ navigation, route }: any) {
 
   // Helper function: Build final responses array (used by both save and submit)
   const buildFinalResponsesForSubmission = (): any[] => {
-    return allQuestions.map((question: any, index: number) => {
+    return expandRosterQuestions(allQuestions, responses).map((question: any, index: number) => {
       const defaultResponse = (question.type === 'multiple_choice' && question.settings?.allowMultiple) ? [] : '';
       const response = responses[question.id] !== undefined ? responses[question.id] : defaultResponse;
       
@@ -4378,10 +3945,12 @@ export default function InterviewInterface({ navigation, route }: any) {
         questionText: question.text,
         questionDescription: question.description,
         questionOptions: question.options?.map((opt: any) => opt.value) || [],
+        ...getGridResponseFields(question),
+        ...getRosterResponseFields(question),
         response: finalResponse,
         responseCodes: responseCodes,
         responseWithCodes: responseWithCodes,
-        responseTime: 0,
+        responseTime: getResponseTime(paradataRef.current, question.id),
         isRequired: question.required,
         isSkipped: !response
       };
@@ -4390,7 +3959,7 @@ export default function InterviewInterface({ navigation, route }: any) {
 
   // Helper function: Build final responses for offline save (simpler format)
   const buildFinalResponsesForOffline = (): any[] => {
-    return allQuestions.map((question: any, index: number) => {
+    return expandRosterQuestions(allQuestions, responses).map((question: any, index: number) => {
       const defaultResponse = (question.type === 'multiple_choice' && question.settings?.allowMultiple) ? [] : '';
       const response = responses[question.id] !== undefined ? responses[question.id] : defaultResponse;
       
@@ -4436,8 +4005,10 @@ export default function InterviewInterface({ navigation, route }: any) {
         questionText: question.text,
         questionDescription: question.description,
         questionOptions: question.options?.map((opt: any) => (typeof opt === 'object' ? opt.text : opt)) || [],
+        ...getGridResponseFields(question),
+        ...getRosterResponseFields(question),
         response: finalResponse,
-        responseTime: 0,
+        responseTime: getResponseTime(paradataRef.current, question.id),
         isRequired: question.required || false,
         isSkipped: !response || (Array.isArray(response) && response.length === 0)
       };
@@ -4487,25 +4058,20 @@ export default function InterviewInterface({ navigation, route }: any) {
             interview.audioUploadStatus = 'uploading';
             await offlineStorage.saveOfflineInterview(interview);
 
-            const uploadResult = await apiService.uploadAudioFile(
-              audioPathToUpload,
-              sessionId!,
-              survey._id
-            );
-
-            if (uploadResult.success && uploadResult.response?.audioUrl) {
-              audioUrl = uploadResult.response.audioUrl;
-              audioFileSize = uploadResult.response.size || 0;
-              interview.audioUploadStatus = 'uploaded';
-              interview.metadata = {
-                ...interview.metadata,
-                audioUrl: audioUrl,
-              };
-              await offlineStorage.saveOfflineInterview(interview);
-              console.log('✅ Audio uploaded successfully:', audioUrl);
-            } else {
-              throw new Error(uploadResult.message || 'Audio upload failed');
-            }
+            // Resumable chunked upload - progress is kept on the offline record if the link drops
+            const uploadResult = await audioUploadService.upload(interview, audioPathToUpload, sessionId!);
+            audioUrl = uploadResult.audioUrl;
+            audioFileSize = uploadResult.fileSize;
+            interview.audioUploadStatus = 'uploaded';
+            interview.audioUpload = null;
+            interview.metadata = {
+              ...interview.metadata,
+              audioUrl: audioUrl,
+              audioFileSize: audioFileSize,
+              audioChecksum: uploadResult.checksum || undefined,
+            };
+            await offlineStorage.saveOfflineInterview(interview);
+            console.log('✅ Audio uploaded successfully:', audioUrl);
           }
         } catch (audioError: any) {
           console.error('❌ Audio upload failed:', audioError);
@@ -4551,6 +4117,7 @@ export default function InterviewInterface({ navigation, route }: any) {
           endTime: new Date(),
           totalTimeSpent: duration,
           interviewMode: survey.mode === 'multi_mode' ? (survey.assignedMode || 'capi') : (survey.mode || 'capi'),
+          computedVariables: computedValues,
           deviceInfo: {
             userAgent: 'React Native App',
             platform: 'Mobile',
@@ -4617,6 +4184,7 @@ export default function InterviewInterface({ navigation, route }: any) {
           responseId: responseId,
           serverResponseId: responseId,
         };
+        savedInterview.syncStage = 'responses_completed';
         await offlineStorage.saveOfflineInterview(savedInterview);
         console.log('✅ Stored responseId in interview metadata:', responseId);
       }
@@ -4637,122 +4205,7 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
-  // Background submission function for CATI interviews
-  const attemptCatiOnlineSubmission = async (
-    interviewId: string,
-    finalResponses: any[],
-    catiQueueId: string
-  ): Promise<void> => {
-    try {
-      console.log(`🔄 Background CATI submission for interview: ${interviewId}`);
-      
-      // Check if online
-      const isOnline = await apiService.isOnline();
-      if (!isOnline) {
-        console.log('📴 Offline - CATI interview saved, will sync when online');
-        return;
-      }
-
-      // Get interview from offline storage
-      const interview = await offlineStorage.getOfflineInterviewById(interviewId);
-      if (!interview) {
-        throw new Error('Interview not found in offline storage');
-      }
-
-      // Update status to syncing
-      await offlineStorage.updateInterviewStatus(interviewId, 'syncing');
-
-      // Extract metadata
-      const answeredCount = finalResponses.filter((r: any) => hasResponseContent(r.response)).length;
-      const totalCount = allQuestions.length;
-      let finalSetNumber = selectedSetNumber;
-      
-      if (finalSetNumber === null && survey) {
-        const setNumbers = new Set<number>();
-        survey.sections?.forEach((section: any) => {
-          section.questions?.forEach((question: any) => {
-            if (question.setsForThisQuestion && question.setNumber !== null && question.setNumber !== undefined) {
-              const wasAnswered = finalResponses.some((r: any) => r.questionId === question.id);
-              if (wasAnswered) {
-                setNumbers.add(question.setNumber);
-              }
-            }
-          });
-        });
-        const setArray = Array.from(setNumbers).sort((a, b) => a - b);
-        if (setArray.length > 0) {
-          finalSetNumber = setArray[0];
-        }
-      }
-
-      const callStatusResponse = responses['call-status'];
-      const finalCallStatus = callStatusResponse === 'call_connected' ? 'success' : (callStatusResponse || 'unknown');
-
-      const isTargetSurvey = survey && (survey._id === '68fd1915d41841da463f0d46' || survey.id === '68fd1915d41841da463f0d46');
-      let oldInterviewerID: string | null = null;
-      let supervisorID: string | null = null;
-      if (isTargetSurvey) {
-        const interviewerIdResponse = responses['interviewer-id'];
-        if (interviewerIdResponse !== null && interviewerIdResponse !== undefined && interviewerIdResponse !== '') {
-          oldInterviewerID = String(interviewerIdResponse);
-        }
-        const supervisorIdResponse = responses['supervisor-id'];
-        if (supervisorIdResponse !== null && supervisorIdResponse !== undefined && supervisorIdResponse !== '') {
-          supervisorID = String(supervisorIdResponse);
-        }
-      }
-
-      // Complete CATI interview
-      const result = await apiService.completeCatiInterview(catiQueueId, {
-        sessionId: sessionId,
-        responses: finalResponses,
-        selectedAC: selectedAC || null,
-        selectedPollingStation: selectedPollingStation.stationName ? {
-          state: selectedPollingStation.state,
-          acNo: selectedPollingStation.acNo,
-          acName: selectedPollingStation.acName,
-          pcNo: selectedPollingStation.pcNo,
-          pcName: selectedPollingStation.pcName,
-          district: selectedPollingStation.district,
-          groupName: selectedPollingStation.groupName,
-          stationName: selectedPollingStation.stationName,
-          gpsLocation: selectedPollingStation.gpsLocation,
-          latitude: selectedPollingStation.latitude,
-          longitude: selectedPollingStation.longitude
-        } : null,
-        totalTimeSpent: duration,
-        startTime: sessionData?.startTime || startTime || new Date(),
-        endTime: new Date(),
-        totalQuestions: totalCount,
-        answeredQuestions: answeredCount,
-        completionPercentage: totalCount > 0 ? Math.round((answeredCount / totalCount) * 100) : 0,
-        setNumber: finalSetNumber,
-        OldinterviewerID: oldInterviewerID,
-        callStatus: finalCallStatus,
-        supervisorID: supervisorID
-      });
-
-      // CRITICAL: Verify API response before considering it successful
-      if (!result || !result.success) {
-        throw new Error(result?.message || 'CATI submission failed');
-      }
-      
-      // CRITICAL: Do NOT mark as synced or delete here
-      // Let the sync service handle status updates and cleanup after proper verification
-      // Just log success - the sync service will pick it up and verify it properly
-      console.log('✅ Background CATI submission completed - sync service will verify and cleanup:', interviewId);
-      
-      // Update status back to pending so sync service can handle it properly
-      // The sync service will verify the submission and mark as synced
-      await offlineStorage.updateInterviewStatus(interviewId, 'pending');
-    } catch (error: any) {
-      console.error('❌ Background CATI submission error:', error);
-      // Mark as failed, will retry later
-      await offlineStorage.updateInterviewStatus(interviewId, 'failed', error.message);
-    }
-  };
-
-  const completeInterview = async () => {
+  const completeInterview = async (validationWarningsConfirmed = false) => {
     if (!sessionId) return;
 
     // Check if consent form is "No" - if so, abandon instead of complete
@@ -4760,103 +4213,28 @@ export default function InterviewInterface({ navigation, route }: any) {
     const isConsentDisagreed = consentResponse === '2' || consentResponse === 2;
     const shouldAbandonForConsent = isConsentDisagreed;
     
-    // If consent form is "No", abandon the interview
+    // If consent form is "No", abandon the interview - the outcome goes to the offline queue like any other
     if (shouldAbandonForConsent && catiQueueId) {
-      try {
-        setIsLoading(true);
-        
-        const result = await apiService.abandonCatiInterview(
-          catiQueueId,
-          'consent_refused',
-          'Consent form: No',
-          undefined, // No call later date
-          undefined // No call status (call was connected, consent was refused)
-        );
-        
-        if (result.success) {
-          Alert.alert(
-            'Interview Abandoned',
-            'Interview abandoned. Consent refusal recorded for reporting.',
-            [
-              {
-                text: 'OK',
-                onPress: () => {
-                  navigation.reset({
-                    index: 0,
-                    routes: [{ name: 'Dashboard' }],
-                  });
-                },
-              },
-            ]
-          );
-        } else {
-          const errorMsg = result.message || 'Failed to abandon interview';
-          showSnackbar(errorMsg);
-        }
-      } catch (error: any) {
-        console.error('Error abandoning interview due to consent refusal:', error);
-        showSnackbar(error.message || 'Failed to abandon interview');
-      } finally {
-        setIsLoading(false);
-      }
+      await abandonInterview('consent_refused');
       return;
     }
 
     // If call status is not connected (CATI), abandon instead of complete
     const callStatusResponse = responses['call-status'];
-    const isCallConnected = callStatusResponse === 'call_connected';
+    const isCallConnected = isConnectedDisposition(callStatusResponse, dispositionCodes);
     const shouldAbandonForCallStatus = isCatiMode && callStatusResponse && !isCallConnected;
     
     // If call status is not connected, abandon the interview
     if (shouldAbandonForCallStatus && catiQueueId) {
-      try {
-        setIsLoading(true);
-        
-        // Map call status to abandonment reason
-        const statusToReasonMap: { [key: string]: string } = {
-          'busy': 'busy',
-          'switched_off': 'switched_off',
-          'not_reachable': 'not_reachable',
-          'did_not_pick_up': 'no_answer',
-          'number_does_not_exist': 'does_not_exist',
-          'didnt_get_call': 'technical_issue'
-        };
-        
-        const abandonmentReason = statusToReasonMap[callStatusResponse] || callStatusResponse;
-        
-        const result = await apiService.abandonCatiInterview(
-          catiQueueId,
-          abandonmentReason,
-          `Call status: ${callStatusResponse}`,
-          undefined, // No call later date
-          callStatusResponse // Pass call status for stats
-        );
-        
-        if (result.success) {
-          Alert.alert(
-            'Interview Abandoned',
-            'Interview abandoned. Call status recorded for reporting.',
-            [
-              {
-                text: 'OK',
-                onPress: () => {
-                  navigation.reset({
-                    index: 0,
-                    routes: [{ name: 'Dashboard' }],
-                  });
-                }
-              }
-            ]
-          );
-        } else {
-          showSnackbar(result.message || 'Failed to abandon interview');
-        }
-      } catch (error) {
-        console.error('Error abandoning interview:', error);
-        showSnackbar('Failed to abandon interview');
-      } finally {
-        setIsLoading(false);
+      const followUpError = getDispositionFollowUpError(selectedDisposition, dispositionFollowUps);
+      if (followUpError) {
+        showSnackbar(followUpError);
+        return;
       }
+
+      // Recorded offline with its disposition code and synced by the sync service,
+      // so a data connection lost during the call doesn't lose the outcome
+      await abandonInterview();
       return;
     }
 
@@ -4957,6 +4335,7 @@ export default function InterviewInterface({ navigation, route }: any) {
               endTime: new Date(),
               totalTimeSpent: duration,
               interviewMode: survey.mode === 'multi_mode' ? (survey.assignedMode || 'capi') : (survey.mode || 'capi'),
+              computedVariables: computedValues,
               selectedAC: selectedAC || null,
               selectedPollingStation: selectedPollingStation || null,
               location: locationData || null,
@@ -5015,6 +4394,20 @@ export default function InterviewInterface({ navigation, route }: any) {
       }
     }
 
+    // Answers that break a hard validation rule (e.g. after the answer they are compared with changed)
+    const invalidQuestions = getInvalidQuestions(visibleQuestions, responses, engineContext, allQuestions, computedValues);
+    if (invalidQuestions.length > 0) {
+      setCurrentQuestionIndex(invalidQuestions[0].index);
+      showSnackbar(invalidQuestions[0].message);
+      return;
+    }
+
+    // Soft validation warnings on the last question
+    if (!validationWarningsConfirmed &&
+        requestValidationWarningConfirmation(visibleQuestions[currentQuestionIndex], () => completeInterview(true))) {
+      return;
+    }
+
     try {
       setIsLoading(true);
       setIsSubmitting(true);
@@ -5138,38 +4531,7 @@ export default function InterviewInterface({ navigation, route }: any) {
       return `Only ${allowedList} respondents are allowed to participate`;
     }
 
-    // Check quota if available
-    if (genderQuotas && genderQuotas[mappedGender]) {
-      const quota = genderQuotas[mappedGender];
-      if (quota.isFull) {
-        return `Sample size for ${mappedGender} is completed. Please select a different gender.`;
-      }
-    }
-
-    return null; // Valid gender
-  };
-
-  // Helper function to check if a question is an age question (by ID or text, ignoring translations)
-  const isAgeQuestion = (question: any): boolean => {
-    if (!question) return false;
-    const questionText = getMainText(question.text || '').toLowerCase();
-    const questionId = question.id || '';
-    
-    // Check for fixed age question ID
-    if (questionId.includes('fixed_respondent_age')) {
-      return true;
-    }
-    
-    // Check for age question text (ignoring translations)
-    if (questionText.includes('could you please tell me your age') || 
-        questionText.includes('tell me your age') ||
-        questionText.includes('what is your age') ||
-        questionText.includes('your age in complete years') ||
-        questionText.includes('age in complete years')) {
-      return true;
-    }
-    
-    return false;
+    return null; // Valid gender (full quota cells are handled by the quota screen-out)
   };
 
   // Validate fixed questions against target audience
@@ -5225,100 +4587,49 @@ export default function InterviewInterface({ navigation, route }: any) {
     return false;
   };
 
-  // Fisher-Yates shuffle algorithm for randomizing options (only shufflable ones)
-  const shuffleArray = (array: any[]): any[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-
-  // Helper function to compute shuffled options (pure function, no side effects)
+  // Helper function to compute ordered options (pure function, no side effects)
+  // Uses the question's option randomization - legacy shuffled questions keep the special options
+  // (None, NOTA, Refused...) in place - and always moves "Others" to the end
   const computeShuffledOptions = useCallback((questionId: string, originalOptions: any[], question?: any): any[] => {
     if (!originalOptions || originalOptions.length === 0) return originalOptions || [];
     
-    // Check if shuffling is enabled for this question (default to true if not set for backward compatibility)
-    const shouldShuffle = question?.settings?.shuffleOptions !== false;
-    
-    // If shuffling is disabled, still move "Others" to the end
-    if (!shouldShuffle) {
-      // Separate "Others" options from regular options
-      const othersOptions: any[] = [];
-      const regularOptions: any[] = [];
-      
-      originalOptions.forEach((option) => {
-        const optionText = typeof option === 'object' ? (option.text || option.value || '') : String(option);
-        if (isOthersOption(optionText)) {
-          othersOptions.push(option);
-        } else {
-          regularOptions.push(option);
-        }
-      });
-      
-      // Return with "Others" at the end
-      return [...regularOptions, ...othersOptions];
-    }
-    
-    // If already shuffled for this question, return cached (should already have "Others" at end)
+    // If already ordered for this question, return cached (should already have "Others" at end)
     if (shuffledOptions[questionId]) {
       return shuffledOptions[questionId];
     }
     
-    // Compute shuffled options but don't call setState here (will be done in useEffect)
-    // Separate options: shufflable, non-shufflable (except Others), and Others
-    const nonShufflableOptions: Array<{ option: any; originalIndex: number }> = []; // Non-shufflable options except "Others"
-    const shufflableOptions: any[] = [];
-    const othersOptions: any[] = []; // "Others" options - will be placed at the end
-    const originalIndices = new Map<number, any>(); // Track original indices for non-shufflable options (except Others)
+    // A resumed interview shows the options in the order recorded before the interruption
+    const recordedOrder = randomization?.optionOrders[questionId];
+    const optionRandomization = getOptionRandomization(question);
+    let orderedOptions = originalOptions;
+    if (recordedOrder) {
+      orderedOptions = applyRecordedOrder(originalOptions, recordedOrder, getOptionKey);
+    } else if (optionRandomization && randomization) {
+      // Only ordered with the interview's recorded seed - an order that can't be recorded is never shown
+      const isLegacyShuffle = !question?.settings?.optionRandomization;
+      orderedOptions = orderOptions(
+        originalOptions,
+        optionRandomization,
+        createSeededRandom(`${randomization.seed}:${questionId}`),
+        randomization.rotationIndex || 0,
+        isLegacyShuffle ? isNonShufflableOption : undefined
+      );
+    }
     
-    originalOptions.forEach((option, index) => {
+    // Separate "Others" options from regular options - "Others" always goes last
+    const othersOptions: any[] = [];
+    const regularOptions: any[] = [];
+    orderedOptions.forEach((option) => {
       const optionText = typeof option === 'object' ? (option.text || option.value || '') : String(option);
       if (isOthersOption(optionText)) {
-        // "Others" options - will be placed at the end
         othersOptions.push(option);
-      } else if (isNonShufflableOption(option)) {
-        // Other non-shufflable options - maintain original position
-        nonShufflableOptions.push({ option, originalIndex: index });
-        originalIndices.set(index, option);
       } else {
-        // Shufflable options
-        shufflableOptions.push(option);
+        regularOptions.push(option);
       }
     });
     
-    // Shuffle only the shufflable options
-    const shuffledShufflable = shuffleArray(shufflableOptions);
-    
-    // Reconstruct the array maintaining original positions of non-shufflable options (except Others)
-    const result: any[] = [];
-    let shufflableIndex = 0;
-    let nonShufflableIndex = 0;
-    
-    for (let i = 0; i < originalOptions.length; i++) {
-      const option = originalOptions[i];
-      const optionText = typeof option === 'object' ? (option.text || option.value || '') : String(option);
-      
-      if (isOthersOption(optionText)) {
-        // Skip "Others" options - they'll be added at the end
-        continue;
-      } else if (originalIndices.has(i)) {
-        // Place non-shufflable option in its original position
-        result.push(nonShufflableOptions[nonShufflableIndex].option);
-        nonShufflableIndex++;
-      } else {
-        // Place shuffled option
-        result.push(shuffledShufflable[shufflableIndex]);
-        shufflableIndex++;
-      }
-    }
-    
-    // Combine: regular options first, then "Others" options at the end
-    const finalResult = [...result, ...othersOptions];
-    
-    return finalResult;
-  }, [shuffledOptions]);
+    return [...regularOptions, ...othersOptions];
+  }, [shuffledOptions, randomization]);
 
   // Memoize display options for current question to avoid re-computation
   const currentQuestionDisplayOptions = useMemo(() => {
@@ -5345,7 +4656,7 @@ export default function InterviewInterface({ navigation, route }: any) {
     const questionOptions = 'options' in currentQuestion ? (currentQuestion as any).options : [];
     let displayOptions = questionOptions || [];
     
-    if (currentQuestion.type === 'multiple_choice') {
+    if (currentQuestion.type === 'multiple_choice' || (currentQuestion as any).settings?.optionRandomization) {
       // Check if we have cached shuffled options
       if (shuffledOptions[questionId]) {
         displayOptions = shuffledOptions[questionId];
@@ -5372,8 +4683,10 @@ export default function InterviewInterface({ navigation, route }: any) {
   }, [currentQuestion, shuffledOptions, computeShuffledOptions, responses]); // Add responses to dependencies
 
   // Update shuffledOptions state when current question changes (useEffect to avoid render loop)
+  // and record the order the options are shown in
   useEffect(() => {
-    if (!currentQuestion || currentQuestion.type !== 'multiple_choice') return;
+    if (!currentQuestion) return;
+    if (currentQuestion.type !== 'multiple_choice' && !(currentQuestion as any).settings?.optionRandomization) return;
     
     // Skip for polling station selection questions (they don't have options)
     if ((currentQuestion as any)?.isPollingStationSelection) return;
@@ -5383,7 +4696,8 @@ export default function InterviewInterface({ navigation, route }: any) {
     // Only compute and cache if not already cached
     // Note: For "Second Choice" questions, we still cache the shuffled options,
     // but we'll filter out the excluded option when displaying them
-    if (!shuffledOptions[questionId] && questionOptions) {
+    // Options are only ordered (and cached) once the interview's randomization record exists
+    if (!shuffledOptions[questionId] && questionOptions && randomization) {
       const computed = computeShuffledOptions(questionId, questionOptions, currentQuestion);
       setShuffledOptions(prev => {
         if (!prev[questionId]) {
@@ -5391,9 +4705,15 @@ export default function InterviewInterface({ navigation, route }: any) {
         }
         return prev;
       });
+      setRandomization(prev => {
+        if (!prev || prev.optionOrders[questionId]) {
+          return prev;
+        }
+        return { ...prev, optionOrders: { ...prev.optionOrders, [questionId]: computed.map(getOptionKey) } };
+      });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentQuestion?.id, currentQuestion?.type]);
+  }, [currentQuestion?.id, currentQuestion?.type, randomization?.seed]);
 
   // Scroll to top when question changes
   useEffect(() => {
@@ -5802,6 +5122,9 @@ export default function InterviewInterface({ navigation, route }: any) {
           displayOptions = computeShuffledOptions(questionId, filteredOptions || [], question);
         }
       }
+    } else if (question.settings?.optionRandomization) {
+      // Single choice and dropdown questions with a configured option order
+      displayOptions = shuffledOptions[questionId] || computeShuffledOptions(questionId, filteredOptions || [], question);
     } else if (question.type === 'single_choice' || question.type === 'single_select' || question.type === 'dropdown') {
       // Move "Others" to the end for single_choice and dropdown
       const othersOptions: any[] = [];
@@ -6135,28 +5458,14 @@ export default function InterviewInterface({ navigation, route }: any) {
           // Use regular single_choice rendering for assigned ACs
         }
         
-        // Check if this is a gender question for quota display
-        const isGenderQuestion = question.id === 'fixed_respondent_gender';
-        
         // Use shuffled options for display
         const shuffledSingleChoiceOptions = displayOptions || question.options || [];
         
         return (
           <View style={styles.optionsContainer}>
             {shuffledSingleChoiceOptions.map((option: any, index: number) => {
-              // Get quota information for gender question
-              let quotaInfo = null;
-              if (isGenderQuestion && genderQuotas) {
-                const genderMapping = {
-                  'male': 'Male',
-                  'female': 'Female', 
-                  'non_binary': 'Non-binary'
-                };
-                const mappedGender = genderMapping[option.value as keyof typeof genderMapping];
-                if (mappedGender && genderQuotas[mappedGender]) {
-                  quotaInfo = genderQuotas[mappedGender];
-                }
-              }
+              // Get quota information for questions with a quota of their own
+              const quotaInfo = getOptionQuotaCell(quotaStatuses, question.id, option);
               
               // Get party logo if applicable (exclude for Question 12)
               const partyLogo = getPartyLogo(option.text, question.text);
@@ -6186,7 +5495,7 @@ export default function InterviewInterface({ navigation, route }: any) {
                     {quotaInfo && (
                       <View style={styles.quotaInfo}>
                         <Text style={styles.quotaText}>
-                          {quotaInfo.currentCount}/{quotaInfo.quota} ({quotaInfo.percentage}%)
+                          {quotaInfo.currentCount}/{quotaInfo.target} ({quotaInfo.percentage}%)
                         </Text>
                         {quotaInfo.isFull && (
                           <Text style={styles.quotaFullText}>Full</Text>
@@ -6307,6 +5616,63 @@ export default function InterviewInterface({ navigation, route }: any) {
           </View>
         );
 
+      case 'matrix':
+        return (
+          <MatrixQuestion
+            question={question}
+            response={currentResponse}
+            onChange={(value) => handleResponseChange(question.id, value)}
+            getDisplayText={getDisplayText}
+          />
+        );
+
+      case 'ranking':
+        return (
+          <RankingQuestion
+            question={question}
+            response={currentResponse}
+            onChange={(value) => handleResponseChange(question.id, value)}
+            getDisplayText={getDisplayText}
+          />
+        );
+
+      case 'constant_sum':
+        return (
+          <ConstantSumQuestion
+            question={question}
+            response={currentResponse}
+            onChange={(value) => handleResponseChange(question.id, value)}
+            getDisplayText={getDisplayText}
+          />
+        );
+
+      case 'photo':
+        return (
+          <PhotoQuestion
+            question={question}
+            response={currentResponse}
+            onChange={(value) => handleResponseChange(question.id, value)}
+          />
+        );
+
+      case 'signature':
+        return (
+          <SignatureQuestion
+            question={question}
+            response={currentResponse}
+            onChange={(value) => handleResponseChange(question.id, value)}
+          />
+        );
+
+      case 'gps':
+        return (
+          <GpsQuestion
+            question={question}
+            response={currentResponse}
+            onChange={(value) => handleResponseChange(question.id, value)}
+          />
+        );
+
       case 'date':
         return (
           <TextInput
@@ -7007,7 +6373,7 @@ export default function InterviewInterface({ navigation, route }: any) {
         <View style={styles.headerInfo}>
           <View style={styles.progressAndTimerRow}>
           <Text style={styles.progressText}>
-            Question {currentQuestionIndex + 1} of {maxPossibleQuestions || visibleQuestions.length}
+            Question {currentQuestionIndex + 1} of {totalQuestions}
           </Text>
           <Text style={styles.durationText}>{formatTime(duration)}</Text>
           </View>
@@ -7020,6 +6386,11 @@ export default function InterviewInterface({ navigation, route }: any) {
         ref={scrollViewRef}
         style={styles.content}
       >
+        {/* CATI respondent's previous calls, notes and contact preferences */}
+        {isCatiMode && respondentHistory && (
+          <RespondentHistoryPanel history={respondentHistory} dispositionCodes={dispositionCodes} />
+        )}
+
         <Card style={styles.questionCard}>
           <Card.Content>
             {/* Show loading/blocking overlay if recording hasn't started and confirmed */}
@@ -7046,6 +6417,12 @@ export default function InterviewInterface({ navigation, route }: any) {
             )}
             
 
+            {/* Roster iteration (e.g. household member) */}
+            {(currentQuestion as any).rosterLabel && (
+              <Text style={styles.rosterLabel}>
+                {(currentQuestion as any).rosterLabel} ({(currentQuestion as any).rosterIteration} of {(currentQuestion as any).rosterCount})
+              </Text>
+            )}
             <View style={styles.questionHeader}>
               <Text style={styles.questionText}>
                 {(() => {
@@ -7219,6 +6596,61 @@ export default function InterviewInterface({ navigation, route }: any) {
             ]}>
               {renderQuestion(currentQuestion)}
             </View>
+
+            {/* Follow-ups the selected call status requires */}
+            {isCatiMode && currentQuestion.id === 'call-status' && !!selectedDisposition?.requires?.length && (
+              <View style={styles.dispositionFollowUps}>
+                {selectedDisposition.requires.includes('refusal_reason') && (
+                  <>
+                    <Text style={styles.modalLabel}>Refusal Reason:</Text>
+                    {selectedDisposition.refusalReasons?.length ? (
+                      <RadioButton.Group
+                        onValueChange={(value) => setDispositionFollowUps(prev => ({ ...prev, refusalReason: value }))}
+                        value={dispositionFollowUps.refusalReason || ''}
+                      >
+                        {selectedDisposition.refusalReasons.map((reason) => (
+                          <RadioButton.Item key={reason} label={getDisplayText(reason)} value={reason} />
+                        ))}
+                      </RadioButton.Group>
+                    ) : (
+                      <TextInput
+                        mode="outlined"
+                        placeholder="Why did the respondent refuse?"
+                        value={dispositionFollowUps.refusalReason || ''}
+                        onChangeText={(text) => setDispositionFollowUps(prev => ({ ...prev, refusalReason: text }))}
+                        style={styles.dateInput}
+                      />
+                    )}
+                  </>
+                )}
+                {selectedDisposition.requires.includes('callback_time') && (
+                  <>
+                    <Text style={styles.modalLabel}>Schedule Call For:</Text>
+                    <TextInput
+                      mode="outlined"
+                      placeholder="YYYY-MM-DD HH:MM"
+                      value={dispositionFollowUps.callbackTime || ''}
+                      onChangeText={(text) => setDispositionFollowUps(prev => ({ ...prev, callbackTime: text }))}
+                      style={styles.dateInput}
+                    />
+                  </>
+                )}
+                {selectedDisposition.requires.includes('notes') && (
+                  <>
+                    <Text style={styles.modalLabel}>Notes:</Text>
+                    <TextInput
+                      mode="outlined"
+                      multiline
+                      numberOfLines={3}
+                      placeholder="Add notes about this call..."
+                      value={dispositionFollowUps.notes || ''}
+                      onChangeText={(text) => setDispositionFollowUps(prev => ({ ...prev, notes: text }))}
+                      style={styles.notesInput}
+                    />
+                  </>
+                )}
+              </View>
+            )}
             
             {/* Target Audience Validation Error */}
             {targetAudienceErrors.has(currentQuestion.id) && (
@@ -7228,6 +6660,15 @@ export default function InterviewInterface({ navigation, route }: any) {
                 </Text>
               </View>
             )}
+
+            {/* Quota screen-out */}
+            {quotaScreenOut && (
+              <View style={styles.validationError}>
+                <Text style={styles.validationErrorText}>
+                  Quota full for {getQuotaCellLabel(quotaScreenOut.cell)} ({quotaScreenOut.cell.currentCount}/{quotaScreenOut.cell.target}). This respondent is screened out - please end the interview.
+                </Text>
+              </View>
+            )}
           </Card.Content>
         </Card>
       </ScrollView>
@@ -7245,24 +6686,33 @@ export default function InterviewInterface({ navigation, route }: any) {
           Previous
         </Button>
         
-        {(currentQuestionIndex === visibleQuestions.length - 1 || shouldShowSubmitForCallStatus || shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form')) ? (
+        {(currentQuestionIndex === visibleQuestions.length - 1 || shouldShowSubmitForCallStatus || shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form') || quotaScreenOut) ? (
           <Button
             mode="contained"
             onPress={() => {
               // If call status is not connected, abandon instead of complete
               if (shouldShowSubmitForCallStatus && callStatusResponse) {
+                const followUpError = getDispositionFollowUpError(selectedDisposition, dispositionFollowUps);
+                if (followUpError) {
+                  showSnackbar(followUpError);
+                  return;
+                }
                 abandonInterview();
               } 
               // If consent form is "No", abandon instead of complete
               else if ((shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form')) && isConsentDisagreed) {
                 abandonInterview('consent_refused');
               } 
+              // If the respondent's quota cell is full, abandon as screened out
+              else if (quotaScreenOut) {
+                abandonInterview('quota_full');
+              }
               else {
                 completeInterview();
               }
             }}
             style={[
-              (shouldShowSubmitForCallStatus || shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form')) ? styles.abandonButton : styles.completeButton,
+              (shouldShowSubmitForCallStatus || shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form') || quotaScreenOut) ? styles.abandonButton : styles.completeButton,
               (targetAudienceErrors.size > 0 || 
                (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
                 !isRecordingReady)) && styles.disabledButton
@@ -7272,7 +6722,7 @@ export default function InterviewInterface({ navigation, route }: any) {
                       !isRecordingReady)}
             loading={isLoading}
           >
-            {(shouldShowSubmitForCallStatus || shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form')) ? 'Abandon' : 'Submit'}
+            {(shouldShowSubmitForCallStatus || shouldShowAbandonForConsent || (isConsentDisagreed && currentQuestion?.id === 'consent-form') || quotaScreenOut) ? 'Abandon' : 'Submit'}
           </Button>
         ) : (
           <Button
@@ -7292,7 +6742,7 @@ export default function InterviewInterface({ navigation, route }: any) {
                  (currentQuestion.text && currentQuestion.text.toLowerCase().includes('select polling station'))) &&
                 (!selectedPollingStation.groupName || !selectedPollingStation.stationName)) ||
                // Check if call status is not connected in CATI mode
-               (isCatiMode && currentQuestion && currentQuestion.id === 'call-status' && callStatusResponse !== 'call_connected') ||
+               (isCatiMode && currentQuestion && currentQuestion.id === 'call-status' && !isCallConnected) ||
                (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
                 !isRecordingReady)) && styles.disabledButton
             ]}
@@ -7311,7 +6761,7 @@ export default function InterviewInterface({ navigation, route }: any) {
                        (currentQuestion.text && currentQuestion.text.toLowerCase().includes('select polling station'))) &&
                       (!selectedPollingStation.groupName || !selectedPollingStation.stationName)) ||
                      // Check if call status is not connected in CATI mode
-                     (isCatiMode && currentQuestion && currentQuestion.id === 'call-status' && callStatusResponse !== 'call_connected') ||
+                     (isCatiMode && currentQuestion && currentQuestion.id === 'call-status' && !isCallConnected) ||
                      (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
                       !isRecordingReady)}
           >
@@ -7495,6 +6945,17 @@ export default function InterviewInterface({ navigation, route }: any) {
                     showSnackbar('Please select a date for calling later');
                     return;
                   }
+                  if (abandonReason === 'call_later') {
+                    const callLaterTime = parseCallbackTime(callLaterDate);
+                    if (!callLaterTime) {
+                      showSnackbar('Please enter the callback time as YYYY-MM-DD HH:MM');
+                      return;
+                    }
+                    if (callLaterTime.getTime() <= Date.now()) {
+                      showSnackbar('Callback time must be in the future');
+                      return;
+                    }
+                  }
                   setShowAbandonModal(false);
                   abandonInterview();
                 }}
@@ -7825,6 +7286,12 @@ const styles = StyleSheet.create({
   questionHeader: {
     marginBottom: 2,
   },
+  rosterLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563eb',
+    marginBottom: 4,
+  },
   questionText: {
     fontSize: 18,
     fontWeight: '600',
@@ -8085,6 +7552,9 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     marginRight: 8,
   },
+  dispositionFollowUps: {
+    marginTop: 16,
+  },
   callStatusContainer: {
     marginTop: 8, // Add space below language dropdown
     marginRight: 8,
@@ -23,6 +23,8 @@ import {
   Snackbar,
   ActivityIndicator,
   Menu,
+  Chip,
+  Switch,
 } from 'react-native-paper';
 import { LinearGradient } from 'expo-linear-gradient';
 import { StatusBar } from 'expo-status-bar';
@@ -30,8 +32,19 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 import { apiService } from '../services/api';
 import { User, Survey } from '../types';
 import { offlineStorage } from '../services/offlineStorage';
-import { syncService } from '../services/syncService';
+import { interviewJournal } from '../services/interviewJournal';
+import { dataProtectionService } from '../services/dataProtectionService';
+import { syncService, SyncResult } from '../services/syncService';
+import { backgroundSyncService } from '../services/backgroundSyncService';
+import { syncPolicyService } from '../services/syncPolicyService';
+import { callbackService } from '../services/callbackService';
+import { getSyncErrorLabel } from '../utils/syncErrors';
+import { getSyncConflictLabel } from '../utils/syncConflicts';
+import { SyncPolicySettings, DEFAULT_SYNC_POLICY, AUDIO_THRESHOLD_OPTIONS_MB, formatBytes } from '../utils/syncPolicy';
+import { CatiCallback, groupCallbacks } from '../utils/catiCallbacks';
+import { calculateAaporRates, countByAaporCategory } from '../utils/dispositions';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import QuotaProgress from '../components/QuotaProgress';
 
 const { width } = Dimensions.get('window');
 
@@ -45,6 +58,13 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
   const [availableSurveys, setAvailableSurveys] = useState<Survey[]>([]);
   const [myInterviews, setMyInterviews] = useState<any[]>([]);
   const [offlineInterviews, setOfflineInterviews] = useState<any[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<any[]>([]);
+  const [deferredAudio, setDeferredAudio] = useState<{ count: number; totalBytes: number }>({ count: 0, totalBytes: 0 });
+  // Stored interviews that can't be decrypted - still on the device, but they can't be shown or synced
+  const [unreadableInterviewCount, setUnreadableInterviewCount] = useState(0);
+  const [syncPolicy, setSyncPolicy] = useState<SyncPolicySettings>(DEFAULT_SYNC_POLICY);
+  const [callbacks, setCallbacks] = useState<CatiCallback[]>([]);
+  const overdueCallbackCount = groupCallbacks(callbacks).overdue.length;
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [snackbarVisible, setSnackbarVisible] = useState(false);
@@ -68,6 +88,12 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     rejected: 0,
     pendingApproval: 0
   });
+  // CATI calls per AAPOR category recorded with each call (from the stats endpoint) and the outcome rates they give
+  const [callOutcomeCounts, setCallOutcomeCounts] = useState<Record<string, number> | null>(null);
+  const outcomeRates = useMemo(() => {
+    if (!callOutcomeCounts) return null;
+    return calculateAaporRates(countByAaporCategory(callOutcomeCounts));
+  }, [callOutcomeCounts]);
   // Force Offline Mode - Enabled for debugging
   const [forceOfflineMode, setForceOfflineMode] = useState(false);
   
@@ -234,6 +260,7 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     loadDashboardData();
     loadPendingInterviewsCount();
     loadOfflineInterviews(); // Load offline interviews on mount
+    checkInterruptedInterview(); // Offer to resume an interview the app was killed during
     
     // Check for polling stations update on app startup (background, non-blocking)
     const checkPollingStationsUpdate = async () => {
@@ -295,6 +322,7 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
               rejected: statsResult.stats.rejected || 0,
               pendingApproval: statsResult.stats.pendingApproval || 0
             });
+            setCallOutcomeCounts(statsResult.stats.callOutcomeCategories || null);
           }
         }
       };
@@ -326,13 +354,28 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     return unsubscribe;
   }, [navigation]);
 
-  // Automatic background sync - Phase 4
-  const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastSyncTimeRef = useRef<number>(0);
-  const SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
-  const MIN_SYNC_GAP_MS = 30 * 1000; // Minimum 30 seconds between syncs
+  // CATI callbacks: refresh the list on focus, open it when a callback reminder is tapped
+  useEffect(() => {
+    const loadCallbacks = async () => {
+      try {
+        setCallbacks(await callbackService.getCallbacks());
+      } catch (error) {
+        console.error('Error loading callbacks:', error);
+      }
+    };
+    loadCallbacks();
+    const unsubscribeFocus = navigation.addListener('focus', loadCallbacks);
+    const removeTapListener = callbackService.addReminderTapListener(() => {
+      navigation.navigate('CatiCallbacks');
+    });
+    return () => {
+      unsubscribeFocus();
+      removeTapListener();
+    };
+  }, [navigation]);
 
-  // Background sync function (silent, no UI blocking)
+  // Automatic sync runs in backgroundSyncService (OS background task + connectivity changes)
+  // The dashboard only triggers it on focus/foreground and refreshes when a sync completes
   const performBackgroundSync = async (reason: string) => {
     // Don't sync if already syncing
     if (isSyncing || syncService.isSyncInProgress()) {
@@ -340,56 +383,9 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
       return;
     }
 
-    // Check minimum time gap
-    const now = Date.now();
-    if (now - lastSyncTimeRef.current < MIN_SYNC_GAP_MS) {
-      console.log(`⏭️ Skipping background sync (${reason}) - too soon since last sync`);
-      return;
-    }
-
-    // Check if online
-    const isOnline = await apiService.isOnline();
-    if (!isOnline) {
-      console.log(`⏭️ Skipping background sync (${reason}) - device is offline`);
-      return;
-    }
-
-    // Check if there are pending interviews
-    const pendingInterviews = await offlineStorage.getPendingInterviews();
-    if (pendingInterviews.length === 0) {
-      console.log(`⏭️ Skipping background sync (${reason}) - no pending interviews`);
-      return;
-    }
-
-    console.log(`🔄 Starting background sync (${reason}) - ${pendingInterviews.length} pending interviews`);
-    lastSyncTimeRef.current = now;
-
     try {
       setIsSyncing(true);
-      const result = await syncService.syncOfflineInterviews();
-      
-      if (result.success && result.syncedCount > 0) {
-        console.log(`✅ Background sync completed: ${result.syncedCount} synced, ${result.failedCount} failed`);
-        setLastSyncTime(new Date());
-        setLastSyncResult({ synced: result.syncedCount, failed: result.failedCount });
-        
-        // Update data incrementally without full reload
-        // Only reload what's necessary to reflect sync changes
-        await loadOfflineInterviews(); // Update offline interviews list (removes synced ones)
-        await loadPendingInterviewsCount(); // Update pending count
-        // Don't reload full dashboard data - stats will update on next focus or periodic refresh
-      } else if (result.failedCount > 0) {
-        console.log(`⚠️ Background sync completed with errors: ${result.syncedCount} synced, ${result.failedCount} failed`);
-        setLastSyncTime(new Date());
-        setLastSyncResult({ synced: result.syncedCount, failed: result.failedCount });
-        // Only update offline interviews to show failed status
-        await loadOfflineInterviews();
-        await loadPendingInterviewsCount();
-      } else if (result.syncedCount === 0 && result.failedCount === 0) {
-        // No pending interviews - still update time to show sync ran
-        setLastSyncTime(new Date());
-        setLastSyncResult({ synced: 0, failed: 0 });
-      }
+      await backgroundSyncService.runSync(reason);
     } catch (error: any) {
       console.error('❌ Background sync error:', error);
     } finally {
@@ -397,14 +393,50 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     }
   };
 
-  // Monitor network state in real-time using NetInfo
-  const wasOfflineRef = useRef<boolean>(true); // Track previous state
-  
+  // Refresh the dashboard after any automatic sync, including ones started by the network listener
+  const handleAutomaticSyncResult = async (result: SyncResult) => {
+    if (result.success && result.syncedCount > 0) {
+      console.log(`✅ Background sync completed: ${result.syncedCount} synced, ${result.failedCount} failed`);
+      setLastSyncTime(new Date());
+      setLastSyncResult({ synced: result.syncedCount, failed: result.failedCount });
+      
+      // Update data incrementally without full reload
+      // Only reload what's necessary to reflect sync changes
+      await loadOfflineInterviews(); // Update offline interviews list (removes synced ones)
+      await loadPendingInterviewsCount(); // Update pending count
+      // Don't reload full dashboard data - stats will update on next focus or periodic refresh
+    } else if (result.failedCount > 0) {
+      console.log(`⚠️ Background sync completed with errors: ${result.syncedCount} synced, ${result.failedCount} failed`);
+      setLastSyncTime(new Date());
+      setLastSyncResult({ synced: result.syncedCount, failed: result.failedCount });
+      // Only update offline interviews to show failed status
+      await loadOfflineInterviews();
+      await loadPendingInterviewsCount();
+    } else if (result.conflictCount > 0 || result.deferredCount > 0) {
+      console.log(`⚠️ Background sync: ${result.conflictCount} sync conflicts, ${result.deferredCount} waiting for Wi-Fi`);
+      setLastSyncTime(new Date());
+      await loadOfflineInterviews();
+    } else if (result.syncedCount === 0 && result.failedCount === 0) {
+      // No pending interviews - still update time to show sync ran
+      setLastSyncTime(new Date());
+      setLastSyncResult({ synced: 0, failed: 0 });
+    }
+  };
+
+  useEffect(() => {
+    const unsubscribe = backgroundSyncService.addSyncListener((result) => {
+      handleAutomaticSyncResult(result).catch(error => {
+        console.error('Error refreshing dashboard after sync:', error);
+      });
+    });
+    return unsubscribe;
+  }, []);
+
+  // Monitor network state in real-time using NetInfo (sync on reconnect is handled by backgroundSyncService)
   useEffect(() => {
     // Set initial network state
     NetInfo.fetch().then(state => {
       const isConnected = state.isConnected && state.isInternetReachable !== false;
-      wasOfflineRef.current = isOffline;
       setIsOffline(!isConnected);
       console.log(`🌐 Initial network state: ${isConnected ? 'ONLINE' : 'OFFLINE'}`);
     });
@@ -412,19 +444,8 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     // Subscribe to network state changes
     const unsubscribe = NetInfo.addEventListener(state => {
       const isConnected = state.isConnected && state.isInternetReachable !== false;
-      const wasOffline = wasOfflineRef.current;
-      wasOfflineRef.current = !isConnected;
       setIsOffline(!isConnected);
-      
       console.log(`🌐 Network state changed: ${isConnected ? 'ONLINE' : 'OFFLINE'}`);
-
-      // If we just came online, trigger sync immediately
-      if (wasOffline && isConnected) {
-        console.log('🔄 Device came online - triggering background sync');
-        performBackgroundSync('network_online').catch(error => {
-          console.error('Error triggering sync on network online:', error);
-        });
-      }
     });
 
     return () => {
@@ -432,90 +453,6 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     };
   }, []); // Only run once on mount
 
-  // Periodic check for pending interviews when online (backup mechanism)
-  useEffect(() => {
-    if (isOffline || isSyncing) {
-      return; // Don't run if offline or already syncing
-    }
-
-    const checkAndSync = async () => {
-      // Double-check we're still online
-      const netState = await NetInfo.fetch();
-      const isConnected = netState.isConnected && netState.isInternetReachable !== false;
-      
-      if (!isConnected) {
-        setIsOffline(true);
-        return;
-      }
-
-      // Get fresh pending count from storage
-      const pendingInterviews = await offlineStorage.getPendingInterviews();
-      const freshPendingCount = pendingInterviews.length;
-      
-      if (freshPendingCount > 0) {
-        // Check if it's been more than 30 seconds since last sync attempt
-        const now = Date.now();
-        if (now - lastSyncTimeRef.current > MIN_SYNC_GAP_MS) {
-          console.log(`🔄 Periodic check: ${freshPendingCount} pending interviews - triggering sync`);
-          performBackgroundSync('periodic_check').catch(error => {
-            console.error('Error triggering sync on periodic check:', error);
-          });
-        }
-      }
-    };
-
-    // Check every 30 seconds when online
-    const interval = setInterval(checkAndSync, 30000);
-    
-    // Initial check after 5 seconds
-    const initialTimeout = setTimeout(checkAndSync, 5000);
-
-    return () => {
-      clearInterval(interval);
-      clearTimeout(initialTimeout);
-    };
-  }, [isOffline, isSyncing]); // Re-run when network state or sync state changes
-
-  // Periodic background sync (every 5 minutes when online)
-  useEffect(() => {
-    const setupPeriodicSync = async () => {
-      const isOnline = await apiService.isOnline();
-      if (isOnline) {
-        // Clear existing interval if any
-        if (syncIntervalRef.current) {
-          clearInterval(syncIntervalRef.current);
-        }
-
-        // Set up periodic sync
-        syncIntervalRef.current = setInterval(() => {
-          performBackgroundSync('periodic');
-        }, SYNC_INTERVAL_MS);
-
-        console.log(`⏰ Periodic sync enabled (every ${SYNC_INTERVAL_MS / 1000 / 60} minutes)`);
-      }
-    };
-
-    setupPeriodicSync();
-
-    // Re-setup when network condition changes
-    const checkInterval = setInterval(async () => {
-      const isOnline = await apiService.isOnline();
-      if (isOnline && !syncIntervalRef.current) {
-        setupPeriodicSync();
-      } else if (!isOnline && syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-    }, 10000); // Check every 10 seconds
-
-    return () => {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-      }
-      clearInterval(checkInterval);
-    };
-  }, []);
-
   // Sync when app comes to foreground
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
@@ -598,11 +535,12 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
       const pendingOfflineInterviews = fixedInterviews.filter(
         (interview: any) => {
           const status = interview.status;
-          // Include if status is pending, failed, syncing, undefined/null (legacy), OR synced with error
+          // Include if status is pending, failed, syncing, needs_attention, undefined/null (legacy), OR synced with error
           const shouldInclude = !status || 
                                status === 'pending' || 
                                status === 'failed' || 
                                status === 'syncing' || 
+                               status === 'needs_attention' ||
                                (status === 'synced' && interview.error);
           if (status === 'synced' && interview.error) {
             console.log(`⚠️ Found interview with 'synced' status but has error - will show for retry: ${interview.id}`);
@@ -615,6 +553,12 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
       console.log('📦 ============================================');
       
       setOfflineInterviews(pendingOfflineInterviews);
+      // Interviews whose server copy disagrees with ours are listed separately for review
+      setSyncConflicts(fixedInterviews.filter((interview: any) => interview.status === 'conflict'));
+      // Submitted interviews whose audio is waiting for Wi-Fi
+      setDeferredAudio(await offlineStorage.getDeferredAudioBacklog());
+      setUnreadableInterviewCount(offlineStorage.getUnreadableInterviewIds().length);
+      setSyncPolicy(await syncPolicyService.getSettings());
       // Also update pending count (include synced ones with errors as they need retry)
       const pendingCount = fixedInterviews.filter(
         (interview: any) => {
@@ -708,7 +652,8 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     setIsSyncing(true);
     try {
       showSnackbar('Syncing offline interviews...', 'info');
-      const result = await syncService.syncOfflineInterviews();
+      // Manual sync retries failed interviews immediately instead of waiting out their backoff
+      const result = await syncService.syncOfflineInterviews({ ignoreBackoff: true });
       
       if (result.success && result.syncedCount > 0) {
         showSnackbar(`Successfully synced ${result.syncedCount} interview(s)`, 'success');
@@ -724,6 +669,16 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
         setLastSyncResult({ synced: result.syncedCount, failed: result.failedCount });
         await loadOfflineInterviews(); // Reload offline interviews to show updated status
         await loadPendingInterviewsCount();
+      } else if (result.conflictCount > 0) {
+        showSnackbar(`${result.conflictCount} interview(s) differ from the server copy. Review them under Sync Conflicts.`, 'error');
+        setLastSyncTime(new Date());
+        await loadOfflineInterviews();
+        await loadPendingInterviewsCount();
+      } else if (result.deferredCount > 0) {
+        showSnackbar(`Answers submitted. ${result.deferredCount} recording(s) will upload on Wi-Fi.`, 'info');
+        setLastSyncTime(new Date());
+        await loadOfflineInterviews();
+        await loadPendingInterviewsCount();
       } else if (result.syncedCount === 0 && result.failedCount === 0) {
         showSnackbar('No pending interviews to sync', 'info');
         setLastSyncTime(new Date());
@@ -774,6 +729,118 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     );
   };
 
+  const handleRetryOfflineInterview = async (interviewId: string) => {
+    try {
+      await offlineStorage.resetInterviewForRetry(interviewId);
+      await loadOfflineInterviews();
+      showSnackbar('Interview queued for sync again', 'info');
+    } catch (error) {
+      console.error('Error resetting interview for retry:', error);
+      showSnackbar('Failed to queue interview for retry', 'error');
+    }
+  };
+
+  const handleUpdateSyncPolicy = async (updates: Partial<SyncPolicySettings>) => {
+    try {
+      setSyncPolicy(await syncPolicyService.updateSettings(updates));
+    } catch (error) {
+      console.error('Error updating sync policy:', error);
+      showSnackbar('Failed to save sync settings', 'error');
+    }
+  };
+
+  // Sync conflict review: check the server copy again, or resubmit the local copy when the server lost it
+  const handleResolveSyncConflict = async (interviewId: string, resolution: 'recheck' | 'resubmit') => {
+    try {
+      await offlineStorage.resolveSyncConflict(interviewId, resolution);
+      await loadOfflineInterviews();
+      showSnackbar(resolution === 'resubmit' ? 'Interview queued for resubmission' : 'Interview will be checked again on the next sync', 'info');
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      showSnackbar('Failed to update interview', 'error');
+    }
+  };
+
+  const handleDiscardSyncConflict = async (interviewId: string) => {
+    Alert.alert(
+      'Discard Local Copy',
+      'The server copy of this interview will be kept as it is and the copy on this device will be deleted. This action cannot be undone.',
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await offlineStorage.deleteOfflineInterview(interviewId);
+              showSnackbar('Local copy discarded', 'success');
+              await loadOfflineInterviews();
+            } catch (error) {
+              console.error('Error discarding conflicting interview:', error);
+              showSnackbar('Failed to delete interview', 'error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Prompt to resume a CAPI interview that was interrupted (app killed) before it was saved
+  const checkInterruptedInterview = async () => {
+    try {
+      // No interview is open yet - photos and signatures of unsaved interviews can go
+      await interviewJournal.deleteOrphanedMedia();
+
+      const checkpoint = await interviewJournal.getInterruptedInterview();
+      if (!checkpoint) {
+        return;
+      }
+
+      const answeredCount = Object.keys(checkpoint.responses).length;
+      if (answeredCount === 0 && checkpoint.partialAudioPaths.length === 0) {
+        // Nothing was answered yet - nothing worth resuming
+        await interviewJournal.discard(checkpoint);
+        return;
+      }
+
+      const survey = await offlineStorage.getSurveyById(checkpoint.surveyId);
+      if (!survey) {
+        console.warn('⚠️ Survey for interrupted interview is not downloaded - keeping journal until it is');
+        return;
+      }
+
+      const surveyName = checkpoint.surveyName || survey.surveyName;
+      Alert.alert(
+        'Resume Interrupted Interview',
+        `Your interview for "${surveyName}" was interrupted at question ${(checkpoint.currentQuestionIndex || 0) + 1} ` +
+          `with ${answeredCount} ${answeredCount === 1 ? 'answer' : 'answers'} saved ` +
+          `(${formatTimeAgo(new Date(checkpoint.updatedAt))}). Do you want to continue it?`,
+        [
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: async () => {
+              await interviewJournal.discard(checkpoint);
+              showSnackbar('Interrupted interview discarded', 'info');
+            },
+          },
+          {
+            text: 'Resume',
+            onPress: () => {
+              navigation.navigate('InterviewInterface', { survey, isCatiMode: false, resumeInterrupted: true });
+            },
+          },
+        ],
+        { cancelable: false }
+      );
+    } catch (error) {
+      console.error('Error checking for interrupted interview:', error);
+    }
+  };
+
   const loadDashboardData = async () => {
     setIsLoading(true);
     try {
@@ -791,7 +858,7 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
         const allOfflineInterviews = await offlineStorage.getOfflineInterviews();
         console.log('📴 Offline mode - All offline interviews:', allOfflineInterviews.length);
         const pendingOfflineInterviews = (allOfflineInterviews || []).filter(
-          (interview: any) => interview.status === 'pending' || interview.status === 'failed' || interview.status === 'syncing'
+          (interview: any) => interview.status === 'pending' || interview.status === 'failed' || interview.status === 'syncing' || interview.status === 'needs_attention'
         );
         console.log('📴 Offline mode - Filtered interviews:', pendingOfflineInterviews.length);
         setOfflineInterviews(pendingOfflineInterviews);
@@ -838,6 +905,7 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
           rejected: statsResult.stats.rejected || 0,
           pendingApproval: statsResult.stats.pendingApproval || 0
         });
+        setCallOutcomeCounts(statsResult.stats.callOutcomeCategories || null);
       } else {
         // Fallback: set default stats if API fails
         console.log('⚠️ Failed to fetch stats from API, using defaults');
@@ -873,6 +941,7 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
           return interview.status === 'pending' || 
                  interview.status === 'failed' || 
                  interview.status === 'syncing' ||
+                 interview.status === 'needs_attention' ||
                  (interview.status === 'synced' && interview.error); // Include synced ones with errors
         }
       );
@@ -896,7 +965,7 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
         const allOfflineInterviews = await offlineStorage.getOfflineInterviews();
         console.log('⚠️ Fallback - All offline interviews:', allOfflineInterviews.length);
         const pendingOfflineInterviews = (allOfflineInterviews || []).filter(
-          (interview: any) => interview.status === 'pending' || interview.status === 'failed' || interview.status === 'syncing'
+          (interview: any) => interview.status === 'pending' || interview.status === 'failed' || interview.status === 'syncing' || interview.status === 'needs_attention'
         );
         console.log('⚠️ Fallback - Filtered interviews:', pendingOfflineInterviews.length);
         setOfflineInterviews(pendingOfflineInterviews);
@@ -928,6 +997,36 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
   };
 
   const handleLogout = async () => {
+    // Logging out wipes offline data from the device - don't lose unsynced interviews by accident
+    let unsyncedCount: number;
+    try {
+      unsyncedCount = await dataProtectionService.getUnsyncedInterviewCount();
+    } catch (error) {
+      // Unknown count - don't wipe anything that might not be on the server yet
+      console.error('❌ Error counting unsynced interviews:', error);
+      Alert.alert(
+        'Cannot Log Out',
+        'Could not check this device for unsynced interviews. Logging out deletes offline interviews, so it was stopped. ' +
+          'Please restart the app and try again.'
+      );
+      return;
+    }
+    if (unsyncedCount > 0) {
+      Alert.alert(
+        'Unsynced Interviews',
+        `You have ${unsyncedCount} ${unsyncedCount === 1 ? 'interview' : 'interviews'} that ${unsyncedCount === 1 ? 'has' : 'have'} not been synced. ` +
+          'Logging out permanently deletes offline interviews from this device. Sync them first to keep them.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Log Out Anyway', style: 'destructive', onPress: () => performLogout() },
+        ]
+      );
+      return;
+    }
+    await performLogout();
+  };
+
+  const performLogout = async () => {
     try {
       await apiService.logout();
       onLogout();
@@ -968,6 +1067,15 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
     }
   };
 
+  const getSyncStageText = (stage: string | undefined) => {
+    switch (stage) {
+      case 'session_started': return 'Session started';
+      case 'audio_uploaded': return 'Audio uploaded';
+      case 'responses_completed': return 'Submitted, cleaning up';
+      default: return 'Not started';
+    }
+  };
+
   const formatDate = (dateString: string | Date | undefined) => {
     if (!dateString) return 'N/A';
     try {
@@ -1329,6 +1437,59 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
           </Card>
         </View>
 
+        {/* CATI call outcome rates (AAPOR RR1, COOP1, REF1, CON1) */}
+        {outcomeRates && (
+          <Card style={styles.outcomeRatesCard}>
+            <Card.Content>
+              <Text style={styles.outcomeRatesTitle}>Call Outcome Rates ({outcomeRates.totalCases} calls)</Text>
+              <View style={styles.outcomeRatesRow}>
+                {[
+                  { label: 'Response', value: outcomeRates.responseRate1 },
+                  { label: 'Cooperation', value: outcomeRates.cooperationRate1 },
+                  { label: 'Refusal', value: outcomeRates.refusalRate1 },
+                  { label: 'Contact', value: outcomeRates.contactRate1 },
+                ].map((rate) => (
+                  <View key={rate.label} style={styles.outcomeRate}>
+                    <Text style={styles.outcomeRateValue}>{rate.value}%</Text>
+                    <Text style={styles.statLabel}>{rate.label}</Text>
+                  </View>
+                ))}
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* CATI callbacks - respondents who asked to be called back */}
+        {callbacks.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Callbacks</Text>
+              <Button
+                mode="text"
+                onPress={() => navigation.navigate('CatiCallbacks')}
+                textColor="#001D48"
+                compact
+              >
+                View All
+              </Button>
+            </View>
+            <Card style={styles.callbackSummaryCard} onPress={() => navigation.navigate('CatiCallbacks')}>
+              <Card.Content>
+                <Text style={styles.callbackSummaryText}>
+                  📞 {callbacks.length} {callbacks.length === 1 ? 'callback' : 'callbacks'} scheduled
+                </Text>
+                {overdueCallbackCount > 0 && (
+                  <Text style={styles.callbackOverdueText}>{overdueCallbackCount} due now</Text>
+                )}
+                <Text style={styles.callbackNextText}>
+                  Next: {callbacks[0].respondentName || 'Respondent'} at{' '}
+                  {new Date(callbacks[0].dueAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                </Text>
+              </Card.Content>
+            </Card>
+          </View>
+        )}
+
         {/* Available Surveys */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -1453,6 +1614,9 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
                       )}
                     </View>
                   )}
+
+                  {/* Quota progress */}
+                  <QuotaProgress survey={survey} />
                     </>
                   )}
 
@@ -1558,6 +1722,91 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
         </View>
         )} */}
         
+        {/* Sync Conflicts Section - interviews whose server copy disagrees with the local copy */}
+        {syncConflicts.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <View style={styles.sectionTitleContainer}>
+                <Text style={styles.sectionTitle}>Sync Conflicts</Text>
+                <View style={styles.offlineBadgeContainer}>
+                  <Text style={styles.offlineBadge}>⚠️ {syncConflicts.length} to review</Text>
+                </View>
+              </View>
+            </View>
+            {syncConflicts.map((interview) => {
+              const conflict = interview.syncConflict || { reasons: [] };
+              return (
+                <Card key={interview.id} style={styles.interviewCard}>
+                  <Card.Content>
+                    <View style={styles.interviewHeader}>
+                      <View style={styles.interviewTitleContainer}>
+                        <Text style={styles.interviewTitle} numberOfLines={2}>
+                          {interview.surveyName || interview.survey?.surveyName || 'Unknown Survey'}
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={styles.statusBadgeContainer}>
+                      <View style={[styles.statusBadge, { backgroundColor: '#b45309' }]}>
+                        <Text style={styles.statusText}>Conflict</Text>
+                      </View>
+                    </View>
+                    {conflict.reasons.map((reason: any) => (
+                      <Text key={reason} style={styles.errorText}>{getSyncConflictLabel(reason)}</Text>
+                    ))}
+                    <View style={styles.interviewMeta}>
+                      <View style={styles.metaItem}>
+                        <Text style={styles.metaLabel}>Answers (device)</Text>
+                        <Text style={styles.metaValue}>{conflict.localResponseCount ?? 'N/A'}</Text>
+                      </View>
+                      <View style={styles.metaItem}>
+                        <Text style={styles.metaLabel}>Answers (server)</Text>
+                        <Text style={styles.metaValue}>{conflict.serverResponseCount ?? 'N/A'}</Text>
+                      </View>
+                      <View style={styles.metaItem}>
+                        <Text style={styles.metaLabel}>Server Status</Text>
+                        <Text style={styles.metaValue}>{conflict.serverStatus || 'N/A'}</Text>
+                      </View>
+                      <View style={styles.metaItem}>
+                        <Text style={styles.metaLabel}>Type</Text>
+                        <Text style={styles.metaValue}>{interview.isCatiMode ? 'CATI' : 'CAPI'}</Text>
+                      </View>
+                    </View>
+                    <Text style={styles.interviewDate}>
+                      Saved: {formatDate(interview.startTime)}
+                      {conflict.detectedAt ? ` • Detected: ${formatDate(conflict.detectedAt)}` : ''}
+                    </Text>
+                    <View style={styles.deleteButtonContainer}>
+                      <TouchableOpacity
+                        onPress={() => handleResolveSyncConflict(interview.id, 'recheck')}
+                        style={styles.deleteButtonRow}
+                      >
+                        <Ionicons name="refresh-outline" size={18} color="#059669" />
+                        <Text style={[styles.deleteButtonText, { color: '#059669' }]}>Check Again</Text>
+                      </TouchableOpacity>
+                      {conflict.reasons.includes('missing_on_server') && (
+                        <TouchableOpacity
+                          onPress={() => handleResolveSyncConflict(interview.id, 'resubmit')}
+                          style={styles.deleteButtonRow}
+                        >
+                          <Ionicons name="cloud-upload-outline" size={18} color="#2563eb" />
+                          <Text style={[styles.deleteButtonText, { color: '#2563eb' }]}>Resubmit</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        onPress={() => handleDiscardSyncConflict(interview.id)}
+                        style={styles.deleteButtonRow}
+                      >
+                        <Ionicons name="trash-outline" size={18} color="#dc2626" />
+                        <Text style={styles.deleteButtonText}>Discard Local Copy</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </Card.Content>
+                </Card>
+              );
+            })}
+          </View>
+        )}
+
         {/* Offline Interviews Section - Always show this section if there are offline interviews */}
         {/* This section allows users to sync their offline saved interviews to the server */}
         <View style={styles.section}>
@@ -1570,6 +1819,14 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
                 </View>
               )}
             </View>
+            <Button
+              mode="text"
+              onPress={() => navigation.navigate('SyncReceipts', { interviewerId: user?._id })}
+              textColor="#001D48"
+              compact
+            >
+              Receipts
+            </Button>
           </View>
           {/* Sync Offline Interviews Button - Positioned above the section */}
           {(pendingInterviewsCount > 0 || offlineInterviews.length > 0) && (
@@ -1625,6 +1882,60 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
             </View>
           )}
           
+          {/* Sync policy - hold large audio until Wi-Fi so interviewers don't pay for it */}
+          <Card style={styles.interviewCard}>
+            <Card.Content>
+              <View style={styles.syncPolicyRow}>
+                <View style={styles.syncPolicyTextContainer}>
+                  <Text style={styles.syncPolicyTitle}>Upload large audio on Wi-Fi only</Text>
+                  <Text style={styles.interviewDate}>
+                    Answers always sync on mobile data. Recordings over {syncPolicy.audioSizeThresholdMb} MB wait for Wi-Fi.
+                  </Text>
+                </View>
+                <Switch
+                  value={syncPolicy.wifiOnlyAudio}
+                  onValueChange={(value) => handleUpdateSyncPolicy({ wifiOnlyAudio: value })}
+                  color="#059669"
+                />
+              </View>
+              {syncPolicy.wifiOnlyAudio && (
+                <View style={styles.syncPolicyChips}>
+                  {AUDIO_THRESHOLD_OPTIONS_MB.map((megabytes) => (
+                    <Chip
+                      key={megabytes}
+                      selected={syncPolicy.audioSizeThresholdMb === megabytes}
+                      onPress={() => handleUpdateSyncPolicy({ audioSizeThresholdMb: megabytes })}
+                      compact
+                    >
+                      {`${megabytes} MB`}
+                    </Chip>
+                  ))}
+                </View>
+              )}
+              {deferredAudio.count > 0 && (
+                <View style={styles.syncStatusRow}>
+                  <Ionicons name="wifi-outline" size={14} color="#f59e0b" />
+                  <Text style={styles.syncStatusText}>
+                    {deferredAudio.count} {deferredAudio.count === 1 ? 'recording' : 'recordings'} ({formatBytes(deferredAudio.totalBytes)}) waiting for Wi-Fi
+                  </Text>
+                </View>
+              )}
+            </Card.Content>
+          </Card>
+
+          {unreadableInterviewCount > 0 && (
+            <Card style={styles.interviewCard}>
+              <Card.Content>
+                <View style={styles.syncStatusRow}>
+                  <Ionicons name="warning" size={14} color="#dc2626" />
+                  <Text style={styles.syncStatusText}>
+                    {unreadableInterviewCount} saved {unreadableInterviewCount === 1 ? 'interview' : 'interviews'} could not be read and {unreadableInterviewCount === 1 ? 'has' : 'have'} not been synced. Do not log out or reinstall the app - contact your supervisor.
+                  </Text>
+                </View>
+              </Card.Content>
+            </Card>
+          )}
+
           {offlineInterviews.length > 0 ? (
             <>
             {offlineInterviews.slice(0, 5).map((interview) => (
@@ -1642,18 +1953,29 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
                     <View style={[styles.statusBadge, { 
                       backgroundColor: interview.status === 'synced' ? '#059669' : 
                                        interview.status === 'syncing' ? '#f59e0b' : 
-                                       interview.status === 'failed' ? '#dc2626' : '#6b7280'
+                                       interview.status === 'failed' ? '#dc2626' :
+                                       interview.status === 'needs_attention' ? '#7c2d12' : '#6b7280'
                     }]}>
                       <Text style={styles.statusText}>
                         {interview.status === 'synced' ? 'Synced' : 
                          interview.status === 'syncing' ? 'Syncing' : 
-                         interview.status === 'failed' ? 'Failed' : 'Pending'}
+                         interview.status === 'failed' ? 'Failed' :
+                         interview.status === 'needs_attention' ? 'Needs Attention' : 'Pending'}
                       </Text>
                     </View>
                   </View>
                   {/* Delete button row - separate row to prevent overlap */}
-                  {(interview.status === 'failed' || (interview.status === 'synced' && interview.error)) && (
+                  {(interview.status === 'failed' || interview.status === 'needs_attention' || (interview.status === 'synced' && interview.error)) && (
                     <View style={styles.deleteButtonContainer}>
+                      {interview.status === 'needs_attention' && (
+                        <TouchableOpacity
+                          onPress={() => handleRetryOfflineInterview(interview.id)}
+                          style={styles.deleteButtonRow}
+                        >
+                          <Ionicons name="refresh-outline" size={18} color="#059669" />
+                          <Text style={[styles.deleteButtonText, { color: '#059669' }]}>Retry Sync</Text>
+                        </TouchableOpacity>
+                      )}
                       <TouchableOpacity
                         onPress={() => handleDeleteOfflineInterview(interview.id)}
                         style={styles.deleteButtonRow}
@@ -1689,8 +2011,15 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
                       </Text>
                     </View>
                   </View>
-                  {interview.status === 'failed' && interview.error && (
-                    <Text style={styles.errorText}>Error: {interview.error}</Text>
+                  {(interview.status === 'failed' || interview.status === 'needs_attention') && interview.error && (
+                    <Text style={styles.errorText}>
+                      {interview.lastErrorType ? `${getSyncErrorLabel(interview.lastErrorType)}: ` : 'Error: '}{interview.error}
+                    </Text>
+                  )}
+                  {interview.syncStage && interview.syncStage !== 'pending' && (
+                    <Text style={styles.interviewDate}>
+                      Sync progress: {getSyncStageText(interview.syncStage)}
+                    </Text>
                   )}
                   {interview.lastSyncAttempt && (
                     <Text style={styles.interviewDate}>
@@ -1969,6 +2298,48 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  callbackSummaryCard: {
+    elevation: 2,
+  },
+  outcomeRatesCard: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  outcomeRatesTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  outcomeRatesRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  outcomeRate: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  outcomeRateValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#001D48',
+  },
+  callbackSummaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  callbackOverdueText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#dc2626',
+    marginTop: 4,
+  },
+  callbackNextText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
   sectionTitleContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2075,6 +2446,24 @@ const styles = StyleSheet.create({
     padding: 4,
     marginLeft: 4,
   },
+  deleteButtonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 8,
+  },
+  deleteButtonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginLeft: 8,
+  },
+  deleteButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#dc2626',
+    marginLeft: 4,
+  },
   interviewTitle: {
     fontSize: 16,
     fontWeight: '600',
@@ -2236,6 +2625,26 @@ const styles = StyleSheet.create({
   expandButton: {
     minWidth: 120,
   },
+  syncPolicyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  syncPolicyTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  syncPolicyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  syncPolicyChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
   syncButtonContainer: {
     marginTop: 8,
     marginBottom: 16,
@@ -19,6 +19,7 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { StatusBar } from 'expo-status-bar';
 import { apiService } from '../services/api';
+import { dataProtectionService } from '../services/dataProtectionService';
 
 const { width, height } = Dimensions.get('window');
 
@@ -77,6 +78,9 @@ export default function LoginScreen({ navigation, onLogin }: LoginScreenProps) {
           return;
         }
         
+        // Derive the offline data encryption key while we still have the password
+        await dataProtectionService.onLogin(result.user._id, password);
+        
         console.log('✅ Login successful, calling onLogin callback');
         onLogin(result.user, result.token);
       } else {
@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Share,
+} from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  Chip,
+  Searchbar,
+  Snackbar,
+  ActivityIndicator,
+  Divider,
+} from 'react-native-paper';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { syncReceiptLedger, RECEIPT_RETENTION_OPTIONS } from '../services/syncReceiptLedger';
+import { SyncReceipt, receiptsToCsv, countReceiptsByDay } from '../utils/syncReceipts';
+
+export default function SyncReceipts({ route }: any) {
+  const interviewerId: string | undefined = route?.params?.interviewerId;
+  const [receipts, setReceipts] = useState<SyncReceipt[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [snackbarVisible, setSnackbarVisible] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  useEffect(() => {
+    loadReceipts();
+  }, []);
+
+  const loadReceipts = async () => {
+    setIsLoading(true);
+    try {
+      setReceipts(await syncReceiptLedger.getReceipts(interviewerId));
+      setRetentionDays(await syncReceiptLedger.getRetentionDays());
+    } catch (error) {
+      console.error('Error loading sync receipts:', error);
+      showSnackbar('Failed to load sync receipts');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadReceipts();
+    setIsRefreshing(false);
+  };
+
+  const showSnackbar = (message: string) => {
+    setSnackbarMessage(message);
+    setSnackbarVisible(true);
+  };
+
+  const handleChangeRetention = async (days: number) => {
+    try {
+      await syncReceiptLedger.setRetentionDays(days);
+      showSnackbar(`Receipts will be kept for ${days} days`);
+      await loadReceipts();
+    } catch (error) {
+      console.error('Error changing receipt retention:', error);
+      showSnackbar('Failed to change retention period');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({
+        title: 'Sync Receipts',
+        message: receiptsToCsv(filteredReceipts),
+      });
+    } catch (error) {
+      console.error('Error exporting sync receipts:', error);
+      showSnackbar('Failed to export receipts');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) return 'N/A';
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const formatSize = (bytes: number | null) => {
+    if (!bytes) return 'N/A';
+    return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredReceipts = query
+    ? receipts.filter(receipt =>
+        [receipt.surveyName, receipt.responseId, receipt.localId, receipt.acName, receipt.pollingStation]
+          .some(value => value?.toLowerCase().includes(query))
+      )
+    : receipts;
+  const dailyCounts = countReceiptsByDay(filteredReceipts).slice(0, 7);
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#001D48" />
+        <Text style={styles.loadingText}>Loading sync receipts...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <StatusBar style="light" />
+
+      <View style={styles.searchContainer}>
+        <Searchbar
+          placeholder="Search survey, response ID, AC..."
+          onChangeText={setSearchQuery}
+          value={searchQuery}
+          style={styles.searchbar}
+        />
+        <Button
+          mode="outlined"
+          onPress={handleExport}
+          disabled={filteredReceipts.length === 0}
+          style={styles.exportButton}
+          icon="export-variant"
+        >
+          Export
+        </Button>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={['#001D48']}
+            tintColor="#001D48"
+          />
+        }
+      >
+        {/* Submissions per day - settles "how many did I submit yesterday" */}
+        <Card style={styles.summaryCard}>
+          <Card.Content>
+            <Text style={styles.summaryTitle}>Synced per day</Text>
+            {dailyCounts.length > 0 ? (
+              dailyCounts.map(({ day, count }) => (
+                <View key={day} style={styles.summaryRow}>
+                  <Text style={styles.summaryDay}>{new Date(`${day}T00:00:00`).toLocaleDateString()}</Text>
+                  <Text style={styles.summaryCount}>{count}</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptySubtitle}>No receipts yet</Text>
+            )}
+            <Divider style={styles.divider} />
+            <Text style={styles.metaLabel}>Keep receipts for</Text>
+            <View style={styles.retentionRow}>
+              {RECEIPT_RETENTION_OPTIONS.map(days => (
+                <Chip
+                  key={days}
+                  selected={retentionDays === days}
+                  onPress={() => handleChangeRetention(days)}
+                  style={styles.retentionChip}
+                  compact
+                >
+                  {`${days} days`}
+                </Chip>
+              ))}
+            </View>
+          </Card.Content>
+        </Card>
+
+        {filteredReceipts.length > 0 ? (
+          filteredReceipts.map(receipt => (
+            <Card key={receipt.localId} style={styles.receiptCard}>
+              <Card.Content>
+                <View style={styles.receiptHeader}>
+                  <Text style={styles.receiptTitle} numberOfLines={2}>
+                    {receipt.surveyName || receipt.surveyId}
+                  </Text>
+                  <Chip style={styles.modeChip} textStyle={styles.chipText} compact>
+                    {receipt.mode}
+                  </Chip>
+                </View>
+                <Text style={styles.receiptId}>Response ID: {receipt.responseId || 'N/A'}</Text>
+                <Text style={styles.receiptId}>Local ID: {receipt.localId}</Text>
+                <View style={styles.receiptMeta}>
+                  <View style={styles.metaItem}>
+                    <Text style={styles.metaLabel}>Started</Text>
+                    <Text style={styles.metaValue}>{formatDate(receipt.startTime)}</Text>
+                  </View>
+                  <View style={styles.metaItem}>
+                    <Text style={styles.metaLabel}>Synced</Text>
+                    <Text style={styles.metaValue}>{formatDate(receipt.syncedAt)}</Text>
+                  </View>
+                  <View style={styles.metaItem}>
+                    <Text style={styles.metaLabel}>Audio</Text>
+                    <Text style={styles.metaValue}>{formatSize(receipt.audioSize)}</Text>
+                  </View>
+                </View>
+                {(receipt.acName || receipt.pollingStation) && (
+                  <Text style={styles.locationText}>
+                    {[receipt.acName, receipt.pollingStation].filter(Boolean).join(' • ')}
+                  </Text>
+                )}
+                {receipt.audioChecksum && (
+                  <Text style={styles.checksumText}>Audio MD5: {receipt.audioChecksum}</Text>
+                )}
+              </Card.Content>
+            </Card>
+          ))
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyTitle}>No Sync Receipts</Text>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery
+                ? 'Try adjusting your search'
+                : 'A receipt is kept here for every interview successfully synced from this device.'}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={4000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  searchbar: {
+    flex: 1,
+    marginRight: 12,
+    elevation: 0,
+  },
+  exportButton: {
+    borderColor: '#d1d5db',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryCard: {
+    marginBottom: 16,
+    elevation: 3,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  summaryDay: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  summaryCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#001D48',
+  },
+  retentionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  retentionChip: {
+    marginTop: 4,
+  },
+  receiptCard: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  receiptHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  receiptTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    flex: 1,
+    marginRight: 12,
+  },
+  modeChip: {
+    backgroundColor: '#7c3aed',
+    height: 28,
+  },
+  chipText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  receiptId: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  receiptMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  metaItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  metaLabel: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginBottom: 4,
+  },
+  metaValue: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1f2937',
+    textAlign: 'center',
+  },
+  locationText: {
+    fontSize: 13,
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  checksumText: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    paddingHorizontal: 24,
+  },
+});
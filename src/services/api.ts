@@ -1,6 +1,7 @@
 import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { offlineStorage } from './offlineStorage';
+import { CallDisposition, RespondentHistory } from '../types';
 // Note: offlineDataCache is imported dynamically in each method to avoid circular dependency
 
 const API_BASE_URL = 'https://convo.convergentview.com';
@@ -726,6 +727,8 @@ class ApiService {
       return {
         success: false,
         message: error.response?.data?.message || 'Failed to start interview',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
       };
     }
   }
@@ -897,7 +900,9 @@ class ApiService {
       if (!response.ok) {
         const errorText = await response.text();
         console.error('Upload failed:', response.status, errorText);
-        throw new Error(`Failed to upload audio: ${response.status} ${errorText}`);
+        const uploadError: any = new Error(`Failed to upload audio: ${response.status} ${errorText}`);
+        uploadError.status = response.status;
+        throw uploadError;
       }
       
       const result = await response.json();
@@ -914,12 +919,222 @@ class ApiService {
         return { 
           success: false,
           message: 'Network error - audio upload failed. Interview can be completed without audio.',
+          status: undefined as number | undefined,
         };
       }
       
       return {
         success: false,
         message: error.message || 'Failed to upload audio',
+        status: error.status as number | undefined,
+      };
+    }
+  }
+
+  // Chunked audio upload - start (or look up) a resumable upload for a recording
+  async initChunkedAudioUpload(sessionId: string, surveyId: string, fileName: string, mimeType: string, totalBytes: number, checksum: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/upload-audio/chunked/init`,
+        { sessionId, surveyId, fileName, mimeType, totalBytes, checksum },
+        { headers, timeout: 30000 }
+      );
+      return {
+        success: true,
+        data: response.data.data as { uploadId: string; receivedBytes: number; chunkSize?: number }
+      };
+    } catch (error: any) {
+      console.error('Init chunked audio upload error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to start audio upload',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+      };
+    }
+  }
+
+  // Chunked audio upload - how many bytes the server has confirmed
+  async getChunkedAudioUploadStatus(uploadId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(
+        `${this.baseURL}/api/survey-responses/upload-audio/chunked/${uploadId}`,
+        { headers, timeout: 30000 }
+      );
+      return {
+        success: true,
+        data: response.data.data as { receivedBytes: number }
+      };
+    } catch (error: any) {
+      console.error('Get chunked audio upload status error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to get audio upload status',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+      };
+    }
+  }
+
+  // Chunked audio upload - send one base64 chunk starting at offset
+  async uploadAudioChunk(uploadId: string, offset: number, base64Data: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.put(
+        `${this.baseURL}/api/survey-responses/upload-audio/chunked/${uploadId}`,
+        { offset, data: base64Data, encoding: 'base64' },
+        { headers, timeout: 60000 }
+      );
+      return {
+        success: true,
+        data: response.data.data as { receivedBytes: number }
+      };
+    } catch (error: any) {
+      console.error('Upload audio chunk error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to upload audio chunk',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+        receivedBytes: error.response?.data?.data?.receivedBytes as number | undefined, // Server offset on 409 offset mismatch
+      };
+    }
+  }
+
+  // Chunked audio upload - assemble the file on the server and verify its checksum
+  async completeChunkedAudioUpload(uploadId: string, checksum: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/upload-audio/chunked/${uploadId}/complete`,
+        { checksum, algorithm: 'md5' },
+        { headers, timeout: 60000 }
+      );
+      return {
+        success: true,
+        response: response.data.data as { audioUrl: string; size?: number; checksum?: string }
+      };
+    } catch (error: any) {
+      console.error('Complete chunked audio upload error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to complete audio upload',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+      };
+    }
+  }
+
+  // Sync reconciliation - server-side state of an already submitted response
+  // Looked up by responseId when we have one, otherwise by the session it was submitted from
+  async getResponseSyncState(lookup: { responseId?: string; sessionId?: string }) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(
+        `${this.baseURL}/api/survey-responses/sync-state`,
+        { headers, params: lookup, timeout: 30000 }
+      );
+      return {
+        success: true,
+        data: response.data.data as {
+          responseId: string;
+          status?: string;
+          responseCount?: number;
+          contentHash?: string;
+        }
+      };
+    } catch (error: any) {
+      console.error('Get response sync state error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to get response sync state',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+      };
+    }
+  }
+
+  // Attach audio to an interview that was completed without it (audio deferred until Wi-Fi)
+  async attachResponseAudio(responseId: string, audioData: {
+    audioUrl?: string;
+    fileSize?: number;
+    checksum?: string;
+    partialAudioUrls?: string[];
+    audioMissing?: boolean;
+    missingPartialAudioCount?: number;
+  }) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/${responseId}/audio`,
+        audioData,
+        { headers, timeout: 30000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Attach response audio error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to attach audio to response',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+      };
+    }
+  }
+
+  // Upload a photo or signature captured for a question
+  async uploadMediaFile(fileUri: string, mimeType: string, sessionId: string, surveyId: string, questionId: string) {
+    try {
+      const formData = new FormData();
+      const extension = mimeType === 'image/png' ? '.png' : '.jpg';
+      formData.append('media', {
+        uri: fileUri,
+        type: mimeType,
+        name: `media_${sessionId}_${questionId}_${Date.now()}${extension}`,
+      } as any);
+      formData.append('sessionId', sessionId);
+      formData.append('surveyId', surveyId);
+      formData.append('questionId', questionId);
+
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/upload-media`,
+        formData,
+        {
+          headers: { Authorization: headers.Authorization, 'Content-Type': 'multipart/form-data' },
+          timeout: 60000,
+        }
+      );
+      return { success: true, response: response.data.data as { mediaUrl: string; fileSize?: number } };
+    } catch (error: any) {
+      console.error('Upload media error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to upload media',
+        status: error.response?.status as number | undefined,
+        code: error.response?.data?.code,
+      };
+    }
+  }
+
+  // Signed URL for viewing an uploaded photo or signature
+  async getMediaSignedUrl(mediaUrl: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(`${this.baseURL}/api/survey-responses/media-signed-url`, {
+        headers,
+        params: { mediaUrl },
+        timeout: 15000,
+      });
+      return { success: true, signedUrl: response.data.signedUrl as string };
+    } catch (error: any) {
+      console.error('Get media signed URL error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || error.message || 'Failed to get media URL',
+        status: error.response?.status as number | undefined,
       };
     }
   }
@@ -935,11 +1150,12 @@ class ApiService {
       );
       return { success: true, response: response.data.data };
     } catch (error: any) {
-      // Check if this is a duplicate submission (409 Conflict)
+      // Check if this is a duplicate submission (409 Conflict reported as a duplicate)
       // This is not really an error - interview already exists on server
-      const isDuplicate = error.response?.status === 409 || 
-                         error.response?.data?.isDuplicate === true ||
-                         (error.response?.data?.message && 
+      // Other 409s (session state, version conflicts) are real failures
+      const isDuplicate = error.response?.data?.isDuplicate === true ||
+                         (error.response?.status === 409 &&
+                          !!error.response?.data?.message &&
                           error.response.data.message.toLowerCase().includes('duplicate'));
       
       if (isDuplicate) {
@@ -953,6 +1169,8 @@ class ApiService {
         success: false,
         message: error.response?.data?.message || 'Failed to complete interview',
         isDuplicate: isDuplicate, // Include flag for duplicate detection
+        status: error.response?.status as number | undefined, // HTTP status for sync error classification
+        code: error.response?.data?.code,
       };
     }
   }
@@ -1145,6 +1363,75 @@ class ApiService {
     }
   }
 
+  // Get completed-interview counts per quota cell ({ [quotaId:cellKey]: count })
+  // Counts go stale quickly, so the server is asked first and the cache is only a fallback
+  async getQuotaCounts(surveyId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(`${this.baseURL}/api/survey-responses/survey/${surveyId}/quota-counts`, {
+        headers,
+        timeout: 15000,
+      });
+      const data = {
+        counts: (response.data.data?.counts || {}) as Record<string, number>,
+        updatedAt: (response.data.data?.updatedAt || new Date().toISOString()) as string,
+      };
+
+      const cacheForSave = await this.getOfflineCache();
+      if (cacheForSave) {
+        try {
+          await cacheForSave.saveQuotaCounts(surveyId, data.counts, data.updatedAt);
+        } catch (cacheError) {
+          // Cache save failed, continue without caching
+        }
+      }
+      return { success: true, data };
+    } catch (error: any) {
+      const cacheForFallback = await this.getOfflineCache();
+      if (cacheForFallback) {
+        try {
+          const cachedData = await cacheForFallback.getQuotaCounts(surveyId);
+          if (cachedData) {
+            console.log('📦 Using cached quota counts for survey:', surveyId);
+            return { success: true, data: cachedData, fromCache: true };
+          }
+        } catch (cacheError) {
+          // Cache not available, continue with error
+        }
+      }
+
+      console.error('Get quota counts error:', error.response?.data || error.message);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to get quota counts',
+        status: error.response?.status as number | undefined,
+      };
+    }
+  }
+
+  // Reserve the question set of a new interview session - the server balances sets across interviewers
+  async reserveSetNumber(surveyId: string, mode: 'capi' | 'cati', sessionId?: string | null) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/survey/${surveyId}/reserve-set`,
+        { mode, sessionId: sessionId || undefined },
+        { headers, timeout: 10000 } // Session start waits on this - fall back to the local rotation instead of hanging
+      );
+      return {
+        success: true,
+        data: response.data.data
+      };
+    } catch (error: any) {
+      console.error('Reserve set number error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to reserve question set',
+        status: error.response?.status as number | undefined
+      };
+    }
+  }
+
   // Get last CATI set number for a survey (to alternate sets)
   // CRITICAL: Always fetch from API to ensure proper set rotation - do NOT use cached data
   async getLastCatiSetNumber(surveyId: string, forceRefresh: boolean = true) {
@@ -1173,7 +1460,10 @@ class ApiService {
       // Do NOT use cached data for CATI set numbers as rotation depends on latest completed interviews
       console.log('🔄 Fetching latest CATI set number from API for survey:', surveyId);
       const headers = await this.getHeaders();
-      const response = await axios.get(`${this.baseURL}/api/survey-responses/survey/${surveyId}/last-cati-set`, { headers });
+      const response = await axios.get(`${this.baseURL}/api/survey-responses/survey/${surveyId}/last-cati-set`, {
+        headers,
+        timeout: 10000, // Also awaited at session start (set reservation fallback)
+      });
       
       // Update cache with latest data (for reference, but we won't use it for CATI)
       const cacheForSave = await this.getOfflineCache();
@@ -1553,12 +1843,13 @@ class ApiService {
   }
 
   // CATI Interview API methods
-  async startCatiInterview(surveyId: string) {
+  // queueId starts the interview with a specific queue entry (a callback) instead of the next one in the queue
+  async startCatiInterview(surveyId: string, queueId?: string) {
     try {
       const headers = await this.getHeaders();
       const response = await axios.post(
         `${this.baseURL}/api/cati-interview/start/${surveyId}`,
-        {},
+        queueId ? { queueId } : {},
         { headers }
       );
       
@@ -1587,6 +1878,29 @@ class ApiService {
     }
   }
 
+  // Previous call attempts, notes and contact preferences of a CATI queue entry's respondent
+  // Keyed by the queue entry ID (respondent.id from start-cati, as for make-call) - the server
+  // looks up the respondent behind it, so attempts from earlier queue entries are included
+  async getCatiRespondentHistory(queueId: string): Promise<{ success: boolean; data?: RespondentHistory; message?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(`${this.baseURL}/api/cati-interview/respondent-history/${queueId}`, {
+        headers,
+        timeout: 10000,
+      });
+      return {
+        success: true,
+        data: response.data.data
+      };
+    } catch (error: any) {
+      console.error('Get CATI respondent history error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to fetch respondent history'
+      };
+    }
+  }
+
   async makeCallToRespondent(queueId: string) {
     try {
       const headers = await this.getHeaders();
@@ -1609,7 +1923,7 @@ class ApiService {
     }
   }
 
-  async abandonCatiInterview(queueId: string, reason?: string, notes?: string, callLaterDate?: string, callStatus?: string) {
+  async abandonCatiInterview(queueId: string, reason?: string, notes?: string, callLaterDate?: string, callStatus?: string, disposition?: CallDisposition) {
     try {
       const headers = await this.getHeaders();
       const response = await axios.post(
@@ -1618,7 +1932,8 @@ class ApiService {
           reason,
           notes,
           callLaterDate,
-          callStatus // Pass call status for stats tracking
+          callStatus, // Pass call status for stats tracking
+          disposition // Call outcome with its AAPOR category
         },
         { headers }
       );
@@ -1631,7 +1946,32 @@ class ApiService {
       return {
         success: false,
         message: error.response?.data?.message || 'Failed to abandon interview',
-        error: error.response?.data
+        error: error.response?.data,
+        status: error.response?.status as number | undefined
+      };
+    }
+  }
+
+  // Hand a CATI queue entry back without dialing it - no call attempt or abandonment is recorded,
+  // the entry just returns to the queue and the started session is discarded
+  async releaseCatiRespondent(queueId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/cati-interview/release/${queueId}`,
+        {},
+        { headers, timeout: 10000 }
+      );
+      return {
+        success: true,
+        data: response.data.data
+      };
+    } catch (error: any) {
+      console.error('Release CATI respondent error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to release respondent',
+        status: error.response?.status as number | undefined
       };
     }
   }
@@ -1656,7 +1996,8 @@ class ApiService {
       return {
         success: false,
         message: error.response?.data?.message || 'Failed to complete interview',
-        error: error.response?.data
+        error: error.response?.data,
+        status: error.response?.status as number | undefined
       };
     }
   }
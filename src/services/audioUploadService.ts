@@ -0,0 +1,198 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { apiService } from './api';
+import { offlineStorage, OfflineInterview, AudioUploadState } from './offlineStorage';
+import { encryptionService } from './encryptionService';
+import { SyncError, syncErrorFromResult, AUDIO_MISSING_CODE } from '../utils/syncErrors';
+
+// 256 KB per request keeps each chunk small enough to survive a 2G link
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+
+export interface AudioUploadResult {
+  audioUrl: string;
+  fileSize: number;
+  checksum: string;
+}
+
+class AudioUploadService {
+  /**
+   * Upload an interview recording, resuming from the last server-confirmed chunk
+   * Falls back to a single multipart request when the server has no chunked endpoint
+   * Throws a SyncError on failure; progress is persisted on the interview record
+   * Encrypted offline copies are decrypted to a temporary file for the duration of the upload
+   * A missing or empty recording fails with AUDIO_MISSING_CODE
+   */
+  async upload(interview: OfflineInterview, audioPath: string, sessionId: string): Promise<AudioUploadResult> {
+    const fileInfo = await FileSystem.getInfoAsync(audioPath);
+    if (!fileInfo.exists || !fileInfo.size) {
+      throw new SyncError('validation_rejected', `Audio file is missing or empty at path: ${audioPath}`, undefined, AUDIO_MISSING_CODE);
+    }
+    return encryptionService.withDecryptedFile(audioPath, (plainPath) =>
+      this.uploadPlainFile(interview, plainPath, sessionId)
+    );
+  }
+
+  private async uploadPlainFile(interview: OfflineInterview, audioPath: string, sessionId: string): Promise<AudioUploadResult> {
+    const chunkedResult = await this.uploadChunked(interview, audioPath, sessionId);
+    if (chunkedResult) {
+      return chunkedResult;
+    }
+
+    console.log('ℹ️ Chunked audio upload not available - falling back to single request upload');
+    const uploadResult = await apiService.uploadAudioFile(audioPath, sessionId, interview.surveyId);
+    if (!uploadResult.success || !uploadResult.response?.audioUrl) {
+      throw syncErrorFromResult(uploadResult, 'Audio upload failed');
+    }
+    if (uploadResult.response.audioUrl.startsWith('mock://')) {
+      throw new SyncError('validation_rejected', 'Audio upload returned invalid mock URL');
+    }
+    return {
+      audioUrl: uploadResult.response.audioUrl,
+      fileSize: uploadResult.response.size || 0,
+      checksum: '',
+    };
+  }
+
+  /**
+   * Chunked upload with server-acknowledged offsets
+   * Returns null if the server does not support chunked uploads
+   */
+  private async uploadChunked(
+    interview: OfflineInterview,
+    audioPath: string,
+    sessionId: string
+  ): Promise<AudioUploadResult | null> {
+    const fileInfo = await FileSystem.getInfoAsync(audioPath, { md5: true });
+    if (!fileInfo.exists) {
+      throw new SyncError('validation_rejected', `Audio file does not exist at path: ${audioPath}`, undefined, AUDIO_MISSING_CODE);
+    }
+    if (!fileInfo.size) {
+      throw new SyncError('validation_rejected', 'Audio file is empty (0 bytes)', undefined, AUDIO_MISSING_CODE);
+    }
+
+    const totalBytes = fileInfo.size;
+    const checksum = fileInfo.md5 || '';
+    let state = await this.resolveUploadState(interview, totalBytes, checksum);
+
+    if (!state) {
+      const fileName = `interview_${sessionId}_${Date.now()}.${audioPath.split('.').pop() || 'm4a'}`;
+      const initResult = await apiService.initChunkedAudioUpload(
+        sessionId,
+        interview.surveyId,
+        fileName,
+        this.getMimeType(audioPath),
+        totalBytes,
+        checksum
+      );
+      if (!initResult.success || !initResult.data?.uploadId) {
+        if (initResult.status === 404) {
+          return null;
+        }
+        throw syncErrorFromResult(initResult, 'Failed to start audio upload');
+      }
+      state = {
+        uploadId: initResult.data.uploadId,
+        confirmedBytes: initResult.data.receivedBytes || 0,
+        totalBytes,
+        chunkSize: initResult.data.chunkSize || DEFAULT_CHUNK_SIZE,
+        checksum,
+      };
+      await this.saveUploadState(interview, state);
+      console.log(`📤 Started chunked audio upload ${state.uploadId} (${totalBytes} bytes)`);
+    } else {
+      console.log(`📤 Resuming chunked audio upload ${state.uploadId} at ${state.confirmedBytes}/${totalBytes} bytes`);
+    }
+
+    while (state.confirmedBytes < totalBytes) {
+      const offset = state.confirmedBytes;
+      const length = Math.min(state.chunkSize, totalBytes - offset);
+      const chunk = await FileSystem.readAsStringAsync(audioPath, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length,
+      });
+
+      const chunkResult = await apiService.uploadAudioChunk(state.uploadId, offset, chunk);
+      if (!chunkResult.success || !chunkResult.data) {
+        // 409 = our offset disagrees with the server's; continue from what the server has
+        if (chunkResult.status === 409 && typeof chunkResult.receivedBytes === 'number') {
+          console.log(`⚠️ Audio chunk offset mismatch - server has ${chunkResult.receivedBytes} bytes`);
+          state.confirmedBytes = chunkResult.receivedBytes;
+          await this.saveUploadState(interview, state);
+          continue;
+        }
+        throw syncErrorFromResult(chunkResult, 'Failed to upload audio chunk');
+      }
+
+      if (chunkResult.data.receivedBytes <= offset) {
+        throw new SyncError('server_error', 'Server did not acknowledge audio chunk');
+      }
+      state.confirmedBytes = Math.min(chunkResult.data.receivedBytes, totalBytes);
+      await this.saveUploadState(interview, state);
+      console.log(`📤 Audio upload progress: ${state.confirmedBytes}/${totalBytes} bytes`);
+    }
+
+    const completeResult = await apiService.completeChunkedAudioUpload(state.uploadId, checksum);
+    const serverChecksum = completeResult.success ? completeResult.response?.checksum : undefined;
+    const checksumMismatch = (!completeResult.success && completeResult.code === 'CHECKSUM_MISMATCH') ||
+      (!!serverChecksum && !!checksum && serverChecksum !== checksum);
+    if (checksumMismatch) {
+      // The assembled file is corrupt - discard the upload so the next attempt starts from zero
+      console.error(`❌ Audio checksum mismatch for upload ${state.uploadId} - restarting upload`);
+      await this.saveUploadState(interview, null);
+      throw new SyncError('server_error', 'Audio checksum mismatch - upload will restart');
+    }
+    if (!completeResult.success || !completeResult.response?.audioUrl) {
+      throw syncErrorFromResult(completeResult, 'Failed to complete audio upload');
+    }
+
+    console.log(`✅ Chunked audio upload verified (md5 ${checksum})`);
+    return {
+      audioUrl: completeResult.response.audioUrl,
+      fileSize: completeResult.response.size || totalBytes,
+      checksum,
+    };
+  }
+
+  /**
+   * Reuse a persisted upload if it is for the same file and still known to the server
+   */
+  private async resolveUploadState(
+    interview: OfflineInterview,
+    totalBytes: number,
+    checksum: string
+  ): Promise<AudioUploadState | null> {
+    const state = interview.audioUpload;
+    if (!state) {
+      return null;
+    }
+    if (state.totalBytes !== totalBytes || state.checksum !== checksum) {
+      console.log('⚠️ Audio file changed since last upload attempt - starting a new upload');
+      return null;
+    }
+
+    // The server offset is authoritative - a chunk may have landed after we last saved
+    const statusResult = await apiService.getChunkedAudioUploadStatus(state.uploadId);
+    if (!statusResult.success || !statusResult.data) {
+      if (statusResult.status === 404) {
+        console.log(`⚠️ Upload ${state.uploadId} expired on server - starting a new upload`);
+        return null;
+      }
+      throw syncErrorFromResult(statusResult, 'Failed to get audio upload status');
+    }
+    return { ...state, confirmedBytes: statusResult.data.receivedBytes || 0 };
+  }
+
+  private async saveUploadState(interview: OfflineInterview, state: AudioUploadState | null): Promise<void> {
+    interview.audioUpload = state ? { ...state } : null;
+    await offlineStorage.saveOfflineInterview(interview);
+  }
+
+  private getMimeType(audioPath: string): string {
+    const pathLower = audioPath.toLowerCase();
+    if (pathLower.endsWith('.wav')) return 'audio/wav';
+    if (pathLower.endsWith('.webm')) return 'audio/webm';
+    return 'audio/m4a';
+  }
+}
+
+export const audioUploadService = new AudioUploadService();
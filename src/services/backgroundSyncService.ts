@@ -0,0 +1,234 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as Battery from 'expo-battery';
+import * as TaskManager from 'expo-task-manager';
+import { offlineStorage } from './offlineStorage';
+import { syncService, SyncResult } from './syncService';
+import { isUnmeteredConnection } from '../utils/syncPolicy';
+
+const BACKGROUND_SYNC_TASK = 'background-interview-sync';
+const SETTINGS_KEY = 'background_sync_settings';
+
+// The OS treats this as a lower bound (15 minutes is the minimum it allows)
+const BACKGROUND_SYNC_INTERVAL_MINUTES = 15;
+// Connectivity flaps a lot on the move - don't start a new sync on every reconnect
+const MIN_SYNC_GAP_MS = 30 * 1000;
+
+// What may go over a metered network is the interviewer's sync policy (utils/syncPolicy),
+// shared with foreground sync - background sync adds no network rule of its own
+export interface BackgroundSyncSettings {
+  pauseInBatterySaver: boolean; // Skip syncs while battery saver is on and the phone is not charging
+}
+
+const DEFAULT_SETTINGS: BackgroundSyncSettings = {
+  pauseInBatterySaver: true,
+};
+
+type SyncListener = (result: SyncResult, reason: string) => void;
+
+/**
+ * Runs offline interview sync outside the dashboard: as an OS background task,
+ * and whenever connectivity returns while the app process is alive
+ */
+class BackgroundSyncService {
+  private netInfoUnsubscribe: (() => void) | null = null;
+  private wasOffline = false;
+  private wasUnmetered = false;
+  private lastSyncTime = 0;
+  private listeners = new Set<SyncListener>();
+
+  /**
+   * Register the background task and start watching connectivity (after login)
+   */
+  async start(): Promise<void> {
+    if (!this.netInfoUnsubscribe) {
+      this.netInfoUnsubscribe = NetInfo.addEventListener((state) => this.handleNetworkChange(state));
+    }
+
+    try {
+      const status = await BackgroundTask.getStatusAsync();
+      if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+        console.log('⚠️ Background tasks are restricted on this device - sync runs only while the app is open');
+        return;
+      }
+      if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) {
+        await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+          minimumInterval: BACKGROUND_SYNC_INTERVAL_MINUTES,
+        });
+        console.log(`✅ Background sync task registered (every ${BACKGROUND_SYNC_INTERVAL_MINUTES}+ minutes)`);
+      }
+    } catch (error) {
+      console.error('❌ Error registering background sync task:', error);
+    }
+  }
+
+  /**
+   * Stop background sync (logout)
+   */
+  async stop(): Promise<void> {
+    if (this.netInfoUnsubscribe) {
+      this.netInfoUnsubscribe();
+      this.netInfoUnsubscribe = null;
+    }
+
+    try {
+      if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+        console.log('✅ Background sync task unregistered');
+      }
+    } catch (error) {
+      console.error('❌ Error unregistering background sync task:', error);
+    }
+  }
+
+  /**
+   * Sync as soon as the device comes back online, and again when it reaches Wi-Fi
+   * (audio held back by the sync policy is waiting for that)
+   */
+  private handleNetworkChange(state: NetInfoState): void {
+    const isConnected = !!state.isConnected && state.isInternetReachable !== false;
+    const isUnmetered = isConnected && isUnmeteredConnection(state);
+    const wasOffline = this.wasOffline;
+    const wasUnmetered = this.wasUnmetered;
+    this.wasOffline = !isConnected;
+    this.wasUnmetered = isUnmetered;
+
+    if (wasOffline && isConnected) {
+      console.log('🔄 Device came online - triggering background sync');
+      this.runSync('network_online').catch((error) => {
+        console.error('❌ Error triggering sync on network online:', error);
+      });
+    } else if (!wasUnmetered && isUnmetered) {
+      console.log('🔄 Device switched to an unmetered network - triggering background sync');
+      this.runSync('network_unmetered').catch((error) => {
+        console.error('❌ Error triggering sync on unmetered network:', error);
+      });
+    }
+  }
+
+  /**
+   * Get background sync settings
+   */
+  async getSettings(): Promise<BackgroundSyncSettings> {
+    try {
+      const data = await AsyncStorage.getItem(SETTINGS_KEY);
+      return data ? { ...DEFAULT_SETTINGS, ...JSON.parse(data) } : { ...DEFAULT_SETTINGS };
+    } catch (error) {
+      console.error('❌ Error reading background sync settings:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  /**
+   * Update background sync settings
+   */
+  async updateSettings(updates: Partial<BackgroundSyncSettings>): Promise<BackgroundSyncSettings> {
+    const settings = { ...(await this.getSettings()), ...updates };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  /**
+   * Whether an automatic sync may run now (network and battery saver)
+   * Large audio on metered networks is held back per interview by the sync policy
+   * @returns The reason when sync is not allowed
+   */
+  async checkSyncConditions(): Promise<{ allowed: boolean; reason?: string }> {
+    const settings = await this.getSettings();
+
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected || netState.isInternetReachable === false) {
+      return { allowed: false, reason: 'device is offline' };
+    }
+
+    if (settings.pauseInBatterySaver) {
+      try {
+        const powerState = await Battery.getPowerStateAsync();
+        const isCharging = powerState.batteryState === Battery.BatteryState.CHARGING ||
+          powerState.batteryState === Battery.BatteryState.FULL;
+        if (powerState.lowPowerMode && !isCharging) {
+          return { allowed: false, reason: 'battery saver is on' };
+        }
+      } catch (error) {
+        // Battery state is best-effort - never block sync because it can't be read
+        console.error('❌ Error reading battery state:', error);
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Run an automatic sync if conditions allow it
+   * @returns The sync result, or null if the sync was skipped
+   */
+  async runSync(reason: string): Promise<SyncResult | null> {
+    if (syncService.isSyncInProgress()) {
+      console.log(`⏭️ Skipping background sync (${reason}) - sync already in progress`);
+      return null;
+    }
+
+    const now = Date.now();
+    if (now - this.lastSyncTime < MIN_SYNC_GAP_MS) {
+      console.log(`⏭️ Skipping background sync (${reason}) - too soon since last sync`);
+      return null;
+    }
+
+    const conditions = await this.checkSyncConditions();
+    if (!conditions.allowed) {
+      console.log(`⏭️ Skipping background sync (${reason}) - ${conditions.reason}`);
+      return null;
+    }
+
+    // 'syncing' rows were left behind by a run the OS killed - they resume from their stage
+    // 'audio_deferred' rows are picked up by syncService once the sync policy allows their audio
+    const pendingInterviews = await offlineStorage.getInterviewsByStatus(['pending', 'failed', 'syncing', 'audio_deferred']);
+    if (pendingInterviews.length === 0) {
+      console.log(`⏭️ Skipping background sync (${reason}) - no pending interviews`);
+      return null;
+    }
+
+    console.log(`🔄 Starting background sync (${reason}) - ${pendingInterviews.length} pending interviews`);
+    this.lastSyncTime = now;
+    const result = await syncService.syncOfflineInterviews();
+    this.notifyListeners(result, reason);
+    return result;
+  }
+
+  /**
+   * Listen for completed automatic syncs (e.g. to refresh the dashboard)
+   * @returns Unsubscribe function
+   */
+  addSyncListener(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(result: SyncResult, reason: string): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(result, reason);
+      } catch (error) {
+        console.error('❌ Error in sync listener:', error);
+      }
+    });
+  }
+}
+
+export const backgroundSyncService = new BackgroundSyncService();
+
+// Must be defined at module scope so the task exists when the OS launches the app headless
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  try {
+    const result = await backgroundSyncService.runSync('background_task');
+    return result && !result.success
+      ? BackgroundTask.BackgroundTaskResult.Failed
+      : BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('❌ Background sync task error:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
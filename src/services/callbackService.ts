@@ -0,0 +1,214 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { encryptionService } from './encryptionService';
+import { CatiCallback, getReminderTime, sortCallbacks } from '../utils/catiCallbacks';
+
+// One list per device - it is wiped with the rest of the offline data at logout
+const CALLBACKS_KEY = 'cati_callbacks';
+const REMINDER_CHANNEL_ID = 'cati-callbacks';
+const REMINDER_TYPE = 'cati_callback';
+
+// Show callback reminders even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * The interviewer's personal call-back list
+ * "Call Later" outcomes are kept here with a local reminder, so the interviewer who spoke
+ * to the respondent calls them back at the time they asked for
+ */
+class CallbackService {
+  /**
+   * Throws if the stored list can't be read - every write starts from this list,
+   * so an unreadable list must never be taken as empty and overwritten
+   */
+  private async readCallbacks(): Promise<CatiCallback[]> {
+    try {
+      const data = await AsyncStorage.getItem(CALLBACKS_KEY);
+      return data ? JSON.parse(await encryptionService.decryptString(data)) : [];
+    } catch (error) {
+      console.error('❌ Error reading CATI callbacks:', error);
+      throw error;
+    }
+  }
+
+  private async writeCallbacks(callbacks: CatiCallback[]): Promise<void> {
+    await AsyncStorage.setItem(CALLBACKS_KEY, await encryptionService.encryptString(JSON.stringify(callbacks)));
+  }
+
+  /**
+   * Get the call-back list, earliest first
+   */
+  async getCallbacks(): Promise<CatiCallback[]> {
+    return sortCallbacks(await this.readCallbacks());
+  }
+
+  /**
+   * Add a callback (replacing any earlier one for the same queue entry) and schedule its reminder
+   */
+  async scheduleCallback(
+    callback: Omit<CatiCallback, 'id' | 'notificationId' | 'createdAt'>
+  ): Promise<CatiCallback | null> {
+    try {
+      await this.removeCallbacksForQueue(callback.queueId);
+      const entry: CatiCallback = {
+        ...callback,
+        id: `callback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        notificationId: null,
+        createdAt: new Date().toISOString(),
+      };
+      entry.notificationId = await this.scheduleReminder(entry);
+      await this.writeCallbacks([...(await this.readCallbacks()), entry]);
+      console.log(`✅ Callback scheduled for ${entry.dueAt} (queue entry ${entry.queueId})`);
+      return entry;
+    } catch (error) {
+      console.error('❌ Error scheduling CATI callback:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a callback and cancel its reminder
+   */
+  async removeCallback(callbackId: string): Promise<void> {
+    const callbacks = await this.readCallbacks();
+    const callback = callbacks.find((entry) => entry.id === callbackId);
+    if (!callback) {
+      return;
+    }
+    await this.cancelReminder(callback.notificationId);
+    await this.writeCallbacks(callbacks.filter((entry) => entry.id !== callbackId));
+  }
+
+  /**
+   * Remove the callbacks of a queue entry - the respondent was called again
+   */
+  async removeCallbacksForQueue(queueId: string): Promise<void> {
+    try {
+      const callbacks = await this.readCallbacks();
+      const matching = callbacks.filter((entry) => entry.queueId === queueId);
+      if (matching.length === 0) {
+        return;
+      }
+      for (const callback of matching) {
+        await this.cancelReminder(callback.notificationId);
+      }
+      await this.writeCallbacks(callbacks.filter((entry) => entry.queueId !== queueId));
+      console.log(`✅ Callback for queue entry ${queueId} resolved`);
+    } catch (error) {
+      console.error('❌ Error resolving CATI callback:', error);
+    }
+  }
+
+  /**
+   * Re-encrypt the callback list with the current key (key rotation)
+   */
+  async reencrypt(): Promise<void> {
+    const data = await AsyncStorage.getItem(CALLBACKS_KEY);
+    if (data && await encryptionService.needsReencryption(data)) {
+      const plaintext = await encryptionService.decryptString(data);
+      await AsyncStorage.setItem(CALLBACKS_KEY, await encryptionService.encryptString(plaintext));
+    }
+  }
+
+  /**
+   * Remove every callback and cancel their reminders (logout)
+   */
+  async clear(): Promise<void> {
+    try {
+      const callbacks = await this.readCallbacks();
+      for (const callback of callbacks) {
+        await this.cancelReminder(callback.notificationId);
+      }
+    } catch (error) {
+      // The list goes anyway - its reminders can't be looked up, so cancel every scheduled one
+      await Notifications.cancelAllScheduledNotificationsAsync().catch(() => {});
+    }
+    await AsyncStorage.removeItem(CALLBACKS_KEY);
+  }
+
+  /**
+   * Call a function when the interviewer taps a callback reminder
+   * Also picks up the reminder that opened the app
+   * @returns Function to stop listening
+   */
+  addReminderTapListener(listener: (queueId: string) => void): () => void {
+    const handleResponse = (response: Notifications.NotificationResponse | null) => {
+      const data = response?.notification.request.content.data;
+      if (data?.type === REMINDER_TYPE && typeof data.queueId === 'string') {
+        listener(data.queueId);
+      }
+    };
+
+    Notifications.getLastNotificationResponseAsync()
+      .then((response) => {
+        handleResponse(response);
+        if (response) {
+          Notifications.clearLastNotificationResponseAsync().catch(() => {});
+        }
+      })
+      .catch((error) => console.error('❌ Error reading last notification response:', error));
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }
+
+  private async scheduleReminder(callback: CatiCallback): Promise<string | null> {
+    const reminderTime = getReminderTime(callback.dueAt);
+    if (!reminderTime) {
+      return null;
+    }
+
+    try {
+      const permissions = await Notifications.getPermissionsAsync();
+      const granted = permissions.granted || (await Notifications.requestPermissionsAsync()).granted;
+      if (!granted) {
+        console.log('⚠️ Notification permission denied - callback kept without a reminder');
+        return null;
+      }
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+          name: 'Callback reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      const dueTime = new Date(callback.dueAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      return await Notifications.scheduleNotificationAsync({
+        content: {
+          title: 'Callback due',
+          body: `Call back ${callback.respondentName || 'respondent'} at ${dueTime}${callback.surveyName ? ` - ${callback.surveyName}` : ''}`,
+          data: { type: REMINDER_TYPE, callbackId: callback.id, queueId: callback.queueId },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminderTime,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+    } catch (error) {
+      console.error('❌ Error scheduling callback reminder:', error);
+      return null;
+    }
+  }
+
+  private async cancelReminder(notificationId: string | null): Promise<void> {
+    if (!notificationId) {
+      return;
+    }
+    try {
+      await Notifications.cancelScheduledNotificationAsync(notificationId);
+    } catch (error) {
+      console.error('❌ Error cancelling callback reminder:', error);
+    }
+  }
+}
+
+export const callbackService = new CallbackService();
@@ -0,0 +1,75 @@
+import { callbackService } from './callbackService';
+import { encryptionService } from './encryptionService';
+import { interviewDatabase } from './interviewDatabase';
+import { interviewJournal } from './interviewJournal';
+import { offlineStorage } from './offlineStorage';
+
+/**
+ * Ties the offline data key to the interviewer's session:
+ * derive (and if needed rotate) the key at login, wipe everything at logout
+ */
+class DataProtectionService {
+  /**
+   * Set up the offline data key after a successful login
+   * Re-encrypts existing offline data if it was written under another key
+   * (device key from before login, or the interviewer's password changed)
+   */
+  async onLogin(userId: string, password: string): Promise<void> {
+    try {
+      // Finish a rotation interrupted by a crash before starting another one
+      if (await encryptionService.hasPendingRotation()) {
+        await this.rotateKey();
+      }
+      const needsRotation = await encryptionService.setupUserKey(userId, password);
+      if (needsRotation) {
+        await this.rotateKey();
+      }
+    } catch (error) {
+      // Login must not fail because of this - data stays readable under the previous key
+      console.error('❌ Error setting up offline data encryption:', error);
+    }
+  }
+
+  /**
+   * Re-encrypt all offline data with the current key, then drop the previous key
+   */
+  private async rotateKey(): Promise<void> {
+    console.log('🔄 Re-encrypting offline data with new key...');
+    const rowCount = await interviewDatabase.reencryptAll();
+    await offlineStorage.reencryptAudioFiles();
+    await interviewJournal.reencrypt();
+    await callbackService.reencrypt();
+    await encryptionService.finishKeyRotation();
+    console.log(`✅ Offline data re-encrypted (${rowCount} interviews)`);
+  }
+
+  /**
+   * Count of offline interviews that would be lost by a logout wipe
+   * Throws if storage can't be read - an unknown count must never be taken as nothing to lose
+   */
+  async getUnsyncedInterviewCount(): Promise<number> {
+    return interviewDatabase.countByStatus(['pending', 'syncing', 'failed', 'needs_attention', 'conflict', 'audio_deferred']);
+  }
+
+  /**
+   * Delete all offline interview data, audio and keys (logout)
+   */
+  async wipeOnLogout(userId?: string): Promise<void> {
+    try {
+      await offlineStorage.clearAllOfflineData();
+      await offlineStorage.deleteAllAudioFiles();
+      await interviewJournal.clear();
+      await callbackService.clear();
+    } catch (error) {
+      console.error('❌ Error wiping offline data on logout:', error);
+    }
+    // Drop keys even if deleting data failed - whatever is left becomes unreadable
+    try {
+      await encryptionService.wipeKeys(userId);
+    } catch (error) {
+      console.error('❌ Error wiping encryption keys on logout:', error);
+    }
+  }
+}
+
+export const dataProtectionService = new DataProtectionService();
@@ -0,0 +1,383 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { File } from 'expo-file-system';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes, utf8ToBytes, bytesToUtf8, concatBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
+// Secure storage keys (Android Keystore / iOS Keychain backed)
+const SECURE_KEYS = {
+  CURRENT_KEY: 'offline_data_key',
+  PREVIOUS_KEY: 'offline_data_key_previous', // Kept until a key rotation has re-encrypted everything
+  SALT_PREFIX: 'offline_key_salt_',
+};
+
+// Prefix of encrypted strings: enc:v1:<keyId>:<base64(nonce + ciphertext)>
+const STRING_PREFIX = 'enc:v1:';
+
+// Encrypted files: MAGIC + keyId (8 bytes), then frames of [length (4 bytes)][nonce][ciphertext]
+const FILE_MAGIC = utf8ToBytes('OPNENC1');
+const KEY_ID_BYTES = 8;
+const NONCE_BYTES = 12;
+const FILE_CHUNK_SIZE = 64 * 1024; // Plaintext bytes per frame - keeps memory flat for long recordings
+
+// Iterations tuned so derivation stays under a few seconds on low-end Android phones
+const PBKDF2_ITERATIONS = 50000;
+
+export const ENCRYPTED_FILE_EXTENSION = '.enc';
+
+interface DataKey {
+  keyId: string; // First 8 bytes of sha256(key), hex
+  key: Uint8Array;
+  userId: string | null; // null = random device key created before the user logged in on this version
+}
+
+interface StoredKey {
+  keyId: string;
+  key: string;
+  userId: string | null;
+}
+
+/**
+ * Encryption at rest for offline interview data (AES-256-GCM)
+ * The data key is derived from the interviewer's password at login and kept in secure storage,
+ * so offline data can still be read between logins without the password.
+ */
+class EncryptionService {
+  private currentKey: DataKey | null = null;
+  private previousKey: DataKey | null = null;
+  private keysLoaded: Promise<void> | null = null;
+
+  private loadKeys(): Promise<void> {
+    if (!this.keysLoaded) {
+      this.keysLoaded = (async () => {
+        this.currentKey = await this.readKey(SECURE_KEYS.CURRENT_KEY);
+        this.previousKey = await this.readKey(SECURE_KEYS.PREVIOUS_KEY);
+      })().catch((error) => {
+        this.keysLoaded = null;
+        throw error;
+      });
+    }
+    return this.keysLoaded;
+  }
+
+  private async readKey(storeKey: string): Promise<DataKey | null> {
+    const data = await SecureStore.getItemAsync(storeKey);
+    if (!data) {
+      return null;
+    }
+    const stored: StoredKey = JSON.parse(data);
+    return { keyId: stored.keyId, key: hexToBytes(stored.key), userId: stored.userId };
+  }
+
+  private async writeKey(storeKey: string, dataKey: DataKey): Promise<void> {
+    const stored: StoredKey = { keyId: dataKey.keyId, key: bytesToHex(dataKey.key), userId: dataKey.userId };
+    await SecureStore.setItemAsync(storeKey, JSON.stringify(stored), {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+  }
+
+  private createDataKey(key: Uint8Array, userId: string | null): DataKey {
+    return { keyId: bytesToHex(sha256(key).slice(0, KEY_ID_BYTES)), key, userId };
+  }
+
+  /**
+   * Key used for new writes. Falls back to a random device key when nobody has logged in
+   * since encryption was introduced, so data is never written in plaintext.
+   */
+  private async getCurrentKey(): Promise<DataKey> {
+    await this.loadKeys();
+    if (!this.currentKey) {
+      const deviceKey = this.createDataKey(Crypto.getRandomBytes(32), null);
+      await this.writeKey(SECURE_KEYS.CURRENT_KEY, deviceKey);
+      this.currentKey = deviceKey;
+      console.log('🔐 Created device encryption key (will be replaced at next login)');
+    }
+    return this.currentKey;
+  }
+
+  private async getKeyById(keyId: string): Promise<DataKey> {
+    await this.loadKeys();
+    if (this.currentKey?.keyId === keyId) return this.currentKey;
+    if (this.previousKey?.keyId === keyId) return this.previousKey;
+    throw new Error(`Encryption key ${keyId} is not available on this device`);
+  }
+
+  /**
+   * Derive the user's data key from their password and make it the current key
+   * If data was encrypted with a different key (device key, or the password changed),
+   * that key is kept as the previous key until rotation finishes.
+   * Any earlier pending rotation must be finished before calling this.
+   * @returns True if existing data needs to be re-encrypted with the new key
+   */
+  async setupUserKey(userId: string, password: string): Promise<boolean> {
+    await this.loadKeys();
+
+    const saltStoreKey = `${SECURE_KEYS.SALT_PREFIX}${userId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+    let saltHex = await SecureStore.getItemAsync(saltStoreKey);
+    if (!saltHex) {
+      saltHex = bytesToHex(Crypto.getRandomBytes(16));
+      await SecureStore.setItemAsync(saltStoreKey, saltHex);
+    }
+
+    const derived = await pbkdf2Async(sha256, utf8ToBytes(password), hexToBytes(saltHex), {
+      c: PBKDF2_ITERATIONS,
+      dkLen: 32,
+    });
+    const userKey = this.createDataKey(derived, userId);
+
+    if (this.currentKey?.keyId === userKey.keyId) {
+      return false;
+    }
+    if (this.previousKey) {
+      throw new Error('Finish the pending key rotation before installing a new key');
+    }
+
+    if (this.currentKey) {
+      await this.writeKey(SECURE_KEYS.PREVIOUS_KEY, this.currentKey);
+      this.previousKey = this.currentKey;
+    }
+    await this.writeKey(SECURE_KEYS.CURRENT_KEY, userKey);
+    this.currentKey = userKey;
+    console.log('🔐 Offline data key derived for user');
+    return !!this.previousKey;
+  }
+
+  /**
+   * Forget the previous key once everything has been re-encrypted with the current one
+   */
+  async finishKeyRotation(): Promise<void> {
+    await SecureStore.deleteItemAsync(SECURE_KEYS.PREVIOUS_KEY);
+    this.previousKey = null;
+    console.log('✅ Offline data key rotation complete');
+  }
+
+  /**
+   * Whether a key rotation was started but not finished
+   */
+  async hasPendingRotation(): Promise<boolean> {
+    await this.loadKeys();
+    return !!this.previousKey;
+  }
+
+  /**
+   * Delete all keys (logout). Anything still encrypted becomes unreadable.
+   */
+  async wipeKeys(userId?: string): Promise<void> {
+    await SecureStore.deleteItemAsync(SECURE_KEYS.CURRENT_KEY);
+    await SecureStore.deleteItemAsync(SECURE_KEYS.PREVIOUS_KEY);
+    if (userId) {
+      await SecureStore.deleteItemAsync(`${SECURE_KEYS.SALT_PREFIX}${userId.replace(/[^A-Za-z0-9._-]/g, '_')}`);
+    }
+    this.currentKey = null;
+    this.previousKey = null;
+    this.keysLoaded = null;
+    console.log('🗑️ Offline data keys wiped');
+  }
+
+  // ========== Strings ==========
+
+  isEncryptedString(value: string): boolean {
+    return value.startsWith(STRING_PREFIX);
+  }
+
+  /**
+   * Encrypt a string with the current key
+   */
+  async encryptString(plaintext: string): Promise<string> {
+    const dataKey = await this.getCurrentKey();
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    const ciphertext = gcm(dataKey.key, nonce).encrypt(utf8ToBytes(plaintext));
+    return `${STRING_PREFIX}${dataKey.keyId}:${bytesToBase64(concatBytes(nonce, ciphertext))}`;
+  }
+
+  /**
+   * Decrypt a string written by encryptString. Plaintext written before encryption
+   * was introduced is returned unchanged.
+   */
+  async decryptString(value: string): Promise<string> {
+    if (!this.isEncryptedString(value)) {
+      return value;
+    }
+    const separator = value.indexOf(':', STRING_PREFIX.length);
+    const keyId = value.substring(STRING_PREFIX.length, separator);
+    const payload = base64ToBytes(value.substring(separator + 1));
+    const dataKey = await this.getKeyById(keyId);
+    const plaintext = gcm(dataKey.key, payload.subarray(0, NONCE_BYTES)).decrypt(payload.subarray(NONCE_BYTES));
+    return bytesToUtf8(plaintext);
+  }
+
+  /**
+   * Whether an encrypted string still needs re-encrypting with the current key
+   */
+  async needsReencryption(value: string): Promise<boolean> {
+    if (!this.isEncryptedString(value)) {
+      return true;
+    }
+    const dataKey = await this.getCurrentKey();
+    return !value.startsWith(`${STRING_PREFIX}${dataKey.keyId}:`);
+  }
+
+  // ========== Files ==========
+
+  isEncryptedFile(uri: string): boolean {
+    return uri.endsWith(ENCRYPTED_FILE_EXTENSION);
+  }
+
+  /**
+   * Encrypt a file with the current key, streaming it in chunks
+   */
+  async encryptFile(sourceUri: string, destUri: string): Promise<void> {
+    const dataKey = await this.getCurrentKey();
+    await this.transformFile(sourceUri, destUri, async (input, output) => {
+      output.writeBytes(concatBytes(FILE_MAGIC, hexToBytes(dataKey.keyId)));
+      while (remainingBytes(input) > 0) {
+        const chunk = input.readBytes(Math.min(FILE_CHUNK_SIZE, remainingBytes(input)));
+        const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+        const ciphertext = gcm(dataKey.key, nonce).encrypt(chunk);
+        output.writeBytes(concatBytes(uint32ToBytes(ciphertext.length), nonce, ciphertext));
+        await yieldToUi();
+      }
+    });
+  }
+
+  /**
+   * Decrypt a file written by encryptFile
+   */
+  async decryptFile(sourceUri: string, destUri: string): Promise<void> {
+    await this.transformFile(sourceUri, destUri, async (input, output) => {
+      const header = input.readBytes(FILE_MAGIC.length + KEY_ID_BYTES);
+      if (header.length !== FILE_MAGIC.length + KEY_ID_BYTES ||
+          bytesToUtf8(header.subarray(0, FILE_MAGIC.length)) !== bytesToUtf8(FILE_MAGIC)) {
+        throw new Error('Not an encrypted offline file');
+      }
+      const dataKey = await this.getKeyById(bytesToHex(header.subarray(FILE_MAGIC.length)));
+      while (remainingBytes(input) > 0) {
+        const lengthBytes = input.readBytes(4);
+        const nonce = input.readBytes(NONCE_BYTES);
+        const ciphertext = input.readBytes(bytesToUint32(lengthBytes));
+        output.writeBytes(gcm(dataKey.key, nonce).decrypt(ciphertext));
+        await yieldToUi();
+      }
+    });
+  }
+
+  /**
+   * Re-encrypt a file with the current key if it was written with another one
+   */
+  async reencryptFile(uri: string): Promise<void> {
+    const dataKey = await this.getCurrentKey();
+    const handle = new File(uri).open();
+    let header: Uint8Array;
+    try {
+      header = handle.readBytes(FILE_MAGIC.length + KEY_ID_BYTES);
+    } finally {
+      handle.close();
+    }
+    if (bytesToHex(header.subarray(FILE_MAGIC.length)) === dataKey.keyId) {
+      return;
+    }
+
+    const tempUri = `${uri}.rotating`;
+    const plainUri = `${uri}.plain`;
+    try {
+      await this.decryptFile(uri, plainUri);
+      await this.encryptFile(plainUri, tempUri);
+      // Overwrite only once the new copy is complete
+      new File(uri).delete();
+      new File(tempUri).move(new File(uri));
+    } finally {
+      deleteIfExists(plainUri);
+      deleteIfExists(tempUri);
+    }
+  }
+
+  /**
+   * Run an operation (e.g. an upload) against a temporary decrypted copy of a file
+   * The plaintext copy is always deleted afterwards. Unencrypted files are used as-is.
+   */
+  async withDecryptedFile<T>(uri: string, operation: (plainUri: string) => Promise<T>): Promise<T> {
+    if (!this.isEncryptedFile(uri)) {
+      return operation(uri);
+    }
+    const plainUri = uri.slice(0, -ENCRYPTED_FILE_EXTENSION.length);
+    try {
+      await this.decryptFile(uri, plainUri);
+      return await operation(plainUri);
+    } finally {
+      deleteIfExists(plainUri);
+    }
+  }
+
+  private async transformFile(
+    sourceUri: string,
+    destUri: string,
+    transform: (input: ReturnType<File['open']>, output: ReturnType<File['open']>) => Promise<void>
+  ): Promise<void> {
+    const destFile = new File(destUri);
+    if (destFile.exists) {
+      destFile.delete();
+    }
+    destFile.create();
+
+    const input = new File(sourceUri).open();
+    const output = destFile.open();
+    try {
+      await transform(input, output);
+    } catch (error) {
+      output.close();
+      deleteIfExists(destUri);
+      throw error;
+    } finally {
+      input.close();
+    }
+    output.close();
+  }
+}
+
+const deleteIfExists = (uri: string): void => {
+  try {
+    const file = new File(uri);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.error('❌ Error deleting temporary file:', error);
+  }
+};
+
+const remainingBytes = (handle: ReturnType<File['open']>): number => {
+  return (handle.size || 0) - (handle.offset || 0);
+};
+
+const yieldToUi = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const uint32ToBytes = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const bytesToUint32 = (bytes: Uint8Array): number => {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,300 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import type { OfflineInterview } from './offlineStorage';
+import { encryptionService } from './encryptionService';
+
+const DATABASE_NAME = 'offline_interviews.db';
+// 1 = migrated from AsyncStorage, 2 = records encrypted at rest
+const SCHEMA_VERSION = 2;
+
+// Legacy single-blob key migrated into the database on first open
+const LEGACY_INTERVIEWS_KEY = 'offline_interviews';
+
+interface InterviewRow {
+  id: string;
+  data: string;
+}
+
+/**
+ * Per-record SQLite store for offline interviews
+ * Each interview is one row (full record as encrypted JSON in `data`), with the columns we
+ * filter on (status, survey) pulled out and indexed. Updates run in exclusive transactions so an
+ * interrupted write can only ever lose that one change, never the whole store.
+ */
+class InterviewDatabase {
+  private dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+  // Rows that exist on disk but couldn't be decrypted or parsed the last time they were read
+  private unreadableIds = new Set<string>();
+
+  /**
+   * Open the database, creating the schema and migrating AsyncStorage data on first use
+   */
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().catch((error) => {
+        // Allow the next call to retry opening
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async openDatabase(): Promise<SQLite.SQLiteDatabase> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS offline_interviews (
+        id TEXT PRIMARY KEY NOT NULL,
+        survey_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        is_cati INTEGER NOT NULL DEFAULT 0,
+        start_time TEXT,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_offline_interviews_status ON offline_interviews (status);
+      CREATE INDEX IF NOT EXISTS idx_offline_interviews_survey ON offline_interviews (survey_id);
+    `);
+
+    const versionRow = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const version = versionRow?.user_version || 0;
+    // If the legacy blob can't be read, the version stays at 0 so the migration runs again next launch
+    const migrated = version >= 1 || (await this.migrateFromAsyncStorage(db));
+    if (version < 2) {
+      // Rows written before encryption was introduced are still plaintext
+      await this.reencryptRows(db);
+      if (migrated) {
+        await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+      }
+    }
+
+    console.log('✅ Offline interview database ready');
+    return db;
+  }
+
+  /**
+   * One-time migration of the legacy `offline_interviews` AsyncStorage blob
+   * Runs in a single transaction; the legacy key is only removed after it commits,
+   * so an interrupted migration simply runs again on next launch
+   * @returns false if the legacy blob couldn't be read - it is left in place and nothing is marked migrated
+   */
+  private async migrateFromAsyncStorage(db: SQLite.SQLiteDatabase): Promise<boolean> {
+    let legacyInterviews: any[] = [];
+    try {
+      const data = await AsyncStorage.getItem(LEGACY_INTERVIEWS_KEY);
+      if (data) {
+        const parsed = JSON.parse(data);
+        if (!Array.isArray(parsed)) {
+          throw new Error('Legacy offline interviews are not a list');
+        }
+        legacyInterviews = parsed;
+      }
+    } catch (error) {
+      // The blob may hold unsynced interviews - keep it and retry on next launch rather than delete it
+      console.error('❌ Error reading legacy offline interviews for migration, will retry on next launch:', error);
+      return false;
+    }
+
+    const validInterviews = legacyInterviews.filter(
+      (interview: any) => interview && typeof interview === 'object' && interview.id
+    );
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const interview of validInterviews) {
+        await this.upsertRow(txn, interview as OfflineInterview);
+      }
+      await txn.execAsync('PRAGMA user_version = 1');
+    });
+
+    if (legacyInterviews.length > 0) {
+      console.log(`✅ Migrated ${validInterviews.length} offline interviews from AsyncStorage to SQLite`);
+    }
+    try {
+      await AsyncStorage.removeItem(LEGACY_INTERVIEWS_KEY);
+    } catch (error) {
+      console.error('❌ Error removing legacy offline interviews key:', error);
+    }
+    return true;
+  }
+
+  private async upsertRow(db: SQLite.SQLiteDatabase, interview: OfflineInterview): Promise<void> {
+    await db.runAsync(
+      `INSERT INTO offline_interviews (id, survey_id, status, is_cati, start_time, updated_at, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         survey_id = excluded.survey_id,
+         status = excluded.status,
+         is_cati = excluded.is_cati,
+         start_time = excluded.start_time,
+         updated_at = excluded.updated_at,
+         data = excluded.data`,
+      [
+        interview.id,
+        interview.surveyId || '',
+        interview.status || 'pending',
+        interview.isCatiMode ? 1 : 0,
+        interview.startTime || null,
+        new Date().toISOString(),
+        await encryptionService.encryptString(JSON.stringify(interview)),
+      ]
+    );
+  }
+
+  /**
+   * Decrypt and parse rows, recording any that can't be read so they can be reported
+   * (see getUnreadableIds) instead of silently disappearing from sync
+   */
+  private async parseRows(rows: InterviewRow[]): Promise<OfflineInterview[]> {
+    const interviews: OfflineInterview[] = [];
+    for (const row of rows) {
+      try {
+        interviews.push(JSON.parse(await encryptionService.decryptString(row.data)));
+        this.unreadableIds.delete(row.id);
+      } catch (error) {
+        console.error(`❌ Offline interview ${row.id} could not be decrypted:`, error);
+        this.unreadableIds.add(row.id);
+      }
+    }
+    return interviews;
+  }
+
+  /**
+   * Ids of stored interviews that couldn't be decrypted or parsed when last read
+   * They still count as unsynced, but can't be submitted until they are readable again
+   */
+  getUnreadableIds(): string[] {
+    return Array.from(this.unreadableIds);
+  }
+
+  /**
+   * Re-encrypt every row not yet encrypted with the current key
+   * Runs in one transaction so a rotation is never left half-applied
+   */
+  private async reencryptRows(db: SQLite.SQLiteDatabase): Promise<number> {
+    let count = 0;
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const rows = await txn.getAllAsync<{ id: string; data: string }>('SELECT id, data FROM offline_interviews');
+      for (const row of rows) {
+        if (!(await encryptionService.needsReencryption(row.data))) {
+          continue;
+        }
+        const plaintext = await encryptionService.decryptString(row.data);
+        await txn.runAsync('UPDATE offline_interviews SET data = ? WHERE id = ?', [
+          await encryptionService.encryptString(plaintext),
+          row.id,
+        ]);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Insert or replace a single interview
+   */
+  async put(interview: OfflineInterview): Promise<void> {
+    const db = await this.getDatabase();
+    await this.upsertRow(db, interview);
+  }
+
+  /**
+   * Read-modify-write one interview atomically
+   * @returns The updated interview, or null if it doesn't exist
+   */
+  async update(
+    interviewId: string,
+    mutate: (interview: OfflineInterview) => void
+  ): Promise<OfflineInterview | null> {
+    const db = await this.getDatabase();
+    let updated: OfflineInterview | null = null;
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const row = await txn.getFirstAsync<InterviewRow>(
+        'SELECT id, data FROM offline_interviews WHERE id = ?',
+        [interviewId]
+      );
+      if (!row) return;
+      const interview: OfflineInterview = JSON.parse(await encryptionService.decryptString(row.data));
+      mutate(interview);
+      await this.upsertRow(txn, interview);
+      updated = interview;
+    });
+    return updated;
+  }
+
+  async get(interviewId: string): Promise<OfflineInterview | null> {
+    const db = await this.getDatabase();
+    const row = await db.getFirstAsync<InterviewRow>(
+      'SELECT id, data FROM offline_interviews WHERE id = ?',
+      [interviewId]
+    );
+    return row ? (await this.parseRows([row]))[0] || null : null;
+  }
+
+  async getAll(): Promise<OfflineInterview[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<InterviewRow>(
+      'SELECT id, data FROM offline_interviews ORDER BY start_time ASC'
+    );
+    return this.parseRows(rows);
+  }
+
+  /**
+   * Interviews with any of the given statuses (uses the status index)
+   */
+  async getByStatus(statuses: OfflineInterview['status'][]): Promise<OfflineInterview[]> {
+    const db = await this.getDatabase();
+    const placeholders = statuses.map(() => '?').join(', ');
+    const rows = await db.getAllAsync<InterviewRow>(
+      `SELECT id, data FROM offline_interviews WHERE status IN (${placeholders}) ORDER BY start_time ASC`,
+      statuses
+    );
+    return this.parseRows(rows);
+  }
+
+  async getBySurvey(surveyId: string): Promise<OfflineInterview[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<InterviewRow>(
+      'SELECT id, data FROM offline_interviews WHERE survey_id = ? ORDER BY start_time ASC',
+      [surveyId]
+    );
+    return this.parseRows(rows);
+  }
+
+  async countByStatus(statuses?: OfflineInterview['status'][]): Promise<number> {
+    const db = await this.getDatabase();
+    if (!statuses) {
+      const row = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM offline_interviews');
+      return row?.count || 0;
+    }
+    const placeholders = statuses.map(() => '?').join(', ');
+    const row = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM offline_interviews WHERE status IN (${placeholders})`,
+      statuses
+    );
+    return row?.count || 0;
+  }
+
+  /**
+   * Re-encrypt all interviews with the current key (key rotation)
+   * @returns Number of rows re-encrypted
+   */
+  async reencryptAll(): Promise<number> {
+    const db = await this.getDatabase();
+    return this.reencryptRows(db);
+  }
+
+  async delete(interviewId: string): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync('DELETE FROM offline_interviews WHERE id = ?', [interviewId]);
+    this.unreadableIds.delete(interviewId);
+  }
+
+  async deleteAll(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync('DELETE FROM offline_interviews');
+    this.unreadableIds.clear();
+  }
+}
+
+export const interviewDatabase = new InterviewDatabase();
@@ -0,0 +1,176 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { offlineStorage } from './offlineStorage';
+import { encryptionService } from './encryptionService';
+import { getMediaResponses } from '../utils/mediaQuestions';
+import { InterviewParadata, RandomizationRecord, ValidationOverride } from '../types';
+
+// Only one CAPI interview can be in progress on a device at a time
+const JOURNAL_KEY = 'interview_journal';
+
+/**
+ * Snapshot of an in-progress CAPI interview, written on every answer so the
+ * interview can be resumed if the app is killed before it is saved offline
+ */
+export interface InterviewCheckpoint {
+  journalId: string;
+  surveyId: string;
+  surveyName?: string;
+  sessionId?: string | null;
+  responses: Record<string, any>;
+  currentQuestionIndex: number;
+  selectedAC?: string | null;
+  selectedPollingStation?: any;
+  selectedSetNumber?: number | null;
+  locationData?: any;
+  startTime: string;
+  recordingUri?: string | null; // File the current recording is being written to
+  partialAudioPaths: string[]; // Recordings from before earlier interruptions (offline storage copies)
+  resumeCount: number;
+  validationOverrides?: ValidationOverride[]; // Soft validation warnings confirmed so far
+  paradata?: InterviewParadata;
+  randomization?: RandomizationRecord; // Orders planned for the interview - a resumed interview keeps them
+  updatedAt: string;
+}
+
+class InterviewJournalService {
+  /**
+   * Generate a journal ID for a new interview
+   */
+  generateJournalId(): string {
+    return `journal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Write a checkpoint, replacing the previous one
+   */
+  async checkpoint(checkpoint: Omit<InterviewCheckpoint, 'updatedAt'>): Promise<void> {
+    try {
+      const entry: InterviewCheckpoint = { ...checkpoint, updatedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(JOURNAL_KEY, await encryptionService.encryptString(JSON.stringify(entry)));
+    } catch (error) {
+      // Never interrupt the interview because a checkpoint failed - the next answer retries
+      console.error('❌ Error writing interview checkpoint:', error);
+    }
+  }
+
+  /**
+   * Get the checkpoint of an interview that was interrupted before it was saved
+   */
+  async getInterruptedInterview(): Promise<InterviewCheckpoint | null> {
+    try {
+      const data = await AsyncStorage.getItem(JOURNAL_KEY);
+      if (!data) {
+        return null;
+      }
+      const checkpoint: InterviewCheckpoint = JSON.parse(await encryptionService.decryptString(data));
+      if (!checkpoint?.surveyId || !checkpoint.journalId) {
+        return null;
+      }
+      return {
+        ...checkpoint,
+        responses: checkpoint.responses || {},
+        partialAudioPaths: checkpoint.partialAudioPaths || [],
+        resumeCount: checkpoint.resumeCount || 0,
+      };
+    } catch (error) {
+      console.error('❌ Error reading interview journal:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move the recording that was in progress when the app died into offline storage
+   * The recorder's file lives in the cache directory, which the OS may clear
+   * @returns All partial audio paths for the interview, including the rescued recording
+   */
+  async rescuePartialAudio(checkpoint: InterviewCheckpoint): Promise<string[]> {
+    const partialAudioPaths = [...checkpoint.partialAudioPaths];
+    if (!checkpoint.recordingUri) {
+      return partialAudioPaths;
+    }
+
+    try {
+      const fileInfo = await FileSystem.getInfoAsync(checkpoint.recordingUri);
+      if (fileInfo.exists && fileInfo.size > 0) {
+        const rescuedPath = await offlineStorage.copyAudioFileToOfflineStorage(
+          checkpoint.recordingUri,
+          `${checkpoint.journalId}_part${partialAudioPaths.length + 1}`
+        );
+        partialAudioPaths.push(rescuedPath);
+        await FileSystem.deleteAsync(checkpoint.recordingUri, { idempotent: true });
+        console.log('✅ Partial interview audio rescued:', rescuedPath);
+      } else {
+        console.log('ℹ️ No partial audio to rescue for interrupted interview');
+      }
+    } catch (error) {
+      console.error('❌ Error rescuing partial interview audio:', error);
+    }
+    return partialAudioPaths;
+  }
+
+  /**
+   * Delete photo and signature copies left behind by interviews that were never saved
+   * Only call while no interview is open - the open interview's captures may not be journaled yet
+   */
+  async deleteOrphanedMedia(): Promise<void> {
+    try {
+      // Read the journal strictly - if it can't be read, its files can't be told apart from orphans
+      const data = await AsyncStorage.getItem(JOURNAL_KEY);
+      const checkpoint: InterviewCheckpoint | null = data ? JSON.parse(await encryptionService.decryptString(data)) : null;
+      const keepPaths = getMediaResponses(checkpoint?.responses || {})
+        .map(([, media]) => media.offlinePath)
+        .filter((path): path is string => !!path);
+      await offlineStorage.deleteOrphanedMediaFiles(keepPaths);
+    } catch (error) {
+      console.error('❌ Error deleting orphaned media files:', error);
+    }
+  }
+
+  /**
+   * Re-encrypt the journal with the current key (key rotation)
+   */
+  async reencrypt(): Promise<void> {
+    const data = await AsyncStorage.getItem(JOURNAL_KEY);
+    if (data && await encryptionService.needsReencryption(data)) {
+      const plaintext = await encryptionService.decryptString(data);
+      await AsyncStorage.setItem(JOURNAL_KEY, await encryptionService.encryptString(plaintext));
+    }
+  }
+
+  /**
+   * Remove the journal once the interview has been saved offline
+   */
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(JOURNAL_KEY);
+    } catch (error) {
+      console.error('❌ Error clearing interview journal:', error);
+    }
+  }
+
+  /**
+   * Throw away an interrupted interview, including its partial audio, photos and signatures
+   */
+  async discard(checkpoint: InterviewCheckpoint): Promise<void> {
+    for (const audioPath of checkpoint.partialAudioPaths) {
+      await offlineStorage.deleteAudioFileFromOfflineStorage(audioPath);
+    }
+    for (const [, media] of getMediaResponses(checkpoint.responses)) {
+      if (media.offlinePath) {
+        await offlineStorage.deleteAudioFileFromOfflineStorage(media.offlinePath);
+      }
+    }
+    if (checkpoint.recordingUri) {
+      try {
+        await FileSystem.deleteAsync(checkpoint.recordingUri, { idempotent: true });
+      } catch (error) {
+        console.error('❌ Error deleting interrupted recording:', error);
+      }
+    }
+    await this.clear();
+    console.log('🗑️ Discarded interrupted interview:', checkpoint.journalId);
+  }
+}
+
+export const interviewJournal = new InterviewJournalService();
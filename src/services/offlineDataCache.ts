@@ -9,6 +9,7 @@ const STORAGE_KEYS = {
   POLLING_STATIONS: 'offline_polling_stations',
   POLLING_GPS: 'offline_polling_gps',
   GENDER_QUOTAS: 'offline_gender_quotas',
+  QUOTA_COUNTS: 'offline_quota_counts',
   CATI_SET_NUMBERS: 'offline_cati_set_numbers',
   USER_DATA: 'offline_user_data',
 };
@@ -597,6 +598,42 @@ class OfflineDataCacheService {
     }
   }
 
+  // ========== Quota Counts Management ==========
+
+  async saveQuotaCounts(surveyId: string, counts: Record<string, number>, updatedAt?: string): Promise<void> {
+    try {
+      const allCounts = await this.getAllQuotaCounts();
+      allCounts[surveyId] = {
+        counts,
+        updatedAt: updatedAt || new Date().toISOString(),
+      };
+      await AsyncStorage.setItem(STORAGE_KEYS.QUOTA_COUNTS, JSON.stringify(allCounts));
+    } catch (error) {
+      console.error('Error saving quota counts:', error);
+      throw error;
+    }
+  }
+
+  async getQuotaCounts(surveyId: string): Promise<{ counts: Record<string, number>; updatedAt: string } | null> {
+    try {
+      const allCounts = await this.getAllQuotaCounts();
+      return allCounts[surveyId] || null;
+    } catch (error) {
+      console.error('Error getting quota counts:', error);
+      return null;
+    }
+  }
+
+  async getAllQuotaCounts(): Promise<Record<string, { counts: Record<string, number>; updatedAt: string }>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.QUOTA_COUNTS);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Error getting all quota counts:', error);
+      return {};
+    }
+  }
+
   // ========== CATI Set Numbers Management ==========
   
   async saveCatiSetNumber(surveyId: string, data: any): Promise<void> {
@@ -778,6 +815,16 @@ class OfflineDataCacheService {
       }
     }
 
+    // Download quota counts for surveys with configured quotas (cached by the API call)
+    for (const survey of surveys) {
+      if (Array.isArray(survey.quotas) && survey.quotas.length > 0) {
+        const result = await apiService.getQuotaCounts(survey._id || survey.id);
+        if (result.success) {
+          console.log(`✅ Cached quota counts for survey: ${survey._id || survey.id}`);
+        }
+      }
+    }
+
     // Download CATI set numbers for CATI surveys (still needed from server)
     for (const survey of surveys) {
       if (survey.mode === 'cati' || survey.assignedMode === 'cati') {
@@ -1,15 +1,40 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system/legacy';
+import { SyncErrorType } from '../utils/syncErrors';
+import { SyncConflict } from '../utils/syncConflicts';
+import { interviewDatabase } from './interviewDatabase';
+import { encryptionService, ENCRYPTED_FILE_EXTENSION } from './encryptionService';
+import { getMediaResponses } from '../utils/mediaQuestions';
+import { CallDisposition, InterviewParadata, RandomizationRecord, ValidationOverride } from '../types';
 
 // Storage keys
 const STORAGE_KEYS = {
   SURVEYS: 'offline_surveys',
-  OFFLINE_INTERVIEWS: 'offline_interviews',
   SYNC_QUEUE: 'sync_queue',
   LAST_SYNC: 'last_sync',
   SURVEY_DOWNLOAD_TIME: 'survey_download_time',
 };
 
+/**
+ * Persisted sync progress for an offline interview. Each stage is only
+ * recorded once the server has confirmed it, so an interrupted sync resumes
+ * from the last completed stage instead of starting over.
+ * After 'responses_completed' the only remaining step is local cleanup.
+ */
+export type SyncStage = 'pending' | 'session_started' | 'audio_uploaded' | 'responses_completed';
+
+/**
+ * Progress of a chunked audio upload. confirmedBytes only ever holds an offset the
+ * server acknowledged, so a retry resumes from the last confirmed chunk.
+ */
+export interface AudioUploadState {
+  uploadId: string;
+  confirmedBytes: number;
+  totalBytes: number;
+  chunkSize: number;
+  checksum: string; // MD5 of the local file, verified by the server on completion
+}
+
 export interface OfflineInterview {
   id: string; // Local ID
   surveyId: string;
@@ -29,19 +54,34 @@ export interface OfflineInterview {
   duration: number;
   audioUri?: string | null; // Original URI (for reference)
   audioOfflinePath?: string | null; // Copied file path (safe storage)
-  audioUploadStatus?: 'pending' | 'uploading' | 'uploaded' | 'failed';
+  audioUploadStatus?: 'pending' | 'uploading' | 'uploaded' | 'failed' | 'deferred'; // deferred = waiting for Wi-Fi (sync policy)
   audioUploadError?: string | null;
+  audioUpload?: AudioUploadState | null; // Resumable chunked upload progress
+  partialAudioPaths?: string[]; // Recordings made before the interview was interrupted and resumed
+  paradata?: InterviewParadata; // Per-question timings, visits and answer changes
   metadata: {
     qualityMetrics?: any;
     callStatus?: string; // For CATI
     supervisorID?: string; // For CATI
     audioUrl?: string; // Server audio URL after upload
+    partialAudioUrls?: string[]; // Server URLs of uploaded partialAudioPaths (same order)
+    deferredAudioBytes?: number; // Size of the audio held back by the sync policy
+    computedValues?: Record<string, any>; // Survey computed variables at completion
+    quotaCellIds?: string[]; // Quota cells the respondent counts towards (quotaId:cellKey)
+    validationOverrides?: ValidationOverride[]; // Soft validation warnings the interviewer confirmed
+    randomization?: RandomizationRecord; // Section, question and option orders shown in this interview
+    disposition?: CallDisposition; // CATI call outcome with its AAPOR category and follow-ups
     [key: string]: any;
   };
-  status: 'pending' | 'syncing' | 'synced' | 'failed';
+  // needs_attention = permanent failure, no auto-retry; conflict = server copy disagrees, kept for review;
+  // audio_deferred = responses submitted, audio waiting for an unmetered network
+  status: 'pending' | 'syncing' | 'synced' | 'failed' | 'needs_attention' | 'conflict' | 'audio_deferred';
+  syncStage?: SyncStage; // Resumable sync progress (undefined = 'pending')
   syncAttempts: number;
   lastSyncAttempt?: string;
   error?: string;
+  lastErrorType?: SyncErrorType; // Classification of the last sync failure
+  syncConflict?: SyncConflict | null; // Set when status is 'conflict'
 }
 
 export interface SyncQueueItem {
@@ -147,6 +187,8 @@ class OfflineStorageService {
   }
 
   // ========== Interview Management ==========
+  // Interviews live one-per-row in SQLite (see interviewDatabase) so each save
+  // touches only its own record instead of re-writing every stored interview
 
   /**
    * Save an offline interview
@@ -155,143 +197,67 @@ class OfflineStorageService {
     try {
       // Remove full survey object to reduce storage size (will be fetched from cache during sync)
       // But keep surveyName for display purposes
-      const interviewToSave = {
+      const interviewToSave: OfflineInterview = {
         ...interview,
         survey: null, // Don't store full survey - fetch from cache during sync using surveyId
         // Keep surveyName if it exists (for display)
         surveyName: interview.surveyName || interview.survey?.surveyName || undefined,
-      };
-      
-      const interviews = await this.getOfflineInterviews();
-      const existingIndex = interviews.findIndex(i => i.id === interview.id);
-      
-      if (existingIndex >= 0) {
-        console.log(`🔄 Updating existing offline interview: ${interview.id} (old status: ${interviews[existingIndex].status}, new status: ${interview.status})`);
-        // Remove survey from existing interview too
-        interviews[existingIndex] = {
-          ...interviewToSave,
-          survey: null,
-        };
-      } else {
-        console.log(`➕ Adding new offline interview: ${interview.id} (status: ${interview.status || 'pending'})`);
         // Ensure status is set to 'pending' if not provided
-        if (!interviewToSave.status) {
-          interviewToSave.status = 'pending';
-        }
-        interviews.push(interviewToSave);
-      }
-      
-      // Check size before saving
-      const dataString = JSON.stringify(interviews);
-      const sizeInMB = dataString.length / (1024 * 1024);
-      console.log(`📊 Offline interviews data size: ${sizeInMB.toFixed(2)} MB (${interviews.length} interviews)`);
-      
-      if (dataString.length > 2000000) { // ~2MB warning
-        console.warn(`⚠️ Offline interviews data is large: ${sizeInMB.toFixed(2)} MB - consider syncing soon`);
-      }
+        status: interview.status || 'pending',
+      };
       
-      await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_INTERVIEWS, JSON.stringify(interviews));
-      console.log('✅ Saved offline interview:', interview.id, `(Total in storage: ${interviews.length}, Status: ${interview.status})`);
+      await interviewDatabase.put(interviewToSave);
+      console.log('✅ Saved offline interview:', interview.id, `(Status: ${interviewToSave.status})`);
     } catch (error: any) {
       console.error('❌ Error saving offline interview:', error);
-      
-      // If it's a "Row too big" error, try to save without survey
-      if (error.message && error.message.includes('Row too big')) {
-        console.error('❌ Row too big error - interview data is too large');
-        console.error('❌ This interview cannot be saved. Please sync existing interviews first or reduce interview data size.');
-        throw new Error('Interview data too large to save. Please sync existing interviews first.');
-      }
-      
       throw error;
     }
   }
 
   /**
    * Get all offline interviews
-   * Handles AsyncStorage "Row too big" errors gracefully
    */
   async getOfflineInterviews(): Promise<OfflineInterview[]> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_INTERVIEWS);
-      if (!data) {
-        console.log('📦 No offline interviews found in AsyncStorage');
-        return [];
-      }
-      
-      // Check if data is too large (AsyncStorage has ~6MB limit per key)
-      // If data is very large, try to parse and filter out corrupted entries
-      if (data.length > 5000000) { // ~5MB threshold
-        console.warn('⚠️ Offline interviews data is very large:', data.length, 'bytes');
-        console.warn('⚠️ Attempting to parse and filter...');
-      }
-      
-      const interviews = JSON.parse(data);
-      console.log(`📦 Retrieved ${interviews.length} offline interviews from AsyncStorage`);
-      
-      // Validate and filter out corrupted interviews
-      const validInterviews = interviews.filter((interview: any) => {
-        if (!interview || typeof interview !== 'object') {
-          console.warn('⚠️ Found invalid interview entry (not an object)');
-          return false;
-        }
-        if (!interview.id) {
-          console.warn('⚠️ Found interview without ID');
-          return false;
-        }
-        // Check if interview data is suspiciously large (might be corrupted)
-        const interviewSize = JSON.stringify(interview).length;
-        if (interviewSize > 2000000) { // ~2MB per interview is suspicious
-          console.warn(`⚠️ Interview ${interview.id} is suspiciously large: ${interviewSize} bytes - marking as corrupted`);
-          return false;
-        }
-        return true;
-      });
-      
-      if (validInterviews.length < interviews.length) {
-        const removedCount = interviews.length - validInterviews.length;
-        console.warn(`⚠️ Removed ${removedCount} corrupted/invalid interview(s)`);
-        // Save cleaned data back
-        try {
-          await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_INTERVIEWS, JSON.stringify(validInterviews));
-          console.log('✅ Cleaned and saved valid interviews');
-        } catch (saveError) {
-          console.error('❌ Error saving cleaned interviews:', saveError);
-        }
-      }
-      
-      return validInterviews;
+      const interviews = await interviewDatabase.getAll();
+      console.log(`📦 Retrieved ${interviews.length} offline interviews from database`);
+      return interviews;
     } catch (error: any) {
       console.error('❌ Error getting offline interviews:', error);
-      
-      // Handle "Row too big" error specifically
-      if (error.message && error.message.includes('Row too big')) {
-        console.error('❌ AsyncStorage row too big - attempting to clear corrupted data...');
-        try {
-          // Try to get the data in chunks or clear it
-          await AsyncStorage.removeItem(STORAGE_KEYS.OFFLINE_INTERVIEWS);
-          console.log('✅ Cleared corrupted offline interviews data');
-          return [];
-        } catch (clearError) {
-          console.error('❌ Error clearing corrupted data:', clearError);
-        }
-      }
-      
       return [];
     }
   }
 
+  /**
+   * Ids of stored interviews that couldn't be decrypted when last read
+   * These are left out of getOfflineInterviews, so callers report them separately
+   */
+  getUnreadableInterviewIds(): string[] {
+    return interviewDatabase.getUnreadableIds();
+  }
+
+  /**
+   * Interviews whose audio is waiting for Wi-Fi, and how much audio that is
+   */
+  async getDeferredAudioBacklog(): Promise<{ count: number; totalBytes: number }> {
+    try {
+      const deferred = await interviewDatabase.getByStatus(['audio_deferred']);
+      const totalBytes = deferred.reduce((sum, interview) => sum + (interview.metadata?.deferredAudioBytes || 0), 0);
+      return { count: deferred.length, totalBytes };
+    } catch (error) {
+      console.error('❌ Error getting deferred audio backlog:', error);
+      return { count: 0, totalBytes: 0 };
+    }
+  }
+
   /**
    * Get pending interviews (not synced)
    */
   async getPendingInterviews(): Promise<OfflineInterview[]> {
     try {
-      const interviews = await this.getOfflineInterviews();
-      // Include interviews with status 'pending', 'failed', or no status (legacy)
-      const pending = interviews.filter(i => {
-        const status = i.status;
-        return !status || status === 'pending' || status === 'failed';
-      });
-      console.log(`📊 getPendingInterviews: Found ${pending.length} pending interviews out of ${interviews.length} total`);
+      // Include interviews with status 'pending' or 'failed' (legacy rows without status are stored as 'pending')
+      const pending = await interviewDatabase.getByStatus(['pending', 'failed']);
+      console.log(`📊 getPendingInterviews: Found ${pending.length} pending interviews`);
       return pending;
     } catch (error) {
       console.error('❌ Error getting pending interviews:', error);
@@ -299,13 +265,36 @@ class OfflineStorageService {
     }
   }
 
+  /**
+   * Get offline interviews by status (indexed lookup)
+   */
+  async getInterviewsByStatus(statuses: OfflineInterview['status'][]): Promise<OfflineInterview[]> {
+    try {
+      return await interviewDatabase.getByStatus(statuses);
+    } catch (error) {
+      console.error('❌ Error getting interviews by status:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get offline interviews for one survey (indexed lookup)
+   */
+  async getInterviewsBySurvey(surveyId: string): Promise<OfflineInterview[]> {
+    try {
+      return await interviewDatabase.getBySurvey(surveyId);
+    } catch (error) {
+      console.error('❌ Error getting interviews by survey:', error);
+      return [];
+    }
+  }
+
   /**
    * Get an offline interview by ID
    */
   async getOfflineInterviewById(interviewId: string): Promise<OfflineInterview | null> {
     try {
-      const interviews = await this.getOfflineInterviews();
-      return interviews.find(i => i.id === interviewId) || null;
+      return await interviewDatabase.get(interviewId);
     } catch (error) {
       console.error('❌ Error getting offline interview by ID:', error);
       return null;
@@ -317,31 +306,148 @@ class OfflineStorageService {
    */
   async updateInterviewStatus(interviewId: string, status: OfflineInterview['status'], error?: string): Promise<void> {
     try {
-      const interviews = await this.getOfflineInterviews();
-      const interview = interviews.find(i => i.id === interviewId);
-      if (interview) {
+      await interviewDatabase.update(interviewId, (interview) => {
         interview.status = status;
         interview.lastSyncAttempt = new Date().toISOString();
         if (error) {
           interview.error = error;
           interview.syncAttempts = (interview.syncAttempts || 0) + 1;
         }
-        await this.saveOfflineInterview(interview);
-      }
+      });
     } catch (error) {
       console.error('❌ Error updating interview status:', error);
       throw error;
     }
   }
 
+  /**
+   * Record a failed sync attempt
+   * @param needsAttention - Permanent failure: park the interview instead of retrying it
+   */
+  async recordSyncFailure(
+    interviewId: string,
+    error: string,
+    errorType: SyncErrorType,
+    needsAttention: boolean
+  ): Promise<void> {
+    try {
+      await interviewDatabase.update(interviewId, (interview) => {
+        interview.status = needsAttention ? 'needs_attention' : 'failed';
+        interview.lastSyncAttempt = new Date().toISOString();
+        interview.error = error;
+        interview.lastErrorType = errorType;
+        interview.syncAttempts = (interview.syncAttempts || 0) + 1;
+      });
+    } catch (error) {
+      console.error('❌ Error recording sync failure:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put a failed or needs-attention interview back in the queue with a fresh backoff
+   */
+  async resetInterviewForRetry(interviewId: string): Promise<void> {
+    try {
+      await interviewDatabase.update(interviewId, (interview) => {
+        interview.status = 'pending';
+        interview.syncAttempts = 0;
+        interview.error = undefined;
+        interview.lastErrorType = undefined;
+      });
+    } catch (error) {
+      console.error('❌ Error resetting interview for retry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Park an interview whose server copy disagrees with the local one
+   * The record is kept (not deleted) until the interviewer reviews it
+   */
+  async recordSyncConflict(interviewId: string, conflict: SyncConflict): Promise<void> {
+    try {
+      await interviewDatabase.update(interviewId, (interview) => {
+        interview.status = 'conflict';
+        interview.syncConflict = conflict;
+        interview.lastSyncAttempt = new Date().toISOString();
+      });
+    } catch (error) {
+      console.error('❌ Error recording sync conflict:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a sync conflict by queueing the interview again
+   * @param resolution - 'recheck' compares with the server again; 'resubmit' submits it as a new response
+   */
+  async resolveSyncConflict(interviewId: string, resolution: 'recheck' | 'resubmit'): Promise<void> {
+    try {
+      await interviewDatabase.update(interviewId, (interview) => {
+        interview.status = 'pending';
+        interview.syncConflict = null;
+        interview.syncAttempts = 0;
+        interview.error = undefined;
+        interview.lastErrorType = undefined;
+        if (resolution === 'resubmit') {
+          // Forget the server response and session so the next sync submits from scratch
+          // (an already uploaded audio URL is kept and reused)
+          interview.syncStage = 'pending';
+          interview.sessionId = undefined;
+          interview.metadata = {
+            ...interview.metadata,
+            responseId: undefined,
+            serverResponseId: undefined,
+          };
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error resolving sync conflict:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an offline interview together with its audio, photo and signature files
+   */
+  async deleteOfflineInterview(interviewId: string): Promise<void> {
+    const interview = await this.getOfflineInterviewById(interviewId);
+    if (interview) {
+      const filePaths = [
+        interview.audioOfflinePath,
+        ...(interview.partialAudioPaths || []),
+        ...getMediaResponses(interview.responses).map(([, media]) => media.offlinePath),
+      ];
+      for (const filePath of filePaths) {
+        if (filePath) {
+          await this.deleteAudioFileFromOfflineStorage(filePath);
+        }
+      }
+    }
+    await this.deleteSyncedInterview(interviewId);
+  }
+
+  /**
+   * Record the sync stage an interview has reached
+   */
+  async updateSyncStage(interviewId: string, syncStage: SyncStage): Promise<void> {
+    try {
+      await interviewDatabase.update(interviewId, (interview) => {
+        interview.syncStage = syncStage;
+      });
+    } catch (error) {
+      console.error('❌ Error updating sync stage:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a synced interview
    */
   async deleteSyncedInterview(interviewId: string): Promise<void> {
     try {
-      const interviews = await this.getOfflineInterviews();
-      const filtered = interviews.filter(i => i.id !== interviewId);
-      await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_INTERVIEWS, JSON.stringify(filtered));
+      await interviewDatabase.delete(interviewId);
       console.log('✅ Deleted synced interview:', interviewId);
     } catch (error) {
       console.error('❌ Error deleting synced interview:', error);
@@ -359,6 +465,7 @@ class OfflineStorageService {
   /**
    * Copy audio file to permanent offline storage location
    * This ensures audio files are not deleted by OS cleanup
+   * The copy is encrypted at rest (.enc) - use encryptionService.withDecryptedFile to read it
    */
   async copyAudioFileToOfflineStorage(audioUri: string, interviewId: string): Promise<string> {
     try {
@@ -399,14 +506,11 @@ class OfflineStorageService {
       
       // Generate unique filename
       const extension = audioUri.split('.').pop() || 'm4a';
-      const filename = `audio_${interviewId}_${Date.now()}.${extension}`;
+      const filename = `audio_${interviewId}_${Date.now()}.${extension}${ENCRYPTED_FILE_EXTENSION}`;
       const destPath = `${offlineAudioDir}${filename}`;
       
-      // Copy file to offline storage
-      await FileSystem.copyAsync({
-        from: audioUri,
-        to: destPath,
-      });
+      // Copy file to offline storage, encrypting it on the way
+      await encryptionService.encryptFile(audioUri, destPath);
       
       // Verify copy was successful
       const destInfo = await FileSystem.getInfoAsync(destPath);
@@ -426,6 +530,89 @@ class OfflineStorageService {
     }
   }
 
+  /**
+   * Copy a photo or signature into offline storage, next to the interview audio
+   * Captured before the interview has a local ID, so files are named by question; the copy is encrypted (.enc)
+   * and is covered by key rotation and the logout wipe like audio
+   */
+  async copyMediaFileToOfflineStorage(mediaUri: string, questionId: string): Promise<string> {
+    try {
+      const baseDir = FileSystem.documentDirectory || FileSystem.cacheDirectory;
+      if (!baseDir) {
+        throw new Error('No valid directory available for media storage');
+      }
+
+      const offlineAudioDir = `${baseDir}offline_audio/`;
+      const dirInfo = await FileSystem.getInfoAsync(offlineAudioDir);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(offlineAudioDir, { intermediates: true });
+      }
+
+      const sourceInfo = await FileSystem.getInfoAsync(mediaUri);
+      if (!sourceInfo.exists) {
+        throw new Error(`Source media file does not exist: ${mediaUri}`);
+      }
+
+      const extension = mediaUri.split('?')[0].split('.').pop() || 'jpg';
+      const safeQuestionId = questionId.replace(/[^a-zA-Z0-9_-]/g, '_');
+      const destPath = `${offlineAudioDir}media_${safeQuestionId}_${Date.now()}.${extension}${ENCRYPTED_FILE_EXTENSION}`;
+      await encryptionService.encryptFile(mediaUri, destPath);
+
+      console.log('✅ Media file copied to offline storage:', destPath);
+      return destPath;
+    } catch (error: any) {
+      console.error('❌ Error copying media file:', error);
+      throw new Error(`Failed to copy media file to offline storage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete photo and signature copies no offline interview refers to
+   * Copies are made when they are captured, before the interview is saved - an interview that was
+   * discarded or never saved leaves them behind. Nothing is deleted if a record can't be read.
+   * @param keepPaths - Files of the interview in progress (journal), kept as well
+   * @returns Number of files deleted
+   */
+  async deleteOrphanedMediaFiles(keepPaths: string[]): Promise<number> {
+    const baseDir = FileSystem.documentDirectory || FileSystem.cacheDirectory;
+    if (!baseDir) {
+      return 0;
+    }
+    const offlineAudioDir = `${baseDir}offline_audio/`;
+    const dirInfo = await FileSystem.getInfoAsync(offlineAudioDir);
+    if (!dirInfo.exists) {
+      return 0;
+    }
+
+    const interviews = await interviewDatabase.getAll();
+    if (interviews.length !== await interviewDatabase.countByStatus()) {
+      console.warn('⚠️ Some offline interviews are unreadable - skipping orphaned media cleanup');
+      return 0;
+    }
+    const referencedPaths = new Set(keepPaths);
+    for (const interview of interviews) {
+      for (const [, media] of getMediaResponses(interview.responses)) {
+        if (media.offlinePath) {
+          referencedPaths.add(media.offlinePath);
+        }
+      }
+    }
+
+    let deletedCount = 0;
+    const fileNames = await FileSystem.readDirectoryAsync(offlineAudioDir);
+    for (const fileName of fileNames) {
+      const filePath = `${offlineAudioDir}${fileName}`;
+      if (fileName.startsWith('media_') && !referencedPaths.has(filePath)) {
+        await this.deleteAudioFileFromOfflineStorage(filePath);
+        deletedCount++;
+      }
+    }
+    if (deletedCount > 0) {
+      console.log(`🗑️ Deleted ${deletedCount} orphaned photo/signature file(s)`);
+    }
+    return deletedCount;
+  }
+
   /**
    * Delete audio file from offline storage
    */
@@ -456,6 +643,82 @@ class OfflineStorageService {
     }
   }
 
+  /**
+   * Re-encrypt offline audio with the current key (key rotation)
+   * Also encrypts audio copied before encryption was introduced and updates the records
+   */
+  async reencryptAudioFiles(): Promise<void> {
+    const baseDir = FileSystem.documentDirectory || FileSystem.cacheDirectory;
+    if (!baseDir) {
+      return;
+    }
+    const offlineAudioDir = `${baseDir}offline_audio/`;
+    const dirInfo = await FileSystem.getInfoAsync(offlineAudioDir);
+    if (!dirInfo.exists) {
+      return;
+    }
+
+    const fileNames = await FileSystem.readDirectoryAsync(offlineAudioDir);
+    for (const fileName of fileNames) {
+      if (fileName.endsWith(ENCRYPTED_FILE_EXTENSION)) {
+        await encryptionService.reencryptFile(`${offlineAudioDir}${fileName}`);
+      }
+    }
+
+    // Plaintext copies made before encryption are referenced by path from their records
+    const interviews = await interviewDatabase.getAll();
+    for (const interview of interviews) {
+      const audioPaths = [interview.audioOfflinePath, ...(interview.partialAudioPaths || [])];
+      if (!audioPaths.some((audioPath) => audioPath && !encryptionService.isEncryptedFile(audioPath))) {
+        continue;
+      }
+      const encryptPath = async (audioPath?: string | null): Promise<string | null | undefined> => {
+        if (!audioPath || encryptionService.isEncryptedFile(audioPath)) {
+          return audioPath;
+        }
+        const fileInfo = await FileSystem.getInfoAsync(audioPath);
+        if (!fileInfo.exists) {
+          return audioPath;
+        }
+        const encryptedPath = `${audioPath}${ENCRYPTED_FILE_EXTENSION}`;
+        await encryptionService.encryptFile(audioPath, encryptedPath);
+        return encryptedPath;
+      };
+
+      const plaintextPaths = audioPaths.filter((audioPath): audioPath is string => !!audioPath);
+      const audioOfflinePath = await encryptPath(interview.audioOfflinePath);
+      const partialAudioPaths: string[] = [];
+      for (const partialAudioPath of interview.partialAudioPaths || []) {
+        partialAudioPaths.push((await encryptPath(partialAudioPath)) || partialAudioPath);
+      }
+      await interviewDatabase.update(interview.id, (record) => {
+        record.audioOfflinePath = audioOfflinePath;
+        if (record.partialAudioPaths) {
+          record.partialAudioPaths = partialAudioPaths;
+        }
+      });
+      // Only remove the plaintext once the record points at the encrypted copy
+      for (const plaintextPath of plaintextPaths) {
+        if (!encryptionService.isEncryptedFile(plaintextPath)) {
+          await FileSystem.deleteAsync(plaintextPath, { idempotent: true });
+        }
+      }
+      console.log(`🔐 Encrypted legacy audio for interview ${interview.id}`);
+    }
+  }
+
+  /**
+   * Delete every offline audio, photo and signature file (logout wipe)
+   */
+  async deleteAllAudioFiles(): Promise<void> {
+    const baseDir = FileSystem.documentDirectory || FileSystem.cacheDirectory;
+    if (!baseDir) {
+      return;
+    }
+    await FileSystem.deleteAsync(`${baseDir}offline_audio/`, { idempotent: true });
+    console.log('✅ Deleted all offline audio files');
+  }
+
   // ========== Sync Queue Management ==========
 
   /**
@@ -543,15 +806,15 @@ class OfflineStorageService {
   }> {
     try {
       const surveys = await this.getSurveys();
-      const interviews = await this.getOfflineInterviews();
-      const pending = await this.getPendingInterviews();
+      const offlineInterviewsCount = await interviewDatabase.countByStatus();
+      const pendingInterviewsCount = await interviewDatabase.countByStatus(['pending', 'failed']);
       const queue = await this.getSyncQueue();
       const lastSyncStr = await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC);
       
       return {
         surveysCount: surveys.length,
-        offlineInterviewsCount: interviews.length,
-        pendingInterviewsCount: pending.length,
+        offlineInterviewsCount,
+        pendingInterviewsCount,
         syncQueueCount: queue.length,
         lastSyncTime: lastSyncStr ? new Date(lastSyncStr) : null,
       };
@@ -574,11 +837,11 @@ class OfflineStorageService {
     try {
       await AsyncStorage.multiRemove([
         STORAGE_KEYS.SURVEYS,
-        STORAGE_KEYS.OFFLINE_INTERVIEWS,
         STORAGE_KEYS.SYNC_QUEUE,
         STORAGE_KEYS.LAST_SYNC,
         STORAGE_KEYS.SURVEY_DOWNLOAD_TIME,
       ]);
+      await interviewDatabase.deleteAll();
       console.log('✅ Cleared all offline data');
     } catch (error) {
       console.error('❌ Error clearing offline data:', error);
@@ -0,0 +1,126 @@
+import { apiService } from './api';
+import { offlineStorage } from './offlineStorage';
+import { offlineDataCache } from './offlineDataCache';
+import { QuotaDefinition, QuotaStatus, Survey } from '../types';
+import {
+  buildQuotaStatus,
+  genderQuotasToQuota,
+  LEGACY_GENDER_QUOTA_ID,
+} from '../utils/quotaEngine';
+
+/**
+ * Quota counts for the interview screen and the dashboard
+ * Server counts (cached for offline use) plus completed interviews still waiting to sync on this
+ * device, so a cell fills up locally as soon as an interview is saved
+ */
+class QuotaService {
+  /**
+   * Get the status of every quota cell of a survey
+   * Surveys without configured quotas fall back to the gender quotas from the gender-counts endpoint
+   */
+  async getQuotaStatus(survey: Survey): Promise<QuotaStatus[]> {
+    try {
+      const { quotas, serverCounts, countsUpdatedAt } = await this.getQuotasWithServerCounts(survey);
+      if (quotas.length === 0) {
+        return [];
+      }
+      const localCellIds = await this.getLocalCellIds(survey._id);
+      return buildQuotaStatus(quotas, serverCounts, localCellIds, countsUpdatedAt);
+    } catch (error) {
+      console.error('❌ Error getting quota status:', error);
+      return [];
+    }
+  }
+
+  private async getQuotasWithServerCounts(survey: Survey): Promise<{
+    quotas: QuotaDefinition[];
+    serverCounts: Record<string, number>;
+    countsUpdatedAt?: string;
+  }> {
+    if (Array.isArray(survey.quotas) && survey.quotas.length > 0) {
+      const result = await apiService.getQuotaCounts(survey._id);
+      if (!result.success) {
+        console.log('⚠️ No quota counts available - counting local interviews only');
+      }
+      return {
+        quotas: survey.quotas,
+        serverCounts: result.success && result.data ? result.data.counts : {},
+        countsUpdatedAt: result.success && result.data ? result.data.updatedAt : undefined,
+      };
+    }
+
+    const result = await apiService.getGenderResponseCounts(survey._id);
+    if (!result.success || !result.data?.genderQuotas) {
+      return { quotas: [], serverCounts: {} };
+    }
+    const { quota, serverCounts } = genderQuotasToQuota(result.data.genderQuotas);
+    return {
+      quotas: quota.cells.length > 0 ? [quota] : [],
+      serverCounts,
+      countsUpdatedAt: result.data.cachedAt,
+    };
+  }
+
+  /**
+   * Quota cells of completed interviews the server hasn't counted yet
+   */
+  private async getLocalCellIds(surveyId: string): Promise<string[]> {
+    const interviews = await offlineStorage.getInterviewsBySurvey(surveyId);
+    return interviews
+      .filter((interview) =>
+        interview.status !== 'synced' &&
+        interview.syncStage !== 'responses_completed' &&
+        interview.metadata?.isCompleted !== false
+      )
+      .flatMap((interview) => interview.metadata?.quotaCellIds || []);
+  }
+
+  /**
+   * Count a submitted interview in the cached server counts
+   * Its local copy is deleted after sync, so without this the cell would lose the interview
+   * until the next count refresh
+   */
+  async recordSubmittedInterview(surveyId: string, cellIds: string[] | undefined): Promise<void> {
+    if (!cellIds || cellIds.length === 0) {
+      return;
+    }
+    try {
+      const legacyPrefix = `${LEGACY_GENDER_QUOTA_ID}:`;
+      const legacyCellIds = cellIds.filter((cellId) => cellId.startsWith(legacyPrefix));
+      const quotaCellIds = cellIds.filter((cellId) => !cellId.startsWith(legacyPrefix));
+
+      if (quotaCellIds.length > 0) {
+        const cached = await offlineDataCache.getQuotaCounts(surveyId);
+        if (cached) {
+          const counts = { ...cached.counts };
+          quotaCellIds.forEach((cellId) => {
+            counts[cellId] = (counts[cellId] || 0) + 1;
+          });
+          await offlineDataCache.saveQuotaCounts(surveyId, counts, cached.updatedAt);
+        }
+      }
+
+      if (legacyCellIds.length > 0) {
+        const cached = await offlineDataCache.getGenderQuotas(surveyId);
+        if (cached?.genderQuotas) {
+          const genderQuotas = { ...cached.genderQuotas };
+          legacyCellIds.forEach((cellId) => {
+            const gender = cellId.slice(legacyPrefix.length);
+            if (genderQuotas[gender]) {
+              genderQuotas[gender] = {
+                ...genderQuotas[gender],
+                currentCount: (Number(genderQuotas[gender].currentCount) || 0) + 1,
+              };
+            }
+          });
+          await offlineDataCache.saveGenderQuotas(surveyId, { ...cached, genderQuotas });
+        }
+      }
+    } catch (error) {
+      // Counts are refreshed from the server on the next fetch
+      console.error('❌ Error updating cached quota counts:', error);
+    }
+  }
+}
+
+export const quotaService = new QuotaService();
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RandomizationRecord, Survey } from '../types';
+import {
+  createRandomizationRecord,
+  createRandomizationSeed,
+  createSeededRandom,
+} from '../utils/randomization';
+
+const ROTATION_KEY_PREFIX = 'randomization_rotation_';
+
+/**
+ * Rotation indexes for rotated and Latin-square orders
+ * Each interviewer's device counts up per survey, starting at a row derived from the interviewer,
+ * so interviews cycle through every row offline and different interviewers start on different rows
+ */
+class RandomizationService {
+  private async getUserId(): Promise<string> {
+    try {
+      const userDataStr = await AsyncStorage.getItem('userData');
+      return (userDataStr && JSON.parse(userDataStr)?._id) || 'default';
+    } catch (error) {
+      console.error('❌ Error reading user data for randomization:', error);
+      return 'default';
+    }
+  }
+
+  /**
+   * Get the rotation index for the next interview of a survey (and count it)
+   */
+  async getNextRotationIndex(surveyId: string): Promise<number> {
+    const userId = await this.getUserId();
+    const key = `${ROTATION_KEY_PREFIX}${userId}_${surveyId}`;
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      const rotationIndex = stored !== null
+        ? Number(stored) || 0
+        : Math.floor(createSeededRandom(`${userId}:${surveyId}`)() * 1000);
+      await AsyncStorage.setItem(key, String(rotationIndex + 1));
+      return rotationIndex;
+    } catch (error) {
+      console.error('❌ Error reading rotation index:', error);
+      return Math.floor(Math.random() * 1000);
+    }
+  }
+
+  /**
+   * Plan the randomized orders of a new interview
+   */
+  async createInterviewRandomization(survey: Survey): Promise<RandomizationRecord> {
+    const rotationIndex = await this.getNextRotationIndex(survey._id);
+    const record = createRandomizationRecord(survey, rotationIndex, createRandomizationSeed());
+    console.log(`🔄 Randomization planned for survey ${survey._id} (rotation ${rotationIndex})`);
+    return record;
+  }
+}
+
+export const randomizationService = new RandomizationService();
@@ -0,0 +1,112 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import { offlineDataCache } from './offlineDataCache';
+import { getNextSetNumber, getSetNumbers, InterviewMode, usesQuestionSets } from '../utils/surveyEngine';
+
+const LAST_ASSIGNMENT_KEY_PREFIX = 'set_assignment_last_';
+
+interface SetAssignment {
+  setNumber: number;
+  assignedAt: string;
+}
+
+const toSetNumber = (value: any): number | null => {
+  const setNumber = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isInteger(setNumber) ? setNumber : null;
+};
+
+/**
+ * Question set assignment
+ * An interview's set is reserved once, when its session starts, and kept for the whole interview
+ * (it is saved with the offline interview and the journal). Online the server hands out the sets so
+ * they stay balanced across interviewers; offline the device carries the rotation on from the
+ * server's last known next set, counting its own interviews since
+ */
+class SetAssignmentService {
+  /**
+   * Reserve the question set of a new interview
+   * @param survey - Survey (with its sections)
+   * @param mode - Interview mode
+   * @param sessionId - Interview session the set is reserved for
+   * @returns Set number, or null if the interview doesn't use sets
+   */
+  async reserveSetNumber(survey: any, mode: InterviewMode, sessionId?: string | null): Promise<number | null> {
+    const setNumbers = getSetNumbers(survey);
+    if (!usesQuestionSets(survey, mode) || setNumbers.length === 0) {
+      return null;
+    }
+
+    const surveyId = survey._id || survey.id;
+    const serverSetNumber = await this.reserveOnServer(surveyId, mode, sessionId);
+    const setNumber = serverSetNumber !== null && setNumbers.includes(serverSetNumber)
+      ? serverSetNumber
+      : await this.getLocalSetNumber(surveyId, setNumbers);
+
+    await this.recordAssignment(surveyId, setNumber);
+    console.log(`✅ Set ${setNumber} reserved for survey ${surveyId} (${setNumber === serverSetNumber ? 'server' : 'local rotation'})`);
+    return setNumber;
+  }
+
+  private async reserveOnServer(surveyId: string, mode: InterviewMode, sessionId?: string | null): Promise<number | null> {
+    try {
+      if (!(await apiService.isOnline())) {
+        return null;
+      }
+
+      const result = await apiService.reserveSetNumber(surveyId, mode, sessionId);
+      if (result.success) {
+        return toSetNumber(result.data?.setNumber);
+      }
+
+      // Older servers don't reserve sets - CATI keeps the next set after the last completed interview
+      if (result.status === 404 && mode === 'cati') {
+        const lastSetResult = await apiService.getLastCatiSetNumber(surveyId);
+        return lastSetResult?.success ? toSetNumber(lastSetResult.data?.nextSetNumber) : null;
+      }
+
+      console.log(`⚠️ Set reservation failed (${result.message}) - using local rotation`);
+      return null;
+    } catch (error) {
+      console.error('❌ Error reserving question set:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Next set of the local rotation
+   * Starts from the server's next set when the device has cached it after its last own interview
+   */
+  private async getLocalSetNumber(surveyId: string, setNumbers: number[]): Promise<number> {
+    const lastAssignment = await this.getLastAssignment(surveyId);
+    const cached = await offlineDataCache.getCatiSetNumber(surveyId);
+    const cachedNextSetNumber = toSetNumber(cached?.nextSetNumber);
+
+    const isCacheNewer = !lastAssignment ||
+      (!!cached?.cachedAt && new Date(cached.cachedAt).getTime() > new Date(lastAssignment.assignedAt).getTime());
+    if (isCacheNewer && cachedNextSetNumber !== null && setNumbers.includes(cachedNextSetNumber)) {
+      return cachedNextSetNumber;
+    }
+    return getNextSetNumber(setNumbers, lastAssignment?.setNumber ?? null) as number;
+  }
+
+  private async getLastAssignment(surveyId: string): Promise<SetAssignment | null> {
+    try {
+      const data = await AsyncStorage.getItem(`${LAST_ASSIGNMENT_KEY_PREFIX}${surveyId}`);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('❌ Error reading last set assignment:', error);
+      return null;
+    }
+  }
+
+  private async recordAssignment(surveyId: string, setNumber: number): Promise<void> {
+    try {
+      const assignment: SetAssignment = { setNumber, assignedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(`${LAST_ASSIGNMENT_KEY_PREFIX}${surveyId}`, JSON.stringify(assignment));
+    } catch (error) {
+      console.error('❌ Error recording set assignment:', error);
+    }
+  }
+}
+
+export const setAssignmentService = new SetAssignmentService();
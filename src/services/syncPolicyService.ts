@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  SyncPolicySettings,
+  DEFAULT_SYNC_POLICY,
+  isUnmeteredConnection,
+  shouldDeferAudio,
+} from '../utils/syncPolicy';
+
+const SETTINGS_KEY_PREFIX = 'sync_policy_';
+
+/**
+ * Per-interviewer sync policy: responses upload on any network, large audio can be
+ * held back until Wi-Fi so interviewers don't pay for it with their own mobile data
+ */
+class SyncPolicyService {
+  private async getSettingsKey(): Promise<string> {
+    let userId = 'default';
+    try {
+      const userDataStr = await AsyncStorage.getItem('userData');
+      userId = (userDataStr && JSON.parse(userDataStr)?._id) || 'default';
+    } catch (error) {
+      console.error('❌ Error reading user data for sync policy:', error);
+    }
+    return `${SETTINGS_KEY_PREFIX}${userId}`;
+  }
+
+  /**
+   * Get the logged-in interviewer's sync policy
+   */
+  async getSettings(): Promise<SyncPolicySettings> {
+    try {
+      const data = await AsyncStorage.getItem(await this.getSettingsKey());
+      return data ? { ...DEFAULT_SYNC_POLICY, ...JSON.parse(data) } : { ...DEFAULT_SYNC_POLICY };
+    } catch (error) {
+      console.error('❌ Error reading sync policy:', error);
+      return { ...DEFAULT_SYNC_POLICY };
+    }
+  }
+
+  /**
+   * Update the logged-in interviewer's sync policy
+   */
+  async updateSettings(updates: Partial<SyncPolicySettings>): Promise<SyncPolicySettings> {
+    const settings = { ...(await this.getSettings()), ...updates };
+    await AsyncStorage.setItem(await this.getSettingsKey(), JSON.stringify(settings));
+    console.log('✅ Sync policy updated:', settings);
+    return settings;
+  }
+
+  /**
+   * Whether the device is currently on Wi-Fi or another unmetered network
+   */
+  async isOnUnmeteredNetwork(): Promise<boolean> {
+    try {
+      return isUnmeteredConnection(await NetInfo.fetch());
+    } catch (error) {
+      console.error('❌ Error reading network state:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether audio of this size has to wait for an unmetered network right now
+   */
+  async shouldDeferAudio(sizeBytes: number): Promise<boolean> {
+    const settings = await this.getSettings();
+    if (!settings.wifiOnlyAudio) {
+      return false;
+    }
+    return shouldDeferAudio(sizeBytes, await this.isOnUnmeteredNetwork(), settings);
+  }
+}
+
+export const syncPolicyService = new SyncPolicyService();
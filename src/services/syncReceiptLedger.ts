@@ -0,0 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import type { OfflineInterview } from './offlineStorage';
+import { SyncReceipt } from '../utils/syncReceipts';
+
+const DATABASE_NAME = 'sync_receipts.db';
+const RETENTION_KEY = 'sync_receipt_retention_days';
+
+export const DEFAULT_RECEIPT_RETENTION_DAYS = 90;
+export const RECEIPT_RETENTION_OPTIONS = [30, 90, 180, 365];
+
+interface ReceiptRow {
+  data: string;
+}
+
+/**
+ * Append-only ledger of sync receipts
+ * A receipt is written before a synced interview is deleted, so the device keeps proof of every
+ * submission. Receipts are never updated; they are only removed once older than the retention period.
+ * Receipts hold no answers, so they are stored in plaintext and survive the logout wipe and key changes.
+ */
+class SyncReceiptLedger {
+  private dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().catch((error) => {
+        // Allow the next call to retry opening
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async openDatabase(): Promise<SQLite.SQLiteDatabase> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS sync_receipts (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        local_id TEXT NOT NULL UNIQUE,
+        interviewer_id TEXT,
+        synced_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sync_receipts_synced_at ON sync_receipts (synced_at);
+    `);
+    await this.pruneExpired(db);
+    return db;
+  }
+
+  /**
+   * Record the receipt for an interview the server has accepted
+   * Safe to call again for the same interview (a retried cleanup) - the first receipt is kept
+   */
+  async recordSyncedInterview(interview: OfflineInterview): Promise<SyncReceipt> {
+    const receipt = await this.buildReceipt(interview);
+    const db = await this.getDatabase();
+    await db.runAsync(
+      `INSERT OR IGNORE INTO sync_receipts (local_id, interviewer_id, synced_at, data) VALUES (?, ?, ?, ?)`,
+      [receipt.localId, receipt.interviewerId, receipt.syncedAt, JSON.stringify(receipt)]
+    );
+    console.log(`🧾 Sync receipt recorded for interview ${receipt.localId} (response ${receipt.responseId || 'N/A'})`);
+    return receipt;
+  }
+
+  private async buildReceipt(interview: OfflineInterview): Promise<SyncReceipt> {
+    let interviewerId: string | null = null;
+    try {
+      const userDataStr = await AsyncStorage.getItem('userData');
+      interviewerId = userDataStr ? JSON.parse(userDataStr)?._id || null : null;
+    } catch (error) {
+      console.error('❌ Error reading user data for sync receipt:', error);
+    }
+
+    const metadata = interview.metadata || {};
+    const pollingStation = interview.selectedPollingStation;
+    return {
+      localId: interview.id,
+      responseId: metadata.responseId || metadata.serverResponseId || null,
+      surveyId: interview.surveyId,
+      surveyName: interview.surveyName || interview.survey?.surveyName || null,
+      interviewerId,
+      mode: interview.isCatiMode ? 'CATI' : 'CAPI',
+      startTime: interview.startTime || null,
+      endTime: interview.endTime || null,
+      syncedAt: new Date().toISOString(),
+      audioSize: metadata.audioFileSize || interview.audioUpload?.totalBytes || null,
+      audioChecksum: metadata.audioChecksum || interview.audioUpload?.checksum || null,
+      acName: interview.selectedAC || pollingStation?.acName || null,
+      pollingStation: pollingStation?.stationName || (typeof pollingStation === 'string' ? pollingStation : null),
+    };
+  }
+
+  /**
+   * Get receipts, newest first
+   * @param interviewerId - Only receipts of this interviewer (the device may be shared)
+   */
+  async getReceipts(interviewerId?: string): Promise<SyncReceipt[]> {
+    try {
+      const db = await this.getDatabase();
+      const rows = interviewerId
+        ? await db.getAllAsync<ReceiptRow>(
+            'SELECT data FROM sync_receipts WHERE interviewer_id = ? ORDER BY seq DESC',
+            [interviewerId]
+          )
+        : await db.getAllAsync<ReceiptRow>('SELECT data FROM sync_receipts ORDER BY seq DESC');
+      const receipts: SyncReceipt[] = [];
+      for (const row of rows) {
+        try {
+          receipts.push(JSON.parse(row.data));
+        } catch (error) {
+          console.warn('⚠️ Skipping unreadable sync receipt row');
+        }
+      }
+      return receipts;
+    } catch (error) {
+      console.error('❌ Error reading sync receipts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * How many days receipts are kept
+   */
+  async getRetentionDays(): Promise<number> {
+    try {
+      const value = await AsyncStorage.getItem(RETENTION_KEY);
+      const days = value ? parseInt(value, 10) : NaN;
+      return days > 0 ? days : DEFAULT_RECEIPT_RETENTION_DAYS;
+    } catch (error) {
+      console.error('❌ Error reading receipt retention:', error);
+      return DEFAULT_RECEIPT_RETENTION_DAYS;
+    }
+  }
+
+  /**
+   * Change how many days receipts are kept, pruning anything now outside the period
+   */
+  async setRetentionDays(days: number): Promise<void> {
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error('Retention period must be a positive number of days');
+    }
+    await AsyncStorage.setItem(RETENTION_KEY, String(days));
+    await this.pruneExpired(await this.getDatabase());
+  }
+
+  /**
+   * Delete receipts older than the retention period (the only way receipts are ever removed)
+   */
+  private async pruneExpired(db: SQLite.SQLiteDatabase): Promise<void> {
+    try {
+      const retentionDays = await this.getRetentionDays();
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+      const result = await db.runAsync('DELETE FROM sync_receipts WHERE synced_at < ?', [cutoff]);
+      if (result.changes > 0) {
+        console.log(`🗑️ Pruned ${result.changes} sync receipts older than ${retentionDays} days`);
+      }
+    } catch (error) {
+      console.error('❌ Error pruning sync receipts:', error);
+    }
+  }
+}
+
+export const syncReceiptLedger = new SyncReceiptLedger();
@@ -1,11 +1,43 @@
 import { apiService } from './api';
 import { offlineStorage, OfflineInterview } from './offlineStorage';
+import { audioUploadService } from './audioUploadService';
+import { encryptionService } from './encryptionService';
+import { syncReceiptLedger } from './syncReceiptLedger';
+import { syncPolicyService } from './syncPolicyService';
+import { quotaService } from './quotaService';
 import * as FileSystem from 'expo-file-system/legacy';
+import {
+  SyncError,
+  SyncErrorType,
+  MAX_SYNC_ATTEMPTS,
+  classifySyncError,
+  syncErrorFromResult,
+  AUDIO_MISSING_CODE,
+  isRetryableSyncError,
+  isRetryDue,
+} from '../utils/syncErrors';
+import {
+  SyncConflict,
+  ServerResponseState,
+  computeResponsesHash,
+  countAnsweredResponses,
+  detectSyncConflict,
+} from '../utils/syncConflicts';
+import { shouldDeferAudio } from '../utils/syncPolicy';
+import { buildFinalResponses } from '../utils/surveyEngine';
+import { getDispositionCodes, isConnectedDisposition } from '../utils/dispositions';
+import { getMediaResponses, getPendingMediaUploads } from '../utils/mediaQuestions';
+import { toSubmittedParadata } from '../utils/paradata';
+
+// Maximum number of interviews synced in parallel (kept low for 2G/3G links)
+const SYNC_CONCURRENCY = 3;
 
 export interface SyncResult {
   success: boolean;
   syncedCount: number;
   failedCount: number;
+  conflictCount: number; // Interviews whose server copy disagrees with ours - kept for review
+  deferredCount: number; // Interviews submitted with their audio held back until Wi-Fi
   errors: Array<{ interviewId: string; error: string }>;
 }
 
@@ -14,14 +46,18 @@ class SyncService {
 
   /**
    * Sync all pending offline interviews
+   * Failed interviews are skipped until their backoff window has elapsed, unless ignoreBackoff is set
+   * (manual sync from the dashboard)
    */
-  async syncOfflineInterviews(): Promise<SyncResult> {
+  async syncOfflineInterviews(options: { ignoreBackoff?: boolean } = {}): Promise<SyncResult> {
     if (this.isSyncing) {
       console.log('⚠️ Sync already in progress');
       return {
         success: false,
         syncedCount: 0,
         failedCount: 0,
+        conflictCount: 0,
+        deferredCount: 0,
         errors: [{ interviewId: 'system', error: 'Sync already in progress' }],
       };
     }
@@ -31,6 +67,8 @@ class SyncService {
       success: true,
       syncedCount: 0,
       failedCount: 0,
+      conflictCount: 0,
+      deferredCount: 0,
       errors: [],
     };
 
@@ -43,12 +81,35 @@ class SyncService {
           success: false,
           syncedCount: 0,
           failedCount: 0,
+          conflictCount: 0,
+          deferredCount: 0,
           errors: [{ interviewId: 'system', error: 'Device is offline' }],
         };
       }
 
       // Get all pending interviews
-      const pendingInterviews = await offlineStorage.getPendingInterviews();
+      // Interviews left in 'syncing' by an interrupted run are picked up again and resume from their stage
+      const allInterviews = await offlineStorage.getOfflineInterviews();
+      // Records that can't be decrypted can't be submitted - report them rather than skip them silently
+      for (const interviewId of offlineStorage.getUnreadableInterviewIds()) {
+        result.failedCount++;
+        result.errors.push({ interviewId, error: 'Stored interview could not be decrypted' });
+        result.success = false;
+      }
+      // 'needs_attention' interviews are never retried automatically
+      // 'audio_deferred' interviews only need their audio, which waits for an unmetered network
+      const now = Date.now();
+      const syncPolicy = await syncPolicyService.getSettings();
+      const isUnmetered = await syncPolicyService.isOnUnmeteredNetwork();
+      const pendingInterviews = allInterviews.filter(i => {
+        if (i.status === 'failed') {
+          return options.ignoreBackoff || isRetryDue(i.syncAttempts || 0, i.lastSyncAttempt, now);
+        }
+        if (i.status === 'audio_deferred') {
+          return !shouldDeferAudio(i.metadata?.deferredAudioBytes || 0, isUnmetered, syncPolicy);
+        }
+        return !i.status || i.status === 'pending' || i.status === 'syncing';
+      });
       
       // CRITICAL: Early return if no pending interviews
       // This prevents unnecessary API calls and error logs
@@ -58,125 +119,29 @@ class SyncService {
         return result;
       }
       
-      console.log(`🔄 Starting sync for ${pendingInterviews.length} interviews`);
-
-      // Sync each interview one by one
-      for (const interview of pendingInterviews) {
-        try {
-          console.log(`🔄 Syncing interview: ${interview.id} (${interview.isCatiMode ? 'CATI' : 'CAPI'})`);
-          
-          // Update status to syncing
-          await offlineStorage.updateInterviewStatus(interview.id, 'syncing');
-
-          // Sync based on interview type
-          // CRITICAL: These functions will throw an error if sync fails
-          // Only if they complete without throwing will we mark as synced and delete
-          console.log(`🔄 Starting sync function for interview: ${interview.id}`);
-          
-          if (interview.isCatiMode) {
-            await this.syncCatiInterview(interview);
-          } else {
-            await this.syncCapiInterview(interview);
-          }
-          
-          // CRITICAL: Only reach here if sync function completed WITHOUT throwing an error
-          // Add explicit log to confirm we're past the sync function
-          console.log(`✅ Sync function completed successfully for interview: ${interview.id}`);
-          console.log(`✅ Proceeding to mark as synced and cleanup...`);
-          
-          // FINAL VERIFICATION: Double-check that we should mark as synced
-          // Re-fetch the interview to ensure it's still in pending/syncing state
-          const currentInterview = await offlineStorage.getOfflineInterviews();
-          const interviewToSync = currentInterview.find((i: any) => i.id === interview.id);
-          
-          if (!interviewToSync) {
-            console.warn(`⚠️ Interview ${interview.id} not found in storage - may have been deleted already`);
-            // Continue anyway - might have been cleaned up
-          } else if (interviewToSync.status === 'synced') {
-            console.warn(`⚠️ Interview ${interview.id} already marked as synced - skipping duplicate update`);
-            // Already synced, skip
-            continue;
-          }
-
-          // ONLY reach here if sync was successful (no error thrown)
-          // Mark as synced
-          console.log(`📝 Marking interview ${interview.id} as synced...`);
-          await offlineStorage.updateInterviewStatus(interview.id, 'synced');
-          result.syncedCount++;
-          console.log(`✅ Successfully synced interview: ${interview.id}`);
+      // Order the queue so one slow upload never holds back everything behind it
+      const queue = [...pendingInterviews].sort((a, b) => this.compareSyncPriority(a, b));
+      const workerCount = Math.min(SYNC_CONCURRENCY, queue.length);
+      console.log(`🔄 Starting sync for ${queue.length} interviews (${workerCount} parallel workers)`);
 
-          // Delete from local storage after successful sync
-          // Synced interviews don't need to be stored offline anymore
-          await offlineStorage.deleteSyncedInterview(interview.id);
-          
-          // Clean up audio file from offline storage if it exists
-          if (interview.audioOfflinePath) {
-            await offlineStorage.deleteAudioFileFromOfflineStorage(interview.audioOfflinePath);
+      const workers = Array.from({ length: workerCount }, async () => {
+        while (queue.length > 0) {
+          const interview = queue.shift();
+          if (!interview) break;
+          const errorType = await this.syncQueuedInterview(interview, result);
+          if (errorType === 'auth_expired') {
+            // Every remaining request would be rejected too - stop until the interviewer logs in again
+            console.log('⚠️ Login expired - stopping sync for remaining interviews');
+            queue.length = 0;
           }
-          
-          console.log(`🗑️ Deleted synced interview from local storage: ${interview.id}`);
-        } catch (error: any) {
-          const errorMessage = error.message || error.response?.data?.message || 'Unknown error';
-          
-          // Check if this is a duplicate submission error
-          // If interview was already submitted, treat it as success (not an error)
-          const isDuplicate = errorMessage.includes('DUPLICATE_SUBMISSION') || 
-                              errorMessage.includes('already exists') ||
-                              errorMessage.includes('already submitted') ||
-                              errorMessage.includes('already completed') ||
-                              errorMessage.includes('duplicate');
-          
-          if (isDuplicate) {
-            // This is NOT an error - interview already exists on server
-            console.log(`ℹ️ Duplicate submission detected for interview ${interview.id}`);
-            console.log(`ℹ️ Interview already exists on server - treating as successfully synced`);
-            console.log(`✅ This is expected behavior - interview was already submitted previously`);
-            
-            // Mark as synced since it already exists on server
-            await offlineStorage.updateInterviewStatus(interview.id, 'synced');
-            result.syncedCount++;
-            console.log(`✅ Interview ${interview.id} already synced (duplicate submission)`);
-            
-            // Delete from local storage since it's already on server
-            await offlineStorage.deleteSyncedInterview(interview.id);
-            
-            // Clean up audio file if it exists
-            if (interview.audioOfflinePath) {
-              await offlineStorage.deleteAudioFileFromOfflineStorage(interview.audioOfflinePath);
-            }
-            
-            continue; // Skip to next interview
-          }
-          
-          // Only log as error if it's NOT a duplicate
-          console.error(`❌ Error syncing interview ${interview.id}:`, error);
-          
-          // CRITICAL: Update status to failed and preserve interview for retry
-          // Do NOT delete the interview - it needs to be retried
-          await offlineStorage.updateInterviewStatus(interview.id, 'failed', errorMessage);
-          
-          // Log detailed error information for debugging
-          console.error(`❌ Interview sync failed - will retry on next sync attempt`);
-          console.error(`❌ Error details:`, {
-            interviewId: interview.id,
-            surveyId: interview.surveyId,
-            error: errorMessage,
-            stack: error.stack
-          });
-          
-          result.failedCount++;
-          result.errors.push({
-            interviewId: interview.id,
-            error: errorMessage,
-          });
-          result.success = false;
         }
-      }
+      });
+      await Promise.all(workers);
 
       // Update last sync time
       await offlineStorage.updateLastSyncTime();
 
-      console.log(`✅ Sync completed: ${result.syncedCount} synced, ${result.failedCount} failed`);
+      console.log(`✅ Sync completed: ${result.syncedCount} synced, ${result.failedCount} failed, ${result.conflictCount} conflicts, ${result.deferredCount} waiting for Wi-Fi`);
     } catch (error: any) {
       console.error('❌ Fatal error during sync:', error);
       result.success = false;
@@ -191,6 +156,253 @@ class SyncService {
     return result;
   }
 
+  /**
+   * Sync priority: CATI callbacks first, then other CATI, then CAPI; oldest first within each tier
+   */
+  private compareSyncPriority(a: OfflineInterview, b: OfflineInterview): number {
+    const tier = (interview: OfflineInterview): number => {
+      if (!interview.isCatiMode) return 2;
+      const isCallback = interview.metadata?.abandonReason === 'call_later' || !!interview.metadata?.callLaterDate;
+      return isCallback ? 0 : 1;
+    };
+    const tierDiff = tier(a) - tier(b);
+    if (tierDiff !== 0) return tierDiff;
+
+    const timeOf = (interview: OfflineInterview): number => {
+      const time = new Date(interview.endTime || interview.startTime).getTime();
+      return isNaN(time) ? 0 : time;
+    };
+    return timeOf(a) - timeOf(b);
+  }
+
+  /**
+   * Sync one queued interview and record the outcome in the shared result
+   * Never throws - failures are recorded so the other workers keep going
+   * Returns the error type of a failed attempt, or null on success
+   */
+  private async syncQueuedInterview(interview: OfflineInterview, result: SyncResult): Promise<SyncErrorType | null> {
+    try {
+      console.log(`🔄 Syncing interview: ${interview.id} (${interview.isCatiMode ? 'CATI' : 'CAPI'}, stage: ${interview.syncStage || 'pending'})`);
+      
+      // Update status to syncing
+      await offlineStorage.updateInterviewStatus(interview.id, 'syncing');
+
+      // Interviews the server already has are checked against the server copy before cleanup
+      const alreadySubmitted = interview.syncStage === 'responses_completed' ||
+        !!interview.metadata?.responseId || !!interview.metadata?.serverResponseId;
+
+      // Sync based on interview type
+      // CRITICAL: These functions will throw an error if sync fails
+      // Only if they complete without throwing will we mark as synced and delete
+      if (interview.isCatiMode) {
+        await this.syncCatiInterview(interview);
+      } else {
+        await this.syncCapiInterview(interview);
+      }
+      
+      // CRITICAL: Only reach here if sync function completed WITHOUT throwing an error
+      console.log(`✅ Sync function completed successfully for interview: ${interview.id}`);
+      
+      // FINAL VERIFICATION: Re-fetch the interview to ensure it's still in pending/syncing state
+      const interviewToSync = await offlineStorage.getOfflineInterviewById(interview.id);
+      
+      if (!interviewToSync) {
+        console.warn(`⚠️ Interview ${interview.id} not found in storage - may have been deleted already`);
+        // Continue anyway - might have been cleaned up
+      } else if (interviewToSync.status === 'synced') {
+        console.warn(`⚠️ Interview ${interview.id} already marked as synced - skipping duplicate update`);
+        return null;
+      }
+
+      // Responses are on the server but the audio is still held back - keep the interview for later
+      if (interview.audioUploadStatus === 'deferred') {
+        await offlineStorage.updateInterviewStatus(interview.id, 'audio_deferred');
+        result.deferredCount++;
+        console.log(`📶 Interview ${interview.id} submitted - audio waiting for Wi-Fi`);
+        return null;
+      }
+
+      // Call outcomes don't create a response on the server - there is nothing to reconcile
+      if (alreadySubmitted && !this.isCatiOutcome(interview) && await this.reconcileWithServer(interview)) {
+        result.conflictCount++;
+        return null;
+      }
+
+      await this.finishSyncedInterview(interview);
+      result.syncedCount++;
+      console.log(`✅ Successfully synced interview: ${interview.id}`);
+      return null;
+    } catch (error: any) {
+      const syncError = classifySyncError(error);
+      const errorMessage = syncError.message || 'Unknown error';
+      
+      // Duplicate means the interview is already on the server - treat it as success (not an error)
+      const isDuplicate = syncError.type === 'duplicate';
+      
+      if (isDuplicate) {
+        // This is NOT an error - interview already exists on server
+        console.log(`ℹ️ Duplicate submission detected for interview ${interview.id}`);
+        console.log(`ℹ️ Interview already exists on server - treating as successfully synced`);
+        try {
+          await offlineStorage.updateSyncStage(interview.id, 'responses_completed');
+          if (!this.isCatiOutcome(interview) && await this.reconcileWithServer(interview)) {
+            result.conflictCount++;
+            return null;
+          }
+          await this.finishSyncedInterview(interview);
+          result.syncedCount++;
+          console.log(`✅ Interview ${interview.id} already synced (duplicate submission)`);
+        } catch (cleanupError: any) {
+          // Stage is persisted, reconciliation and cleanup will be retried on the next sync
+          console.error(`❌ Error cleaning up duplicate interview ${interview.id}:`, cleanupError);
+        }
+        return null;
+      }
+      
+      // Only log as error if it's NOT a duplicate
+      console.error(`❌ Error syncing interview ${interview.id} (${syncError.type}):`, error);
+      
+      // Permanent failures (payload rejected, or retries exhausted on a server-side problem)
+      // go to 'needs_attention' so they stop burning battery and data
+      const attempts = (interview.syncAttempts || 0) + 1;
+      const needsAttention = !isRetryableSyncError(syncError.type) ||
+        ((syncError.type === 'server_error' || syncError.type === 'unknown') && attempts >= MAX_SYNC_ATTEMPTS);
+      
+      // CRITICAL: Preserve interview for retry or review
+      // Do NOT delete the interview - it needs to be retried from its persisted stage
+      try {
+        await offlineStorage.recordSyncFailure(interview.id, errorMessage, syncError.type, needsAttention);
+      } catch (statusError) {
+        console.error(`❌ Error recording sync failure for interview ${interview.id}:`, statusError);
+      }
+      
+      // Log detailed error information for debugging
+      console.error(needsAttention
+        ? `❌ Interview sync failed permanently - needs attention`
+        : `❌ Interview sync failed - will retry after backoff`);
+      console.error(`❌ Error details:`, {
+        interviewId: interview.id,
+        surveyId: interview.surveyId,
+        syncStage: interview.syncStage || 'pending',
+        errorType: syncError.type,
+        status: syncError.status,
+        code: syncError.code,
+        attempts: attempts,
+        error: errorMessage,
+      });
+      
+      result.failedCount++;
+      result.errors.push({
+        interviewId: interview.id,
+        error: errorMessage,
+      });
+      result.success = false;
+      return syncError.type;
+    }
+  }
+
+  /**
+   * Reconciliation stage: compare the server's copy of an already submitted interview with ours
+   * Mismatches (different answers, rejected on review, missing) are recorded as conflicts for review
+   * @returns True if a conflict was recorded - the interview must not be cleaned up
+   */
+  private async reconcileWithServer(interview: OfflineInterview): Promise<boolean> {
+    const responseId = interview.metadata?.responseId || interview.metadata?.serverResponseId;
+    const sessionId = interview.sessionId && !interview.sessionId.startsWith('offline_') ? interview.sessionId : undefined;
+    if (!responseId && !sessionId) {
+      console.log(`ℹ️ No server reference for interview ${interview.id} - skipping reconciliation`);
+      return false;
+    }
+
+    const stateResult = await apiService.getResponseSyncState(responseId ? { responseId } : { sessionId });
+    let serverState: ServerResponseState | null = null;
+    if (stateResult.success) {
+      serverState = stateResult.data || null;
+    } else if (stateResult.status === 404 && stateResult.code !== 'RESPONSE_NOT_FOUND') {
+      // Older servers don't have the sync-state endpoint - keep the previous behavior
+      console.log('ℹ️ Server does not support sync reconciliation - skipping');
+      return false;
+    } else if (stateResult.status !== 404) {
+      throw syncErrorFromResult(stateResult, 'Failed to check server copy of interview');
+    }
+
+    const local = this.getSubmittedContent(interview);
+    if (!local) {
+      console.log(`ℹ️ No submitted content hash stored for interview ${interview.id} - checking server status only`);
+    }
+    const reasons = detectSyncConflict(local, serverState);
+    if (reasons.length === 0) {
+      console.log(`✅ Server copy of interview ${interview.id} matches${local ? ` (${local.responseCount} answers)` : ''}`);
+      return false;
+    }
+
+    const conflict: SyncConflict = {
+      reasons,
+      detectedAt: new Date().toISOString(),
+      serverResponseId: serverState?.responseId || responseId,
+      serverStatus: serverState?.status,
+      serverResponseCount: serverState?.responseCount,
+      serverContentHash: serverState?.contentHash,
+      localResponseCount: local?.responseCount,
+      localContentHash: local?.contentHash,
+    };
+    await offlineStorage.recordSyncConflict(interview.id, conflict);
+    console.log(`⚠️ Sync conflict for interview ${interview.id}: ${reasons.join(', ')} - kept for review`);
+    return true;
+  }
+
+  /**
+   * Content hash and answer count of what was submitted for an interview, as stored at submission
+   * Older records have none - re-hashing them now may not match what was actually sent, so they return null
+   */
+  private getSubmittedContent(interview: OfflineInterview): { contentHash: string; responseCount: number } | null {
+    const metadata = interview.metadata || {};
+    if (metadata.submittedContentHash && typeof metadata.submittedResponseCount === 'number') {
+      return { contentHash: metadata.submittedContentHash, responseCount: metadata.submittedResponseCount };
+    }
+    return null;
+  }
+
+  /**
+   * Local cleanup stage: write the sync receipt, mark synced, remove the audio copy, then remove the record
+   * The receipt goes first so no interview is ever deleted without one (a failed write retries the cleanup)
+   * Audio goes before the record so an interrupted cleanup never orphans a file without a record
+   */
+  private async finishSyncedInterview(interview: OfflineInterview): Promise<void> {
+    // A recording part without a server URL never reached the server - keep it and the record
+    const partialAudioPaths = interview.partialAudioPaths || [];
+    const uploadedPartCount = (interview.metadata?.partialAudioUrls || []).length;
+    if (uploadedPartCount < partialAudioPaths.length) {
+      throw new SyncError('network', `${partialAudioPaths.length - uploadedPartCount} partial audio part(s) not uploaded yet`);
+    }
+
+    await syncReceiptLedger.recordSyncedInterview(interview);
+
+    console.log(`📝 Marking interview ${interview.id} as synced...`);
+    await offlineStorage.updateInterviewStatus(interview.id, 'synced');
+
+    // The server counts this interview now - keep it in the cached quota counts until the next refresh
+    if (interview.metadata?.isCompleted !== false) {
+      await quotaService.recordSubmittedInterview(interview.surveyId, interview.metadata?.quotaCellIds);
+    }
+
+    if (interview.audioOfflinePath) {
+      await offlineStorage.deleteAudioFileFromOfflineStorage(interview.audioOfflinePath);
+    }
+    for (const partialAudioPath of partialAudioPaths) {
+      await offlineStorage.deleteAudioFileFromOfflineStorage(partialAudioPath);
+    }
+    for (const [, media] of getMediaResponses(interview.responses)) {
+      if (media.offlinePath) {
+        await offlineStorage.deleteAudioFileFromOfflineStorage(media.offlinePath);
+      }
+    }
+
+    // Synced interviews don't need to be stored offline anymore
+    await offlineStorage.deleteSyncedInterview(interview.id);
+    console.log(`🗑️ Deleted synced interview from local storage: ${interview.id}`);
+  }
+
   /**
    * Sync a CAPI interview
    */
@@ -199,7 +411,7 @@ class SyncService {
 
     // CRITICAL: Check if interview was already successfully submitted
     // If metadata contains a responseId, it means it was already submitted
-    if (interview.metadata?.responseId || interview.metadata?.serverResponseId) {
+    if (interview.syncStage === 'responses_completed' || interview.metadata?.responseId || interview.metadata?.serverResponseId) {
       const existingResponseId = interview.metadata.responseId || interview.metadata.serverResponseId;
       console.log(`ℹ️ Interview ${interview.id} was already submitted with responseId: ${existingResponseId}`);
       console.log(`ℹ️ Skipping duplicate submission - interview is already on server`);
@@ -210,7 +422,13 @@ class SyncService {
         responseId: existingResponseId,
         serverResponseId: existingResponseId,
       };
+      interview.syncStage = 'responses_completed';
       await offlineStorage.saveOfflineInterview(interview);
+      // Deferred audio, or recording parts left behind by an earlier submission, are attached now
+      const hasMissingParts = (interview.metadata?.partialAudioUrls || []).length < (interview.partialAudioPaths || []).length;
+      if (interview.audioUploadStatus === 'deferred' || hasMissingParts) {
+        await this.uploadDeferredAudio(interview);
+      }
       console.log(`✅ Interview already synced - will be marked as synced by caller`);
       return; // Exit early - interview is already on server
     }
@@ -241,14 +459,26 @@ class SyncService {
       // Start interview
       const startResult = await apiService.startInterview(interview.surveyId);
       if (!startResult.success) {
-        throw new Error(startResult.message || 'Failed to start interview');
+        throw syncErrorFromResult(startResult, 'Failed to start interview');
       }
 
       sessionId = startResult.response.sessionId;
       if (!sessionId) {
-        throw new Error('Failed to get sessionId from startInterview response');
+        throw new SyncError('server_error', 'Failed to get sessionId from startInterview response');
+      }
+      // startInterview falls back to a local session when the connectivity check fails
+      if (sessionId.startsWith('offline_')) {
+        throw new SyncError('network', 'Connection lost while starting interview session');
       }
       console.log(`✅ Started new interview session: ${sessionId}`);
+
+      // Stage: session started - persist the server sessionId right away so a retry reuses it
+      interview.sessionId = sessionId;
+      interview.syncStage = 'session_started';
+      await offlineStorage.saveOfflineInterview(interview);
+    } else if (!interview.syncStage || interview.syncStage === 'pending') {
+      interview.syncStage = 'session_started';
+      await offlineStorage.saveOfflineInterview(interview);
     }
     
     // At this point, sessionId is guaranteed to be defined
@@ -267,6 +497,9 @@ class SyncService {
       }
     }
     
+    // Photos and signatures are answers - upload them before the responses that reference them
+    await this.uploadMediaFiles(interview, sessionId);
+
     const finalResponses = await this.buildFinalResponses(interview);
 
     // Calculate duration from startTime and endTime if available
@@ -406,7 +639,12 @@ class SyncService {
     // Check if audio is already uploaded (from previous sync attempt)
     if (interview.audioUploadStatus === 'uploaded' && interview.metadata?.audioUrl) {
       audioUrl = interview.metadata.audioUrl;
+      audioFileSize = interview.metadata.audioFileSize || 0;
       console.log('✅ Using already uploaded audio:', audioUrl);
+    } else if (await this.deferAudioIfNeeded(interview)) {
+      // Submit the responses now, the recordings follow once on Wi-Fi
+      interview.syncStage = 'audio_uploaded';
+      await offlineStorage.saveOfflineInterview(interview);
     } else {
       // Need to upload audio
       const audioPath = interview.audioOfflinePath || interview.audioUri;
@@ -419,10 +657,9 @@ class SyncService {
           
           // Upload with retry mechanism
           const uploadResult = await this.uploadAudioWithRetry(
+            interview,
             audioPath,
-            sessionId,
-            interview.surveyId,
-            interview.id
+            sessionId
           );
           
           if (uploadResult.success && uploadResult.audioUrl) {
@@ -432,27 +669,51 @@ class SyncService {
             interview.metadata = {
               ...interview.metadata,
               audioUrl: audioUrl,
+              audioFileSize: audioFileSize,
+              audioChecksum: uploadResult.checksum || undefined,
             };
             interview.audioUploadError = null;
+            interview.audioUpload = null;
+            // Stage: audio uploaded
+            interview.syncStage = 'audio_uploaded';
             await offlineStorage.saveOfflineInterview(interview);
             console.log('✅ Audio uploaded successfully:', audioUrl);
           } else {
             throw new Error(uploadResult.error || 'Audio upload failed');
           }
         } catch (audioError: any) {
-          console.error('❌ Audio upload error:', audioError);
-          interview.audioUploadStatus = 'failed';
-          interview.audioUploadError = audioError.message;
-          await offlineStorage.saveOfflineInterview(interview);
-          // Continue with submission even if audio upload failed (will retry later)
-          console.log('⚠️ Continuing with submission without audio - will retry audio upload on next sync');
+          const syncError = classifySyncError(audioError);
+          if (syncError.code === AUDIO_MISSING_CODE) {
+            // Nothing on the device to upload - retrying can't bring it back, so submit without it
+            console.warn('⚠️ Audio recording missing or empty - syncing without audio:', syncError.message);
+            interview.audioUploadStatus = undefined;
+            interview.audioUploadError = syncError.message;
+            interview.metadata = { ...interview.metadata, audioMissing: true };
+            interview.syncStage = 'audio_uploaded';
+            await offlineStorage.saveOfflineInterview(interview);
+          } else {
+            console.error('❌ Audio upload error:', audioError);
+            interview.audioUploadStatus = 'failed';
+            interview.audioUploadError = audioError.message;
+            await offlineStorage.saveOfflineInterview(interview);
+            // Stay in the audio stage - the responses are only submitted with their recording,
+            // and the local audio and record are kept until the next sync attempt uploads it
+            throw syncError;
+          }
         }
       } else {
         // CAPI interviews should have audio, but allow sync to proceed
         console.warn('⚠️ No audio file found for CAPI interview - syncing without audio');
+        interview.syncStage = 'audio_uploaded';
+        await offlineStorage.saveOfflineInterview(interview);
       }
     }
     
+    // Recordings from before an interruption are uploaded separately and linked in metadata
+    const audioDeferred = interview.audioUploadStatus === 'deferred';
+    // Throws if a part fails, so the interview is never completed without its parts
+    const partialAudioUrls = audioDeferred ? [] : await this.uploadPartialAudio(interview, sessionId);
+
     // Complete the interview with the (new) sessionId
     // TypeScript: Ensure sessionId is defined
     if (!sessionId) {
@@ -511,7 +772,7 @@ class SyncService {
         selectedAC: interview.selectedAC || null,
         selectedPollingStation: pollingStationData, // Include complete polling station data
         location: locationData, // Include complete location data (backend will fetch Lok Sabha/District)
-        setNumber: interview.selectedSetNumber || null,
+        setNumber: interview.selectedSetNumber ?? null,
         OldinterviewerID: oldInterviewerID, // Include interviewer ID for target survey
         supervisorID: supervisorID, // Include supervisor ID for target survey
         consentResponse: isConsentNo ? 'no' : null, // Set consentResponse if consent is "No"
@@ -532,110 +793,31 @@ class SyncService {
           bitrate: 128000,
           fileSize: audioFileSize, // Include file size from upload
           uploadedAt: new Date().toISOString() // Set upload time
-        } : null // Audio upload may have failed - will retry on next sync
+        } : null, // No recording, or deferred until Wi-Fi
+        partialAudioRecordings: partialAudioUrls.length > 0 ? partialAudioUrls : undefined,
+        audioDeferred: audioDeferred || undefined, // Audio will be attached to the response later
+        audioMissing: interview.metadata?.audioMissing || undefined, // Recording was lost or empty on the device
+        missingPartialAudioCount: interview.metadata?.missingPartialAudioCount || undefined, // Parts lost before upload
+        resumeCount: interview.metadata?.resumeCount || undefined,
+        computedVariables: interview.metadata?.computedValues || undefined,
+        validationOverrides: interview.metadata?.validationOverrides?.length ? interview.metadata.validationOverrides : undefined,
+        paradata: interview.paradata ? toSubmittedParadata(interview.paradata) : undefined,
+        randomization: interview.metadata?.randomization || undefined,
       },
       });
       console.log(`📥 completeInterview API call completed - response received`);
     } catch (apiError: any) {
-      // Check if the API returned a duplicate flag (from our improved error handling)
-      const apiResult = apiError.response?.data || {};
-      if (apiResult.isDuplicate === true) {
-        console.log(`ℹ️ API explicitly marked this as duplicate - interview already exists on server`);
-        throw new Error(`DUPLICATE_SUBMISSION: Interview already exists on server`);
-      }
-      
       // Catch any errors from the API call itself (network errors, etc.)
-      // Only log as error if it's not a duplicate (409 is handled above)
-      if (apiError.response?.status !== 409) {
-        console.error(`❌ completeInterview API call threw an error:`, apiError);
+      // Classification uses HTTP status and server error codes (E11000 / DUPLICATE_SUBMISSION => duplicate)
+      const syncError = classifySyncError(apiError);
+      if (syncError.type === 'duplicate') {
+        console.log(`ℹ️ Complete interview reported a duplicate - interview already exists on server`);
+      } else {
+        console.error(`❌ completeInterview API call threw an error (${syncError.type}):`, apiError);
         console.error(`❌ SessionId: ${sessionId}`);
         console.error(`❌ SurveyId: ${interview.surveyId}`);
-      } else {
-        console.log(`ℹ️ Complete interview returned 409 Conflict - duplicate submission`);
-      }
-      console.log(`ℹ️ Error response:`, apiError.response?.data);
-      console.log(`ℹ️ Error status:`, apiError.response?.status);
-      
-      // Extract error message from various sources
-      const errorMessage = apiError.message || '';
-      const errorResponse = apiError.response?.data;
-      const backendErrorMessage = errorResponse?.error || errorResponse?.message || '';
-      const backendErrorCode = errorResponse?.code || errorResponse?.errorCode || '';
-      const fullErrorMessage = `${errorMessage} ${backendErrorMessage} ${backendErrorCode}`.toLowerCase();
-      
-      // CRITICAL: Check for MongoDB duplicate key error (E11000)
-      // This happens when sessionId already has a completed response
-      // The backend now returns 409 Conflict with isDuplicate flag for duplicates
-      const isE11000Error = 
-        backendErrorCode === 11000 ||
-        backendErrorCode === '11000' ||
-        fullErrorMessage.includes('e11000') ||
-        fullErrorMessage.includes('11000') ||
-        (errorResponse?.code === 11000) ||
-        (errorResponse?.keyPattern?.sessionId !== undefined); // MongoDB duplicate key pattern
-      
-      // Check if backend explicitly marked this as a duplicate
-      const isExplicitDuplicate = errorResponse?.isDuplicate === true;
-      
-      // Check if this is a duplicate submission error
-      // Look for duplicate indicators in both client and server error messages
-      const isDuplicateError = 
-        isExplicitDuplicate || // Backend explicitly marked as duplicate
-        isE11000Error ||
-        (apiError.response?.status === 409) || // 409 Conflict means duplicate (backend returns this for E11000)
-        fullErrorMessage.includes('duplicate') || 
-        fullErrorMessage.includes('already exists') ||
-        fullErrorMessage.includes('already submitted') ||
-        fullErrorMessage.includes('already completed') ||
-        fullErrorMessage.includes('unique constraint') ||
-        (apiError.response?.status === 500 && (
-          backendErrorMessage.includes('duplicate') ||
-          backendErrorMessage.includes('already exists') ||
-          backendErrorMessage.includes('already completed') ||
-          backendErrorMessage.includes('e11000') ||
-          backendErrorMessage.includes('11000') ||
-          isE11000Error
-        ));
-      
-      if (isDuplicateError) {
-        console.log(`ℹ️ Duplicate submission detected - interview already exists on server`);
-        console.log(`ℹ️ Error message: ${errorMessage}`);
-        console.log(`ℹ️ Backend error: ${backendErrorMessage}`);
-        console.log(`ℹ️ Error code: ${backendErrorCode}`);
-        console.log(`ℹ️ This is not a fatal error - interview was already successfully submitted`);
-        // Treat duplicate as success (interview already on server)
-        throw new Error(`DUPLICATE_SUBMISSION: Interview already exists on server`);
       }
-      
-      // For 500 errors, log more details to help debug
-      if (apiError.response?.status === 500) {
-        console.error(`❌ Backend returned 500 error - this might indicate a server-side issue`);
-        console.error(`❌ Full error response:`, JSON.stringify(errorResponse, null, 2));
-        console.error(`❌ Error code: ${backendErrorCode}`);
-        console.error(`❌ Error message: ${backendErrorMessage}`);
-        console.error(`❌ Full error object:`, JSON.stringify(apiError.response?.data, null, 2));
-        
-        // CRITICAL: Check if this might be a duplicate that we didn't catch
-        // The backend might return a generic 500 for E11000 duplicate key errors
-        // If we've tried multiple times with the same sessionId and keep getting 500,
-        // it's very likely a duplicate submission
-        const syncAttempts = interview.syncAttempts || 0;
-        if (syncAttempts >= 2) {
-          console.log(`⚠️ Multiple sync attempts (${syncAttempts}) failed with 500 for sessionId: ${sessionId}`);
-          console.log(`⚠️ This is likely a duplicate submission - interview already exists on server`);
-          console.log(`⚠️ Treating as duplicate to prevent infinite retry loop`);
-          throw new Error(`DUPLICATE_SUBMISSION: Interview already exists on server (multiple 500 errors with same sessionId)`);
-        }
-        
-        // Also check if the error response contains any duplicate indicators
-        const errorResponseStr = JSON.stringify(errorResponse || {}).toLowerCase();
-        if (errorResponseStr.includes('11000') || errorResponseStr.includes('duplicate') || errorResponseStr.includes('e11000')) {
-          console.log(`⚠️ Error response contains duplicate indicators - treating as duplicate`);
-          throw new Error(`DUPLICATE_SUBMISSION: Interview already exists on server (error response indicates duplicate)`);
-        }
-      }
-      
-      throw new Error(`API call failed: ${errorMessage || backendErrorMessage || 'Unknown error'}`);
+      throw syncError;
     }
 
     // CRITICAL: Check API response BEFORE proceeding
@@ -652,31 +834,20 @@ class SyncService {
       console.error(`❌ ${errorMsg}`);
       console.error(`❌ SessionId: ${sessionId}`);
       console.error(`❌ SurveyId: ${interview.surveyId}`);
-      throw new Error(errorMsg);
+      throw new SyncError('unknown', errorMsg);
     }
     
     if (result.success !== true) {
-      const errorMsg = result.message || 'Failed to complete interview';
-      
-      // Check if this might be a duplicate submission error
-      // Sometimes the backend returns success: false for duplicates
-      const isPossibleDuplicate = errorMsg.toLowerCase().includes('duplicate') ||
-                                  errorMsg.toLowerCase().includes('already exists') ||
-                                  errorMsg.toLowerCase().includes('already submitted');
-      
-      if (isPossibleDuplicate) {
-        console.log(`ℹ️ Possible duplicate submission detected from API response`);
-        console.log(`ℹ️ Error message: ${errorMsg}`);
-        console.log(`ℹ️ This might mean the interview already exists on server`);
-        // Treat as duplicate - will be handled by caller
-        throw new Error(`DUPLICATE_SUBMISSION: ${errorMsg}`);
+      const syncError = syncErrorFromResult(result, 'Failed to complete interview');
+      if (syncError.type === 'duplicate') {
+        console.log(`ℹ️ Duplicate submission reported by API (status: ${syncError.status}, code: ${syncError.code})`);
+      } else {
+        console.error(`❌ Interview completion failed (${syncError.type}): ${syncError.message}`);
+        console.error(`❌ Response data:`, JSON.stringify(result, null, 2));
+        console.error(`❌ SessionId: ${sessionId}`);
+        console.error(`❌ SurveyId: ${interview.surveyId}`);
       }
-      
-      console.error(`❌ Interview completion failed: ${errorMsg}`);
-      console.error(`❌ Response data:`, JSON.stringify(result, null, 2));
-      console.error(`❌ SessionId: ${sessionId}`);
-      console.error(`❌ SurveyId: ${interview.surveyId}`);
-      throw new Error(errorMsg);
+      throw syncError;
     }
 
     // CRITICAL: Verify that the interview was actually created on the server
@@ -693,25 +864,32 @@ class SyncService {
       console.error(`❌ Response data:`, JSON.stringify(result, null, 2));
       console.error(`❌ SessionId: ${sessionId}`);
       console.error(`❌ SurveyId: ${interview.surveyId}`);
-      throw new Error(errorMsg);
+      throw new SyncError('server_error', errorMsg);
     }
 
     // ONLY log success AFTER verification
     console.log(`✅ Interview completed successfully with sessionId: ${sessionId}`);
     console.log(`✅ Interview response ID: ${responseId}`);
     
-    // Log audio status - audioUrl is guaranteed to be present at this point
+    // Log audio status
     if (audioUrl) {
       console.log('✅ Interview synced WITH audio:', audioUrl);
+    } else if (audioDeferred) {
+      console.log('📶 Interview synced WITHOUT audio - audio deferred until Wi-Fi');
     } else {
-      console.log('⚠️ Interview synced WITHOUT audio (audio upload may have failed)');
+      console.log('⚠️ Interview synced WITHOUT audio (no recording found)');
     }
 
-    // Update interview with the real sessionId for future reference (only if needed)
-    if (isOfflineSessionId || !interview.sessionId) {
-      interview.sessionId = sessionId;
-      await offlineStorage.saveOfflineInterview(interview);
-    }
+    // Stage: responses completed - record the server responseId so a retry only needs cleanup
+    interview.metadata = {
+      ...interview.metadata,
+      responseId: responseId,
+      serverResponseId: responseId,
+      submittedContentHash: computeResponsesHash(finalResponses),
+      submittedResponseCount: countAnsweredResponses(finalResponses),
+    };
+    interview.syncStage = 'responses_completed';
+    await offlineStorage.saveOfflineInterview(interview);
     
     // CRITICAL: Add a final verification log before function returns
     // This ensures we can track when the function actually completes successfully
@@ -725,14 +903,15 @@ class SyncService {
 
   /**
    * Upload audio file with retry mechanism (exponential backoff)
+   * Each attempt resumes the chunked upload from the last server-confirmed offset
+   * Throws the last classified error once every attempt has failed
    */
   private async uploadAudioWithRetry(
+    interview: OfflineInterview,
     audioPath: string,
     sessionId: string,
-    surveyId: string,
-    interviewId: string,
     maxRetries: number = 3
-  ): Promise<{ success: boolean; audioUrl?: string; fileSize?: number; error?: string }> {
+  ): Promise<{ success: boolean; audioUrl?: string; fileSize?: number; checksum?: string; error?: string }> {
     console.log(`📤 Uploading audio with retry (max ${maxRetries} attempts): ${audioPath}`);
     
     // Verify FileSystem is available
@@ -740,48 +919,27 @@ class SyncService {
       throw new Error('FileSystem.getInfoAsync is not available');
     }
     
-    // Check if file exists
-    const fileInfo = await FileSystem.getInfoAsync(audioPath);
-    if (!fileInfo.exists) {
-      throw new Error(`Audio file does not exist at path: ${audioPath}`);
-    }
-    
-    if (fileInfo.size === 0) {
-      throw new Error('Audio file is empty (0 bytes)');
-    }
-    
-    console.log(`✅ Audio file verified - size: ${fileInfo.size} bytes`);
-    
     // Retry loop with exponential backoff
-    let lastError: any = null;
+    let lastError: SyncError | null = null;
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         console.log(`📤 Audio upload attempt ${attempt}/${maxRetries}...`);
+        const uploadResult = await audioUploadService.upload(interview, audioPath, sessionId);
+        console.log(`✅ Audio uploaded successfully on attempt ${attempt}`);
+        return {
+          success: true,
+          audioUrl: uploadResult.audioUrl,
+          fileSize: uploadResult.fileSize,
+          checksum: uploadResult.checksum,
+        };
+      } catch (error: any) {
+        lastError = classifySyncError(error);
+        console.error(`❌ Audio upload attempt ${attempt} failed (${lastError.type}):`, error.message);
         
-        const uploadResult = await apiService.uploadAudioFile(
-          audioPath,
-          sessionId,
-          surveyId
-        );
-        
-        if (uploadResult.success && uploadResult.response?.audioUrl) {
-          const uploadedAudioUrl = uploadResult.response.audioUrl;
-          if (uploadedAudioUrl && !uploadedAudioUrl.startsWith('mock://')) {
-            console.log(`✅ Audio uploaded successfully on attempt ${attempt}`);
-            return {
-              success: true,
-              audioUrl: uploadedAudioUrl,
-              fileSize: uploadResult.response?.size || fileInfo.size,
-            };
-          } else {
-            throw new Error('Audio upload returned invalid mock URL');
-          }
-        } else {
-          throw new Error(uploadResult.message || 'Audio upload failed');
+        // Rejected uploads won't succeed on an immediate retry
+        if (!isRetryableSyncError(lastError.type)) {
+          break;
         }
-      } catch (error: any) {
-        lastError = error;
-        console.error(`❌ Audio upload attempt ${attempt} failed:`, error.message);
         
         // If not the last attempt, wait before retrying (exponential backoff)
         if (attempt < maxRetries) {
@@ -792,12 +950,206 @@ class SyncService {
       }
     }
     
-    // All retries failed
+    // All retries failed - confirmed chunks stay recorded for the next sync
     console.error(`❌ Audio upload failed after ${maxRetries} attempts`);
-    return {
-      success: false,
-      error: lastError?.message || 'Audio upload failed after all retries',
-    };
+    throw lastError || new SyncError('unknown', 'Audio upload failed after all retries');
+  }
+
+  /**
+   * Sync policy check before the audio stage: hold large recordings back on metered networks
+   * @returns True if the audio was deferred (the interview is marked and its size recorded)
+   */
+  private async deferAudioIfNeeded(interview: OfflineInterview): Promise<boolean> {
+    const audioPaths = [interview.audioOfflinePath || interview.audioUri, ...(interview.partialAudioPaths || [])]
+      .filter((path): path is string => !!path);
+    if (audioPaths.length === 0) {
+      return false;
+    }
+
+    let totalBytes = 0;
+    for (const path of audioPaths) {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(path);
+        totalBytes += fileInfo.exists ? fileInfo.size || 0 : 0;
+      } catch (error) {
+        console.error('❌ Error reading audio file size:', error);
+      }
+    }
+
+    if (!(await syncPolicyService.shouldDeferAudio(totalBytes))) {
+      return false;
+    }
+
+    interview.audioUploadStatus = 'deferred';
+    interview.metadata = { ...interview.metadata, deferredAudioBytes: totalBytes };
+    console.log(`📶 Deferring ${Math.round(totalBytes / 1024)} KB of audio for interview ${interview.id} until Wi-Fi`);
+    return true;
+  }
+
+  /**
+   * Upload audio held back by the sync policy (or parts missing from an earlier submission)
+   * and attach it to the already submitted response
+   * Does nothing while the device is still on a metered network
+   */
+  private async uploadDeferredAudio(interview: OfflineInterview): Promise<void> {
+    if (await syncPolicyService.shouldDeferAudio(interview.metadata?.deferredAudioBytes || 0)) {
+      console.log(`📶 Audio for interview ${interview.id} still waiting for Wi-Fi`);
+      return;
+    }
+
+    const responseId = interview.metadata?.responseId || interview.metadata?.serverResponseId;
+    const sessionId = interview.sessionId;
+    if (!responseId || !sessionId) {
+      throw new SyncError('validation_rejected', 'Deferred audio has no server response to attach to');
+    }
+
+    const audioPath = interview.audioOfflinePath || interview.audioUri;
+    if (audioPath && !interview.metadata?.audioUrl && !interview.metadata?.audioMissing) {
+      try {
+        const uploadResult = await this.uploadAudioWithRetry(interview, audioPath, sessionId);
+        if (!uploadResult.success || !uploadResult.audioUrl) {
+          throw new SyncError('network', uploadResult.error || 'Deferred audio upload failed');
+        }
+        interview.metadata = {
+          ...interview.metadata,
+          audioUrl: uploadResult.audioUrl,
+          audioFileSize: uploadResult.fileSize || 0,
+          audioChecksum: uploadResult.checksum || undefined,
+        };
+      } catch (audioError: any) {
+        const syncError = classifySyncError(audioError);
+        if (syncError.code !== AUDIO_MISSING_CODE) {
+          throw syncError;
+        }
+        // Nothing on the device to upload - attach whatever else there is and flag the gap
+        console.warn('⚠️ Deferred audio recording missing or empty - attaching without it:', syncError.message);
+        interview.metadata = { ...interview.metadata, audioMissing: true };
+      }
+      interview.audioUpload = null;
+      await offlineStorage.saveOfflineInterview(interview);
+    }
+
+    const partialAudioUrls = await this.uploadPartialAudio(interview, sessionId);
+
+    const attachResult = await apiService.attachResponseAudio(responseId, {
+      audioUrl: interview.metadata.audioUrl,
+      fileSize: interview.metadata.audioFileSize,
+      checksum: interview.metadata.audioChecksum,
+      partialAudioUrls: partialAudioUrls.length > 0 ? partialAudioUrls : undefined,
+      audioMissing: interview.metadata?.audioMissing || undefined,
+      missingPartialAudioCount: interview.metadata?.missingPartialAudioCount || undefined,
+    });
+    if (!attachResult.success) {
+      throw syncErrorFromResult(attachResult, 'Failed to attach deferred audio');
+    }
+
+    interview.audioUploadStatus = 'uploaded';
+    interview.audioUploadError = null;
+    await offlineStorage.saveOfflineInterview(interview);
+    console.log(`✅ Deferred audio attached to response ${responseId}`);
+  }
+
+  /**
+   * Upload recordings made before the interview was interrupted and resumed
+   * Uploaded URLs are persisted so a retried sync only uploads the missing parts.
+   * Parts whose file is missing or empty are dropped (and counted in metadata) rather than blocking the interview.
+   * @returns Server URLs of every part
+   * @throws The classified error of the first part that fails - later parts stay queued behind it
+   */
+  private async uploadPartialAudio(interview: OfflineInterview, sessionId: string): Promise<string[]> {
+    const partialAudioUrls = [...(interview.metadata?.partialAudioUrls || [])];
+
+    let i = partialAudioUrls.length;
+    while (i < (interview.partialAudioPaths || []).length) {
+      const partialAudioPaths = interview.partialAudioPaths || [];
+      const path = partialAudioPaths[i];
+      const fileInfo = await FileSystem.getInfoAsync(path);
+      if (!fileInfo.exists || !fileInfo.size) {
+        // Nothing to upload - drop the part so URLs stay aligned with the remaining paths
+        console.warn(`⚠️ Partial audio ${i + 1}/${partialAudioPaths.length} missing or empty - dropping it:`, path);
+        interview.partialAudioPaths = partialAudioPaths.filter((_, index) => index !== i);
+        interview.metadata = {
+          ...interview.metadata,
+          missingPartialAudioCount: (interview.metadata?.missingPartialAudioCount || 0) + 1,
+        };
+        await offlineStorage.saveOfflineInterview(interview);
+        continue;
+      }
+
+      let uploadResult;
+      try {
+        uploadResult = await encryptionService.withDecryptedFile(path, (plainPath) =>
+          apiService.uploadAudioFile(plainPath, sessionId, interview.surveyId)
+        );
+      } catch (error) {
+        throw classifySyncError(error);
+      }
+      if (!uploadResult.success || !uploadResult.response?.audioUrl) {
+        const syncError = syncErrorFromResult(uploadResult, 'Partial audio upload failed');
+        console.error(`❌ Partial audio ${i + 1}/${partialAudioPaths.length} upload failed (${syncError.type}):`, syncError.message);
+        throw syncError;
+      }
+      partialAudioUrls.push(uploadResult.response.audioUrl);
+      interview.metadata = { ...interview.metadata, partialAudioUrls };
+      await offlineStorage.saveOfflineInterview(interview);
+      console.log(`✅ Partial audio ${i + 1}/${partialAudioPaths.length} uploaded:`, uploadResult.response.audioUrl);
+      i++;
+    }
+
+    return partialAudioUrls;
+  }
+
+  /**
+   * Upload photo and signature files with the same retry and backoff as audio
+   * Each server URL is persisted on its response, so a retried sync only uploads the missing files.
+   * Unlike audio the submission can't go ahead without them - a failed upload fails the sync attempt.
+   */
+  private async uploadMediaFiles(interview: OfflineInterview, sessionId: string, maxRetries: number = 3): Promise<void> {
+    const pendingUploads = getPendingMediaUploads(interview.responses);
+    if (pendingUploads.length === 0) {
+      return;
+    }
+    console.log(`📤 Uploading ${pendingUploads.length} photo/signature file(s) for interview ${interview.id}`);
+
+    for (const [questionId, media] of pendingUploads) {
+      let lastError: SyncError | null = null;
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+          const uploadResult = await encryptionService.withDecryptedFile(media.offlinePath!, (plainPath) =>
+            apiService.uploadMediaFile(plainPath, media.mimeType, sessionId, interview.surveyId, questionId)
+          );
+          if (!uploadResult.success || !uploadResult.response?.mediaUrl) {
+            throw syncErrorFromResult(uploadResult, 'Media upload failed');
+          }
+          // offlinePath is kept until cleanup deletes the file - it is never submitted
+          interview.responses = {
+            ...interview.responses,
+            [questionId]: {
+              ...media,
+              mediaUrl: uploadResult.response.mediaUrl,
+              fileSize: uploadResult.response.fileSize ?? media.fileSize,
+            },
+          };
+          await offlineStorage.saveOfflineInterview(interview);
+          console.log(`✅ ${media.type} for ${questionId} uploaded:`, uploadResult.response.mediaUrl);
+          lastError = null;
+          break;
+        } catch (error: any) {
+          lastError = classifySyncError(error);
+          console.error(`❌ ${media.type} upload attempt ${attempt}/${maxRetries} for ${questionId} failed (${lastError.type}):`, lastError.message);
+          if (!isRetryableSyncError(lastError.type)) {
+            break;
+          }
+          if (attempt < maxRetries) {
+            const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000); // Max 10 seconds
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+        }
+      }
+      if (lastError) {
+        throw lastError;
+      }
+    }
   }
 
   /**
@@ -806,10 +1158,21 @@ class SyncService {
   private async syncCatiInterview(interview: OfflineInterview): Promise<void> {
     console.log(`📋 Syncing CATI interview: ${interview.id}`);
 
+    // CATI has a single server step - once completed only local cleanup remains
+    if (interview.syncStage === 'responses_completed') {
+      console.log(`ℹ️ CATI interview ${interview.id} was already completed on server - skipping to cleanup`);
+      return;
+    }
+
     if (!interview.catiQueueId) {
       throw new Error('CATI interview requires catiQueueId');
     }
 
+    if (this.isCatiOutcome(interview)) {
+      await this.syncCatiOutcome(interview, interview.catiQueueId);
+      return;
+    }
+
     // Fetch survey from cache if needed
     let survey = interview.survey;
     if (!survey && interview.surveyId) {
@@ -870,7 +1233,7 @@ class SyncService {
 
     // Extract call status
     const callStatusResponse = interview.responses['call-status'];
-    const finalCallStatus = callStatusResponse === 'call_connected' ? 'success' : (callStatusResponse || 'unknown');
+    const finalCallStatus = isConnectedDisposition(callStatusResponse, getDispositionCodes(survey)) ? 'success' : (callStatusResponse || 'unknown');
 
     // Extract interviewer ID and supervisor ID (for target survey)
     const isTargetSurvey = survey && (survey._id === '68fd1915d41841da463f0d46' || survey.id === '68fd1915d41841da463f0d46');
@@ -920,22 +1283,71 @@ class SyncService {
       setNumber: finalSetNumber,
       OldinterviewerID: oldInterviewerID,
       callStatus: finalCallStatus,
-      supervisorID: supervisorID
+      supervisorID: supervisorID,
+      computedVariables: interview.metadata?.computedValues || undefined,
+      validationOverrides: interview.metadata?.validationOverrides?.length ? interview.metadata.validationOverrides : undefined,
+      paradata: interview.paradata ? toSubmittedParadata(interview.paradata) : undefined,
+      randomization: interview.metadata?.randomization || undefined,
+      disposition: interview.metadata?.disposition || undefined
     });
 
     if (!result.success) {
-      throw new Error(result.message || 'Failed to complete CATI interview');
+      throw syncErrorFromResult(result, 'Failed to complete CATI interview');
     }
 
+    // Stage: responses completed
+    interview.metadata = {
+      ...interview.metadata,
+      submittedContentHash: computeResponsesHash(finalResponses),
+      submittedResponseCount: countAnsweredResponses(finalResponses),
+    };
+    interview.syncStage = 'responses_completed';
+    await offlineStorage.saveOfflineInterview(interview);
+
     console.log(`✅ CATI interview synced successfully: ${interview.id}`);
   }
 
+  /**
+   * Whether an interview is a CATI call outcome - a call abandoned before completion
+   * (didn't connect, refused, call later...) rather than a completed CATI interview
+   */
+  private isCatiOutcome(interview: OfflineInterview): boolean {
+    return interview.isCatiMode && interview.metadata?.isCompleted === false;
+  }
+
+  /**
+   * Sync a CATI call outcome recorded offline
+   * Sent with its abandon reason, callback time and disposition so the queue entry is
+   * closed or rescheduled on the server
+   */
+  private async syncCatiOutcome(interview: OfflineInterview, catiQueueId: string): Promise<void> {
+    const metadata = interview.metadata || {};
+    // Consent refusals happen on a connected call - they don't count towards call status stats
+    const callStatus = metadata.abandonReason === 'consent_refused' ? undefined : interview.responses['call-status'];
+
+    const result = await apiService.abandonCatiInterview(
+      catiQueueId,
+      metadata.abandonReason || undefined,
+      metadata.abandonNotes || undefined,
+      metadata.callLaterDate || undefined,
+      callStatus || undefined,
+      metadata.disposition || undefined
+    );
+
+    if (!result.success) {
+      throw syncErrorFromResult(result, 'Failed to record CATI call outcome');
+    }
+
+    interview.syncStage = 'responses_completed';
+    await offlineStorage.saveOfflineInterview(interview);
+
+    console.log(`✅ CATI call outcome synced successfully: ${interview.id} (${metadata.abandonReason || 'no reason'})`);
+  }
+
   /**
    * Build final responses array from interview responses
    */
   private async buildFinalResponses(interview: OfflineInterview): Promise<any[]> {
-    const finalResponses: any[] = [];
-    
     // Fetch survey from cache if not stored in interview
     let survey = interview.survey;
     if (!survey && interview.surveyId) {
@@ -951,70 +1363,7 @@ class SyncService {
       throw new Error('Survey is required to build final responses');
     }
 
-    // Get all questions from survey
-    const allQuestions: any[] = [];
-    if (survey.sections) {
-      survey.sections.forEach((section: any, sectionIndex: number) => {
-        if (section.questions) {
-          section.questions.forEach((question: any, questionIndex: number) => {
-            allQuestions.push({
-              ...question,
-              sectionIndex,
-              questionIndex,
-            });
-          });
-        }
-      });
-    }
-
-    // Build responses array
-    allQuestions.forEach((question: any) => {
-      const responseValue = interview.responses[question.id];
-
-      // Skip if no response and question is not required
-      if (responseValue === undefined || responseValue === null || responseValue === '') {
-        if (question.isRequired) {
-          // Include required questions even if empty (will be marked as skipped)
-          finalResponses.push({
-            sectionIndex: question.sectionIndex,
-            questionIndex: question.questionIndex,
-            questionId: question.id,
-            questionType: question.type,
-            questionText: question.text,
-            questionDescription: question.description,
-            questionOptions: question.options
-              ? question.options.map((opt: any) => (typeof opt === 'object' ? opt.text : opt))
-              : [],
-            response: null,
-            responseTime: 0,
-            isRequired: question.isRequired,
-            isSkipped: true,
-          });
-        }
-        return;
-      }
-
-      // Build response object
-      const responseObj: any = {
-        sectionIndex: question.sectionIndex,
-        questionIndex: question.questionIndex,
-        questionId: question.id,
-        questionType: question.type,
-        questionText: question.text,
-        questionDescription: question.description,
-        questionOptions: question.options
-          ? question.options.map((opt: any) => (typeof opt === 'object' ? opt.text : opt))
-          : [],
-        response: responseValue,
-        responseTime: 0, // Could be calculated if stored
-        isRequired: question.isRequired || false,
-        isSkipped: false,
-      };
-
-      finalResponses.push(responseObj);
-    });
-
-    return finalResponses;
+    return buildFinalResponses(survey, interview.responses, interview.paradata);
   }
 
   /**
@@ -62,6 +62,148 @@ export interface Survey {
   startDate?: string;
   purpose?: string;
   costPerInterview?: number;
+  computedVariables?: ComputedVariable[];
+  quotas?: QuotaDefinition[];
+  sectionRandomization?: SectionRandomization; // Order of the sections (blocks)
+  dispositionCodes?: DispositionCode[]; // CATI call outcomes (default: the standard call statuses)
+  capiQuestionSets?: boolean; // CAPI interviews also ask a single rotated question set (sets are CATI-only by default)
+}
+
+// AAPOR final disposition categories: complete (I), partial (P), refusal and break-off (R),
+// non-contact (NC), other eligible non-interview (O), unknown eligibility (U), not eligible (NE)
+export type AaporCategory =
+  | 'complete'
+  | 'partial'
+  | 'refusal'
+  | 'non_contact'
+  | 'other_eligible'
+  | 'unknown_eligibility'
+  | 'not_eligible';
+
+export type DispositionFollowUp = 'refusal_reason' | 'callback_time' | 'notes';
+
+// One CATI call outcome the interviewer can select as the call status
+export interface DispositionCode {
+  code: string; // Saved as the call status
+  label: string; // May include translations: 'Busy {ব্যস্ত}'
+  aaporCategory: AaporCategory; // Connected calls are categorized by how the interview ends
+  isConnected?: boolean; // The respondent is on the line - the interview continues
+  abandonReason?: string; // Abandon reason sent for the call (default: the code)
+  requires?: DispositionFollowUp[]; // Follow-ups the interviewer must fill in
+  refusalReasons?: string[]; // Choices for refusal_reason (free text if not set)
+}
+
+// Call outcome recorded with a CATI interview
+export interface CallDisposition {
+  code: string;
+  aaporCategory: AaporCategory;
+  refusalReason?: string;
+  callbackTime?: string;
+  notes?: string;
+}
+
+// A previous call to a CATI respondent, by any interviewer
+export interface RespondentCallAttempt {
+  attemptedAt: string;
+  interviewerName?: string | null;
+  callStatus?: string | null; // Call status (disposition code) of the attempt
+  aaporCategory?: AaporCategory | null;
+  abandonReason?: string | null;
+  refusalReason?: string | null;
+  callbackTime?: string | null;
+  notes?: string | null;
+}
+
+// Call history and contact preferences of a CATI respondent
+export interface RespondentHistory {
+  attempts: RespondentCallAttempt[];
+  preferredLanguage?: string | null;
+  bestTimeToCall?: string | null;
+}
+
+// How a list of items (options, questions, sections) is reordered per interview:
+// shuffle = random order; rotate = cyclic shift by the interview's rotation index;
+// reverse = original or reversed order, alternating between interviews;
+// latin_square = balanced Latin square row for the interview's rotation index
+// (each item appears in each position, and before each other item, equally often)
+export type RandomizationStrategy = 'none' | 'shuffle' | 'rotate' | 'reverse' | 'latin_square';
+
+export interface OptionRandomization {
+  strategy: RandomizationStrategy;
+  anchors?: string[]; // Option values (or codes) that keep their position
+  groups?: Array<{ options: string[]; shuffleWithin?: boolean }>; // Options that move together, e.g. parties of one alliance
+}
+
+export interface QuestionRandomization {
+  strategy: RandomizationStrategy;
+  fixedQuestionIds?: string[]; // Questions that keep their position in the section
+}
+
+export interface SectionRandomization {
+  strategy: RandomizationStrategy;
+  sectionIds?: string[]; // Sections that change places (default all) - the others keep their position
+}
+
+// Orders realized for one interview - recorded with the response so analysts can control for order effects
+export interface RandomizationRecord {
+  seed: string; // Seed of the interview's random orders
+  rotationIndex: number; // Interview's row for rotation and Latin-square strategies
+  sectionOrder?: string[]; // Section IDs, in the order asked
+  questionOrders: Record<string, string[]>; // Question IDs by section ID, in the order asked
+  optionOrders: Record<string, string[]>; // Option values by question ID, in the order shown
+}
+
+// What a quota is split on: a question's answer or a computed value such as 'age_band' or 'ac'
+export interface QuotaDimension {
+  questionId?: string;
+  computed?: string;
+  label?: string; // e.g. 'Gender', 'Age band'
+}
+
+// One cell of a quota - the dimension values it counts (in dimension order) and its target
+export interface QuotaCell {
+  key: string;
+  label?: string; // e.g. 'Female, 18-24, Kolkata Port'
+  values: string[]; // Option values/texts or computed values; '*' matches any answer
+  target: number;
+}
+
+// A quota on one question or a combination of questions (age band x gender x AC, caste, urban/rural, ...)
+export interface QuotaDefinition {
+  id: string;
+  name: string;
+  dimensions: QuotaDimension[];
+  cells: QuotaCell[];
+  screenOut?: boolean; // Stop the interview once the respondent falls in a full cell (default true)
+}
+
+// Quota cell with its counts: server count from the last fetch plus unsynced local interviews
+export interface QuotaCellStatus extends QuotaCell {
+  quotaId: string;
+  serverCount: number;
+  localCount: number;
+  currentCount: number;
+  percentage: number;
+  isFull: boolean;
+}
+
+export interface QuotaStatus {
+  quota: QuotaDefinition;
+  cells: QuotaCellStatus[];
+  countsUpdatedAt?: string; // When the server counts were fetched
+}
+
+// A survey-level value derived from earlier responses, usable in conditions and piped into text as {{name}}
+export interface ComputedVariable {
+  name: string;
+  type: 'answer' | 'band' | 'map' | 'sum' | 'conditional';
+  questionId?: string; // Source question (answer, band, map)
+  computed?: string; // Source computed value instead of a question (band, map)
+  bands?: Array<{ label: string; min?: number; max?: number }>; // band: inclusive ranges
+  map?: Record<string, string>; // map: source value -> result
+  questionIds?: string[]; // sum: numeric questions to add up
+  cases?: Array<{ when: ConditionNode; value: any }>; // conditional: first matching case wins
+  defaultValue?: any; // When nothing matches
 }
 
 export interface Section {
@@ -71,18 +213,30 @@ export interface Section {
   description?: string;
   questions: Question[];
   order: number;
+  questionRandomization?: QuestionRandomization; // Order of the section's questions
+  roster?: RosterSettings; // Repeat the section's questions for each item of an earlier answer
+}
+
+// Roster section - one iteration per item of the source answer: a count (number of household members),
+// a list of selected options, or a text list of names (one per line or comma-separated)
+export interface RosterSettings {
+  sourceQuestionId: string;
+  itemLabel?: string; // Label of counted items (default 'Member' - "Member 1", "Member 2", ...)
+  maxIterations?: number; // Upper bound on iterations (default 20)
 }
 
 export interface Question {
   _id?: string;
   id?: string;
-  type: 'text' | 'multiple_choice' | 'single_choice' | 'rating' | 'date' | 'number' | 'numeric';
+  type: 'text' | 'multiple_choice' | 'single_choice' | 'rating' | 'date' | 'number' | 'numeric' | 'matrix' | 'ranking' | 'constant_sum' | 'photo' | 'signature' | 'gps';
   text: string;
   options?: string[] | Array<{ id?: string; text: string; value?: string; code?: string }>;
+  rows?: Array<{ id?: string; text: string; value?: string; code?: string }>; // matrix: statements/leaders rated on the options scale
   required: boolean;
   order: number;
   description?: string;
-  conditions?: any[];
+  conditions?: Array<ConditionRule | ConditionGroup | ConditionNot>; // Flat list joined left to right by each item's logic (no precedence)
+  conditionExpression?: ConditionNode; // Expression tree - takes precedence over conditions
   scale?: {
     min?: number;
     max?: number;
@@ -96,13 +250,136 @@ export interface Question {
     max?: number;
     pattern?: string;
   };
+  validationRules?: ValidationRule[]; // Checked when the question is answered, in addition to validation
   settings?: {
     allowMultiple?: boolean;
     maxSelections?: number;
     allowOther?: boolean;
+    total?: number; // constant_sum: amount to allocate across options (default 100)
+    maxAccuracy?: number; // gps: largest accepted accuracy radius in meters
+    shuffleOptions?: boolean; // Legacy: shuffle multiple choice options (default true)
+    optionRandomization?: OptionRandomization; // Declarative option order - replaces shuffleOptions
   };
 }
 
+export type ValidationOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'between'
+  | 'pattern'
+  | 'min_length'
+  | 'max_length'
+  | 'phone_number';
+
+// Check on a question's answer - hard rules block the interview, soft rules need the interviewer to confirm
+export interface ValidationRule {
+  id: string;
+  severity: 'hard' | 'soft';
+  operator: ValidationOperator;
+  value?: any; // [min, max] for between, a regular expression for pattern, a length for min_length/max_length
+  questionId?: string; // Compare with another question's answer instead of value ("years living here <= age")
+  computed?: string; // Compare with a computed value instead of value
+  when?: ConditionNode; // Only check the rule when this holds
+  message: string;
+}
+
+// A soft rule the interviewer confirmed - stored with the interview for quality review
+export interface ValidationOverride {
+  questionId: string;
+  ruleId: string;
+  message: string;
+  response: any; // Answer at confirmation (a changed answer needs a new confirmation)
+  confirmedAt: string;
+}
+
+// Position in the interview recording - seconds into the recording, and which recording
+// (resumed CAPI interviews have one recording per interruption, earlier ones first)
+export interface AudioPosition {
+  audioOffset?: number;
+  audioSegment?: number;
+}
+
+// How the interviewer moved through one question
+export interface QuestionParadata {
+  visits: Array<AudioPosition & { shownAt: string; leftAt?: string }>; // Every time the question was shown
+  timeSpentMs: number; // Time on screen over all visits
+  answerChanges: Array<AudioPosition & { at: string; change: AnswerChangeType }>; // Every answer given, in order
+}
+
+// What an answer change did - answers themselves are never part of paradata
+export type AnswerChangeType = 'answered' | 'changed' | 'cleared';
+
+// Paradata of an interview - stored with the offline interview and sent with the response for QC
+export interface InterviewParadata {
+  questions: Record<string, QuestionParadata>; // Keyed by question ID (response key for roster iterations)
+  backNavigationCount: number;
+}
+
+// Answer of a photo or signature question - the file stays on the device (encrypted) until sync uploads it
+export interface MediaResponse {
+  type: 'photo' | 'signature';
+  offlinePath?: string; // Encrypted copy in offline storage (removed from submitted responses)
+  mediaUrl?: string; // Server URL/key once uploaded
+  mimeType: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+  capturedAt: string;
+}
+
+// Answer of a GPS question
+export interface GpsResponse {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // Meters
+  altitude?: number | null;
+  capturedAt: string;
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'is_selected'
+  | 'is_not_selected'
+  | 'in'
+  | 'not_in'
+  | 'between';
+
+// A single comparison against a question's response or a computed value (e.g. 'age_band', 'ac')
+export interface ConditionRule {
+  type?: 'rule';
+  questionId?: string;
+  computed?: string;
+  operator: ConditionOperator;
+  value?: any; // A list for in/not_in, [min, max] for between
+  logic?: 'AND' | 'OR'; // Join with the previous item in a flat conditions list
+}
+
+export interface ConditionGroup {
+  type: 'group';
+  combinator: 'AND' | 'OR'; // How the children are combined
+  conditions: ConditionNode[];
+  logic?: 'AND' | 'OR';
+}
+
+export interface ConditionNot {
+  type: 'not';
+  condition: ConditionNode;
+  logic?: 'AND' | 'OR';
+}
+
+export type ConditionNode = ConditionRule | ConditionGroup | ConditionNot;
+
 export interface SurveyResponse {
   _id: string;
   surveyId: string;
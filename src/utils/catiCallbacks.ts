@@ -0,0 +1,94 @@
+/**
+ * CATI callback utilities for React Native
+ * A callback is a respondent who asked to be called again at a set time ("Call Later"),
+ * kept on the interviewer's own call-back list so the same interviewer can call them back
+ */
+
+export interface CatiCallback {
+  id: string;
+  queueId: string; // CATI queue entry to call again
+  surveyId: string;
+  surveyName: string | null;
+  respondentName: string | null; // First name only - the list is shown on the device
+  acName: string | null;
+  dueAt: string; // When the respondent asked to be called
+  notes: string | null;
+  notificationId: string | null; // Scheduled reminder
+  createdAt: string;
+}
+
+export interface CallbackGroups {
+  overdue: CatiCallback[];
+  today: CatiCallback[];
+  upcoming: CatiCallback[];
+}
+
+// Reminders go off this long before a callback is due
+export const CALLBACK_REMINDER_LEAD_MINUTES = 5;
+
+/**
+ * Parse the callback time entered by the interviewer
+ * Accepts "YYYY-MM-DD HH:MM" (device local time) or any ISO date.
+ * @param input - Entered time
+ * @returns The time, or null if it can't be read
+ */
+export const parseCallbackTime = (input: string | null | undefined): Date | null => {
+  const text = String(input ?? '').trim();
+  if (!text) {
+    return null;
+  }
+
+  const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})$/);
+  if (match) {
+    const [, year, month, day, hour, minute] = match.map(Number);
+    const date = new Date(year, month - 1, day, hour, minute);
+    // Reject dates that rolled over (2025-02-30, 25:00)
+    if (date.getMonth() !== month - 1 || date.getDate() !== day || date.getHours() !== hour) {
+      return null;
+    }
+    return date;
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Sort callbacks by due time, earliest first
+ */
+export const sortCallbacks = (callbacks: CatiCallback[]): CatiCallback[] => {
+  return [...callbacks].sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+};
+
+/**
+ * Split callbacks into overdue, due later today and upcoming (each sorted by due time)
+ * @param callbacks - Callbacks
+ * @param now - Current time
+ */
+export const groupCallbacks = (callbacks: CatiCallback[], now: Date = new Date()): CallbackGroups => {
+  const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+  const groups: CallbackGroups = { overdue: [], today: [], upcoming: [] };
+  sortCallbacks(callbacks).forEach((callback) => {
+    const dueTime = new Date(callback.dueAt).getTime();
+    if (dueTime <= now.getTime()) {
+      groups.overdue.push(callback);
+    } else if (dueTime < endOfToday) {
+      groups.today.push(callback);
+    } else {
+      groups.upcoming.push(callback);
+    }
+  });
+  return groups;
+};
+
+/**
+ * When to remind the interviewer of a callback
+ * @returns Reminder time, or null if the callback is already due
+ */
+export const getReminderTime = (dueAt: string, now: Date = new Date()): Date | null => {
+  const dueTime = new Date(dueAt).getTime();
+  if (isNaN(dueTime) || dueTime <= now.getTime()) {
+    return null;
+  }
+  return new Date(Math.max(now.getTime() + 1000, dueTime - CALLBACK_REMINDER_LEAD_MINUTES * 60 * 1000));
+};
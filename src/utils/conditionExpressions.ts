@@ -0,0 +1,204 @@
+/**
+ * Condition expression utilities for React Native
+ * Evaluates question skip logic - rules, nested AND/OR groups and NOT - against
+ * responses and computed values, the same way in CAPI and CATI
+ */
+import { ConditionGroup, ConditionNode, ConditionRule } from '../types';
+import { getMainText } from './translations';
+
+export interface ConditionScope {
+  responses: Record<string, any>; // Responses keyed by question ID
+  allQuestions: any[]; // Questions of the interview (for option lookups)
+  computedValues: Record<string, any>; // Values such as age_band or ac, keyed by name
+}
+
+/**
+ * Build the expression tree from a flat conditions list
+ * Flat lists keep the left-to-right evaluation surveys were written against: each item's logic
+ * joins it to the result so far, so "A OR B AND C" is (A OR B) AND C - there is no AND-over-OR
+ * precedence. Precedence and grouping come from nested groups (or conditionExpression).
+ * Items may themselves be groups or NOT nodes.
+ * @param conditions - Flat conditions list
+ * @returns Expression tree
+ */
+export const conditionsToExpression = (conditions: ConditionNode[]): ConditionNode => {
+  let expression = conditions[0];
+  let run: ConditionGroup | null = null;
+  conditions.slice(1).forEach((condition) => {
+    const combinator = condition.logic || 'AND';
+    // Any other logic value never changed the result of the old evaluation
+    if (combinator !== 'AND' && combinator !== 'OR') {
+      return;
+    }
+    // Runs of the same logic share one group: A AND B AND C is a single AND group
+    if (run && run.combinator === combinator) {
+      run.conditions.push(condition);
+      return;
+    }
+    run = { type: 'group', combinator, conditions: [expression, condition] };
+    expression = run;
+  });
+  return expression;
+};
+
+/**
+ * Get a question's skip logic as an expression tree
+ * @param question - Question with conditionExpression or conditions
+ * @returns Expression tree, or null if the question is unconditional
+ */
+export const getConditionExpression = (question: any): ConditionNode | null => {
+  if (question?.conditionExpression) {
+    return question.conditionExpression;
+  }
+  if (Array.isArray(question?.conditions) && question.conditions.length > 0) {
+    return conditionsToExpression(question.conditions);
+  }
+  return null;
+};
+
+/**
+ * Get the IDs of the questions an expression depends on
+ * @param node - Expression tree
+ * @returns Question IDs referenced by its rules
+ */
+export const getConditionQuestionIds = (node: ConditionNode): string[] => {
+  if (node.type === 'group') {
+    return node.conditions.flatMap(getConditionQuestionIds);
+  }
+  if (node.type === 'not') {
+    return getConditionQuestionIds(node.condition);
+  }
+  return node.questionId ? [node.questionId] : [];
+};
+
+const hasContent = (response: any): boolean => {
+  if (typeof response === 'string') return response.trim().length > 0;
+  if (Array.isArray(response)) return response.length > 0;
+  if (typeof response === 'number') return !isNaN(response) && isFinite(response);
+  return true;
+};
+
+// Numeric value of a response (first element of an array, value or text of an option object)
+const toNumber = (value: any): number => {
+  let numericValue = Array.isArray(value) ? value[0] : value;
+  if (typeof numericValue === 'object' && numericValue !== null) {
+    numericValue = numericValue.value || numericValue.text || numericValue;
+  }
+  return parseFloat(String(numericValue ?? '').trim());
+};
+
+const toBound = (value: any, fallback: number): number => {
+  if (value === null || value === undefined || value === '') return fallback;
+  const bound = parseFloat(String(value));
+  return isNaN(bound) ? fallback : bound;
+};
+
+/**
+ * Main text (without translation) a value compares as
+ * Values that refer to an option of the target question compare as that option's text.
+ */
+const getComparisonValue = (val: any, targetQuestion: any): string => {
+  if (val === null || val === undefined) return '';
+  const strVal = String(val);
+  const mainText = getMainText(strVal).toLowerCase().trim();
+
+  if (targetQuestion && Array.isArray(targetQuestion.options)) {
+    for (const option of targetQuestion.options) {
+      const optionValue = typeof option === 'object' ? (option.value || option.text) : option;
+      const optionText = typeof option === 'object' ? option.text : option;
+      const optionMainText = getMainText(String(optionText)).toLowerCase().trim();
+
+      // Translations may differ - match on main text too
+      if (strVal === String(optionValue) || strVal === String(optionText) || mainText === optionMainText) {
+        return optionMainText;
+      }
+    }
+  }
+
+  return mainText;
+};
+
+const evaluateRule = (rule: ConditionRule, scope: ConditionScope): boolean => {
+  const response = rule.computed
+    ? scope.computedValues[rule.computed]
+    : rule.questionId ? scope.responses[rule.questionId] : undefined;
+
+  // Unanswered questions (and unknown computed values) never meet a rule
+  if (response === undefined || response === null) {
+    return false;
+  }
+
+  const targetQuestion = rule.questionId
+    ? scope.allQuestions.find((q: any) => q.id === rule.questionId)
+    : undefined;
+  const toComparison = (val: any) => getComparisonValue(val, targetQuestion);
+  const responseValues: string[] = Array.isArray(response) ? response.map(toComparison) : [toComparison(response)];
+  const conditionValue = toComparison(rule.value);
+  const isMatch = responseValues.some((r) => r === conditionValue);
+
+  switch (rule.operator) {
+    case 'equals':
+    case 'is_selected':
+      return isMatch;
+    case 'not_equals':
+    case 'is_not_selected':
+      return !isMatch;
+    case 'contains':
+      return responseValues.join(' ').includes(conditionValue);
+    case 'not_contains':
+      return !responseValues.join(' ').includes(conditionValue);
+    case 'in':
+    case 'not_in': {
+      const listValues = (Array.isArray(rule.value) ? rule.value : String(rule.value ?? '').split(','))
+        .map(toComparison);
+      const isListed = responseValues.some((r) => listValues.includes(r));
+      return rule.operator === 'in' ? isListed : !isListed;
+    }
+    case 'greater_than': {
+      const responseNum = toNumber(response);
+      const conditionNum = toNumber(rule.value);
+      return !isNaN(responseNum) && !isNaN(conditionNum) && responseNum > conditionNum;
+    }
+    case 'less_than': {
+      const responseNum = toNumber(response);
+      const conditionNum = toNumber(rule.value);
+      return !isNaN(responseNum) && !isNaN(conditionNum) && responseNum < conditionNum;
+    }
+    case 'between': {
+      // Inclusive; value is [min, max] or { min, max } and a missing bound is open
+      const [min, max] = Array.isArray(rule.value) ? rule.value : [rule.value?.min, rule.value?.max];
+      const responseNum = toNumber(response);
+      return !isNaN(responseNum) &&
+        responseNum >= toBound(min, -Infinity) &&
+        responseNum <= toBound(max, Infinity);
+    }
+    case 'is_empty':
+      return !hasContent(response);
+    case 'is_not_empty':
+      return hasContent(response);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate an expression tree
+ * Empty groups place no constraint and evaluate to true.
+ * @param node - Expression tree
+ * @param scope - Responses, questions and computed values
+ * @returns True if the expression holds
+ */
+export const evaluateConditionExpression = (node: ConditionNode, scope: ConditionScope): boolean => {
+  if (node.type === 'group') {
+    if (!node.conditions || node.conditions.length === 0) {
+      return true;
+    }
+    return node.combinator === 'OR'
+      ? node.conditions.some((child) => evaluateConditionExpression(child, scope))
+      : node.conditions.every((child) => evaluateConditionExpression(child, scope));
+  }
+  if (node.type === 'not') {
+    return !evaluateConditionExpression(node.condition, scope);
+  }
+  return evaluateRule(node, scope);
+};
@@ -0,0 +1,263 @@
+/**
+ * Call disposition utilities for React Native
+ * A survey's CATI call outcomes (the call status question) and their AAPOR categories,
+ * the follow-ups each outcome needs, and AAPOR response, cooperation, refusal and contact rates.
+ */
+import {
+  AaporCategory,
+  CallDisposition,
+  DispositionCode,
+  DispositionFollowUp,
+} from '../types';
+import { parseCallbackTime } from './catiCallbacks';
+import { getMainText } from './translations';
+
+export const CALL_CONNECTED_CODE = 'call_connected';
+
+// Call statuses of surveys without their own disposition codes
+// (the connected code's category is never used - connected calls take the category of how the interview ends)
+export const DEFAULT_DISPOSITION_CODES: DispositionCode[] = [
+  { code: CALL_CONNECTED_CODE, label: 'Call Connected {কল সংযুক্ত হয়েছে}', aaporCategory: 'complete', isConnected: true },
+  { code: 'busy', label: 'Busy {ব্যস্ত}', aaporCategory: 'unknown_eligibility' },
+  { code: 'switched_off', label: 'Switched Off {সুইচ অফ}', aaporCategory: 'unknown_eligibility' },
+  { code: 'not_reachable', label: 'Not Reachable {পৌঁছানো যায়নি}', aaporCategory: 'unknown_eligibility' },
+  { code: 'did_not_pick_up', label: 'Did Not Pick Up {উত্তর দেননি}', aaporCategory: 'unknown_eligibility', abandonReason: 'no_answer' },
+  { code: 'number_does_not_exist', label: 'Number Does Not Exist {নম্বর বিদ্যমান নেই}', aaporCategory: 'not_eligible', abandonReason: 'does_not_exist' },
+  { code: 'didnt_get_call', label: "Didn't Get Call {কল পাননি}", aaporCategory: 'unknown_eligibility', abandonReason: 'technical_issue' },
+];
+
+// How a connected call ends when the interview is abandoned, by abandon reason
+const ABANDON_REASON_CATEGORIES: Record<string, AaporCategory> = {
+  consent_refused: 'refusal',
+  respondent_refused: 'refusal',
+  not_interested: 'refusal',
+  rejected: 'refusal',
+  call_later: 'other_eligible',
+  language_barrier: 'other_eligible',
+  quota_full: 'not_eligible',
+  not_voter: 'not_eligible',
+  does_not_exist: 'not_eligible',
+  busy: 'unknown_eligibility',
+  no_answer: 'unknown_eligibility',
+  switched_off: 'unknown_eligibility',
+  not_reachable: 'unknown_eligibility',
+  technical_issue: 'unknown_eligibility',
+};
+
+const FOLLOW_UP_LABELS: Record<DispositionFollowUp, string> = {
+  refusal_reason: 'refusal reason',
+  callback_time: 'callback time',
+  notes: 'notes',
+};
+
+export interface DispositionFollowUps {
+  refusalReason?: string;
+  callbackTime?: string; // As entered: YYYY-MM-DD HH:MM
+  notes?: string;
+}
+
+export interface AaporRates {
+  responseRate1: number; // RR1: completes over all eligible and unknown-eligibility cases
+  responseRate2: number; // RR2: as RR1, counting partials as responses
+  cooperationRate1: number; // COOP1: completes over all contacted eligible cases
+  refusalRate1: number; // REF1: refusals over all eligible and unknown-eligibility cases
+  contactRate1: number; // CON1: contacted cases over all eligible and unknown-eligibility cases
+  totalCases: number;
+}
+
+/**
+ * Get a survey's disposition codes
+ */
+export const getDispositionCodes = (survey: any): DispositionCode[] => {
+  return Array.isArray(survey?.dispositionCodes) && survey.dispositionCodes.length > 0
+    ? survey.dispositionCodes
+    : DEFAULT_DISPOSITION_CODES;
+};
+
+/**
+ * Find a disposition code by the call status saved for it
+ */
+export const findDispositionCode = (codes: DispositionCode[], code: any): DispositionCode | null => {
+  if (code === null || code === undefined || code === '') {
+    return null;
+  }
+  return codes.find((disposition) => disposition.code === String(code)) || null;
+};
+
+/**
+ * Check if a call status means the respondent is on the line
+ */
+export const isConnectedDisposition = (code: any, codes: DispositionCode[] = DEFAULT_DISPOSITION_CODES): boolean => {
+  const disposition = findDispositionCode(codes, code);
+  return disposition ? !!disposition.isConnected : code === CALL_CONNECTED_CODE;
+};
+
+/**
+ * Options of the call status question
+ */
+export const getDispositionOptions = (codes: DispositionCode[]): Array<{ id: string; text: string; value: string; code: string }> => {
+  return codes.map((disposition) => ({
+    id: disposition.code.replace(/_/g, '-'),
+    text: disposition.label,
+    value: disposition.code,
+    code: disposition.code,
+  }));
+};
+
+/**
+ * Abandon reason sent for a call that didn't connect
+ */
+export const getDispositionAbandonReason = (disposition: DispositionCode): string => {
+  return disposition.abandonReason || disposition.code;
+};
+
+/**
+ * Check the follow-ups a call outcome requires
+ * @param disposition - Selected call outcome
+ * @param followUps - Follow-ups entered by the interviewer
+ * @returns Message for the first missing or invalid follow-up, or null
+ */
+export const getDispositionFollowUpError = (
+  disposition: DispositionCode | null,
+  followUps: DispositionFollowUps,
+  now: Date = new Date()
+): string | null => {
+  for (const followUp of disposition?.requires || []) {
+    if (followUp === 'callback_time') {
+      if (!followUps.callbackTime?.trim()) {
+        return 'Please enter the callback time.';
+      }
+      const callbackTime = parseCallbackTime(followUps.callbackTime);
+      if (!callbackTime) {
+        return 'Please enter the callback time as YYYY-MM-DD HH:MM';
+      }
+      if (callbackTime.getTime() <= now.getTime()) {
+        return 'Callback time must be in the future';
+      }
+      continue;
+    }
+    const value = followUp === 'refusal_reason' ? followUps.refusalReason : followUps.notes;
+    if (!value?.trim()) {
+      return `Please enter the ${FOLLOW_UP_LABELS[followUp]} for "${getMainText(disposition!.label)}".`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Notes sent with a call that didn't connect
+ */
+export const getDispositionNotes = (disposition: DispositionCode, followUps: DispositionFollowUps): string => {
+  const required = disposition.requires || [];
+  const refusalReason = required.includes('refusal_reason') ? followUps.refusalReason?.trim() : '';
+  const notes = required.includes('notes') ? followUps.notes?.trim() : '';
+  return [
+    `Call status: ${disposition.code}`,
+    refusalReason ? `Refusal reason: ${refusalReason}` : null,
+    notes || null,
+  ].filter(Boolean).join(' - ');
+};
+
+/**
+ * AAPOR category of a connected call abandoned for a reason
+ * @returns Category, or null for reasons without one (e.g. "other")
+ */
+export const getAbandonReasonCategory = (abandonReason: string | null | undefined): AaporCategory | null => {
+  return (abandonReason && ABANDON_REASON_CATEGORIES[abandonReason]) || null;
+};
+
+/**
+ * AAPOR category of a finished CATI interview
+ * Calls that didn't connect take their code's category; connected calls are categorized
+ * by how the interview ended.
+ * @param disposition - Call outcome selected as the call status
+ * @param outcome - Whether the interview was completed, why it was abandoned and whether survey questions were answered
+ */
+export const getAaporCategory = (
+  disposition: DispositionCode | null,
+  outcome: { isCompleted: boolean; abandonReason?: string | null; hasSurveyAnswers: boolean }
+): AaporCategory => {
+  if (disposition && !disposition.isConnected) {
+    return disposition.aaporCategory;
+  }
+  if (outcome.isCompleted) {
+    return 'complete';
+  }
+  const reasonCategory = outcome.abandonReason ? ABANDON_REASON_CATEGORIES[outcome.abandonReason] : undefined;
+  if (reasonCategory) {
+    return reasonCategory;
+  }
+  // Broken off without a known reason
+  return outcome.hasSurveyAnswers ? 'partial' : 'other_eligible';
+};
+
+/**
+ * Build the call disposition recorded with a CATI interview
+ */
+export const buildCallDisposition = (
+  codes: DispositionCode[],
+  callStatus: any,
+  outcome: { isCompleted: boolean; abandonReason?: string | null; hasSurveyAnswers: boolean },
+  followUps: DispositionFollowUps
+): CallDisposition => {
+  const disposition = findDispositionCode(codes, callStatus);
+  const required = disposition?.requires || [];
+  const callbackTime = required.includes('callback_time') ? parseCallbackTime(followUps.callbackTime) : null;
+  return {
+    code: disposition?.code || String(callStatus || CALL_CONNECTED_CODE),
+    aaporCategory: getAaporCategory(disposition, outcome),
+    refusalReason: required.includes('refusal_reason') ? followUps.refusalReason?.trim() || undefined : undefined,
+    callbackTime: callbackTime ? callbackTime.toISOString() : undefined,
+    notes: required.includes('notes') ? followUps.notes?.trim() || undefined : undefined,
+  };
+};
+
+const AAPOR_CATEGORIES: AaporCategory[] = [
+  'complete',
+  'partial',
+  'refusal',
+  'non_contact',
+  'other_eligible',
+  'unknown_eligibility',
+  'not_eligible',
+];
+
+/**
+ * Count call outcomes by AAPOR category
+ * Counts must come from the category recorded with each call (CallDisposition.aaporCategory).
+ * A disposition code can't stand in for it: a connected call may end as a complete, a partial,
+ * a refusal or a screen-out.
+ * @param countsByCategory - Number of calls per recorded AAPOR category (unknown keys are ignored)
+ */
+export const countByAaporCategory = (countsByCategory: Record<string, number>): Record<AaporCategory, number> => {
+  const counts = {} as Record<AaporCategory, number>;
+  AAPOR_CATEGORIES.forEach((category) => {
+    const count = Number(countsByCategory[category]);
+    counts[category] = count > 0 ? count : 0;
+  });
+  return counts;
+};
+
+/**
+ * AAPOR outcome rates (RR1, RR2, COOP1, REF1, CON1), as percentages
+ * Unknown-eligibility cases are all counted as eligible (e = 1), the most conservative estimate.
+ * @param counts - Calls per AAPOR category
+ * @returns Rates, or null if there are no eligible or unknown-eligibility cases
+ */
+export const calculateAaporRates = (counts: Record<AaporCategory, number>): AaporRates | null => {
+  const interviews = counts.complete + counts.partial;
+  const contacted = interviews + counts.refusal + counts.other_eligible;
+  const base = contacted + counts.non_contact + counts.unknown_eligibility;
+  if (base === 0) {
+    return null;
+  }
+  const percent = (value: number, total: number) => (total > 0 ? Math.round((value / total) * 1000) / 10 : 0);
+  return {
+    responseRate1: percent(counts.complete, base),
+    responseRate2: percent(interviews, base),
+    cooperationRate1: percent(counts.complete, contacted),
+    refusalRate1: percent(counts.refusal, base),
+    contactRate1: percent(contacted, base),
+    totalCases: base + counts.not_eligible,
+  };
+};
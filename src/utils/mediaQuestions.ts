@@ -0,0 +1,98 @@
+/**
+ * Media and location question utilities for React Native
+ * Photo, signature and GPS-capture questions - response shapes, validation and display
+ *
+ * Responses are stored as:
+ * - photo / signature: MediaResponse - an encrypted file in offline storage until sync uploads it
+ * - gps: GpsResponse - a point capture with its accuracy
+ */
+import { MediaResponse, GpsResponse } from '../types';
+
+export const MEDIA_QUESTION_TYPES = ['photo', 'signature'];
+
+/**
+ * Check if a question captures a photo or signature file
+ */
+export const isMediaQuestion = (question: any): boolean => {
+  return !!question && MEDIA_QUESTION_TYPES.includes(question.type);
+};
+
+/**
+ * Check if a response is a captured photo or signature
+ */
+export const isMediaResponse = (response: any): response is MediaResponse => {
+  return !!response && typeof response === 'object' && !Array.isArray(response) &&
+    MEDIA_QUESTION_TYPES.includes(response.type) && (!!response.offlinePath || !!response.mediaUrl);
+};
+
+/**
+ * Check if a response is a GPS capture
+ */
+export const isGpsResponse = (response: any): response is GpsResponse => {
+  return !!response && typeof response === 'object' &&
+    typeof response.latitude === 'number' && typeof response.longitude === 'number';
+};
+
+/**
+ * Photo and signature responses, keyed by question ID
+ * @param responses - Responses keyed by question ID
+ * @returns [questionId, media] pairs
+ */
+export const getMediaResponses = (responses: Record<string, any>): Array<[string, MediaResponse]> => {
+  return Object.entries(responses || {}).filter((entry): entry is [string, MediaResponse] => isMediaResponse(entry[1]));
+};
+
+/**
+ * Photo and signature responses that still have to be uploaded
+ */
+export const getPendingMediaUploads = (responses: Record<string, any>): Array<[string, MediaResponse]> => {
+  return getMediaResponses(responses).filter(([, media]) => !media.mediaUrl);
+};
+
+/**
+ * Response as it is submitted - the device-only file path is dropped from media responses
+ */
+export const toSubmittedResponse = (response: any): any => {
+  if (!isMediaResponse(response)) {
+    return response;
+  }
+  const { offlinePath, ...submitted } = response;
+  return submitted;
+};
+
+/**
+ * Validate a photo, signature or GPS response
+ * @param question - Photo, signature or GPS question
+ * @param response - Stored response
+ * @returns The message to show, or null if the response is acceptable
+ */
+export const getMediaResponseError = (question: any, response: any): string | null => {
+  switch (question?.type) {
+    case 'photo':
+    case 'signature':
+      if (response && !isMediaResponse(response)) {
+        return question.type === 'photo' ? 'Please take the photo again.' : 'Please capture the signature again.';
+      }
+      return null;
+    case 'gps': {
+      if (!response) return null;
+      if (!isGpsResponse(response)) {
+        return 'Please capture the location again.';
+      }
+      const maxAccuracy = Number(question.settings?.maxAccuracy);
+      if (maxAccuracy > 0 && response.accuracy > maxAccuracy) {
+        return `Location accuracy is ${Math.round(response.accuracy)}m - move to an open area and capture again (needs ${maxAccuracy}m or better).`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Readable text for a GPS capture
+ */
+export const formatGpsResponse = (response: GpsResponse): string => {
+  return `${response.latitude.toFixed(6)}, ${response.longitude.toFixed(6)} (±${Math.round(response.accuracy)}m)`;
+};
@@ -0,0 +1,173 @@
+/**
+ * Paradata utilities for React Native
+ * Records how an interview was conducted - time on each question, revisits, back navigation
+ * and every answer change with its position in the recording - so QC can spot rushed or
+ * fabricated interviews and jump to the right spot in the audio.
+ * Answer changes record only what kind of change it was, never the answers (names, phone
+ * numbers, device file paths) - paradata is uploaded alongside the responses.
+ * Functions return updated copies and never change the paradata passed in.
+ */
+import { AnswerChangeType, AudioPosition, InterviewParadata, QuestionParadata } from '../types';
+
+// Answer changes closer together than this (typing, adjusting a slider) are recorded as one change
+const ANSWER_CHANGE_MERGE_MS = 3000;
+
+export const createParadata = (): InterviewParadata => ({ questions: {}, backNavigationCount: 0 });
+
+const getQuestionParadata = (paradata: InterviewParadata, questionId: string): QuestionParadata => {
+  return paradata.questions[questionId] || { visits: [], timeSpentMs: 0, answerChanges: [] };
+};
+
+const hasAnswer = (response: any): boolean => {
+  if (response === null || response === undefined || response === '') return false;
+  if (Array.isArray(response)) return response.length > 0;
+  return true;
+};
+
+const getAnswerChangeType = (hadAnswer: boolean, response: any): AnswerChangeType => {
+  if (!hasAnswer(response)) return 'cleared';
+  return hadAnswer ? 'changed' : 'answered';
+};
+
+const withQuestion = (paradata: InterviewParadata, questionId: string, question: QuestionParadata): InterviewParadata => ({
+  ...paradata,
+  questions: { ...paradata.questions, [questionId]: question },
+});
+
+/**
+ * Record that a question was shown
+ * @param paradata - Interview paradata
+ * @param questionId - Question shown
+ * @param shownAt - When it was shown
+ * @param position - Position in the recording at that moment
+ */
+export const startQuestionVisit = (
+  paradata: InterviewParadata,
+  questionId: string,
+  shownAt: Date,
+  position: AudioPosition = {}
+): InterviewParadata => {
+  const question = getQuestionParadata(paradata, questionId);
+  return withQuestion(paradata, questionId, {
+    ...question,
+    visits: [...question.visits, { shownAt: shownAt.toISOString(), ...position }],
+  });
+};
+
+/**
+ * Record that the interviewer left a question, adding the visit's time to its time on screen
+ * (does nothing if the question has no open visit)
+ */
+export const endQuestionVisit = (paradata: InterviewParadata, questionId: string, leftAt: Date): InterviewParadata => {
+  const question = paradata.questions[questionId];
+  const lastVisit = question?.visits[question.visits.length - 1];
+  if (!lastVisit || lastVisit.leftAt) {
+    return paradata;
+  }
+  const visitMs = Math.max(0, leftAt.getTime() - new Date(lastVisit.shownAt).getTime());
+  return withQuestion(paradata, questionId, {
+    ...question,
+    timeSpentMs: question.timeSpentMs + visitMs,
+    visits: [...question.visits.slice(0, -1), { ...lastVisit, leftAt: leftAt.toISOString() }],
+  });
+};
+
+/**
+ * Close every open visit (before the interview is saved)
+ */
+export const endAllQuestionVisits = (paradata: InterviewParadata, leftAt: Date): InterviewParadata => {
+  return Object.keys(paradata.questions).reduce(
+    (updated, questionId) => endQuestionVisit(updated, questionId, leftAt),
+    paradata
+  );
+};
+
+/**
+ * Record a back navigation
+ */
+export const recordBackNavigation = (paradata: InterviewParadata): InterviewParadata => ({
+  ...paradata,
+  backNavigationCount: paradata.backNavigationCount + 1,
+});
+
+/**
+ * Record an answer change
+ * Changes within a few seconds of the previous one in the same visit are merged into it,
+ * so typing an answer is one change.
+ * @param paradata - Interview paradata
+ * @param questionId - Question answered
+ * @param from - Previous answer (only whether there was one is recorded)
+ * @param to - New answer (only whether there is one is recorded)
+ * @param at - When the answer changed
+ * @param position - Position in the recording at that moment
+ */
+export const recordAnswerChange = (
+  paradata: InterviewParadata,
+  questionId: string,
+  from: any,
+  to: any,
+  at: Date,
+  position: AudioPosition = {}
+): InterviewParadata => {
+  const question = getQuestionParadata(paradata, questionId);
+  const lastChange = question.answerChanges[question.answerChanges.length - 1];
+  const lastVisit = question.visits[question.visits.length - 1];
+  const isSameEdit = !!lastChange &&
+    at.getTime() - new Date(lastChange.at).getTime() < ANSWER_CHANGE_MERGE_MS &&
+    (!lastVisit || new Date(lastChange.at).getTime() >= new Date(lastVisit.shownAt).getTime());
+
+  // A merged edit keeps whether the question had an answer before the edit started
+  const answerChanges = isSameEdit
+    ? [
+      ...question.answerChanges.slice(0, -1),
+      { ...lastChange, at: at.toISOString(), change: getAnswerChangeType(lastChange.change !== 'answered', to) },
+    ]
+    : [...question.answerChanges, { at: at.toISOString(), change: getAnswerChangeType(hasAnswer(from), to), ...position }];
+  return withQuestion(paradata, questionId, { ...question, answerChanges });
+};
+
+/**
+ * Paradata as it is submitted
+ * Answer changes recorded before paradata stopped keeping answers lose their from/to values here.
+ */
+export const toSubmittedParadata = (paradata: InterviewParadata): InterviewParadata => ({
+  ...paradata,
+  questions: Object.fromEntries(
+    Object.entries(paradata.questions).map(([questionId, question]) => [
+      questionId,
+      {
+        ...question,
+        answerChanges: question.answerChanges.map((answerChange: any) => {
+          const { from, to, ...recorded } = answerChange;
+          return {
+            ...recorded,
+            change: recorded.change || getAnswerChangeType(hasAnswer(from), to),
+          };
+        }),
+      },
+    ])
+  ),
+});
+
+/**
+ * Time spent on a question, in seconds (the responseTime of its final response)
+ */
+export const getResponseTime = (paradata: InterviewParadata | null | undefined, questionId: string): number => {
+  const question = paradata?.questions[questionId];
+  return question ? Math.round(question.timeSpentMs / 1000) : 0;
+};
+
+/**
+ * Quality metrics derived from paradata
+ * @returns Average seconds per shown question and the number of back navigations
+ */
+export const getParadataQualityMetrics = (
+  paradata: InterviewParadata
+): { averageResponseTime: number; backNavigationCount: number } => {
+  const shownQuestions = Object.values(paradata.questions).filter((question) => question.visits.length > 0);
+  const totalMs = shownQuestions.reduce((total, question) => total + question.timeSpentMs, 0);
+  return {
+    averageResponseTime: shownQuestions.length > 0 ? Math.round(totalMs / shownQuestions.length / 1000) : 0,
+    backNavigationCount: paradata.backNavigationCount,
+  };
+};
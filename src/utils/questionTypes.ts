@@ -0,0 +1,150 @@
+/**
+ * Grid question type utilities for React Native
+ * Matrix, ranking and constant-sum questions - response shapes, validation and display
+ *
+ * Responses are stored as:
+ * - matrix: { [rowValue]: optionValue } - one scale answer per row
+ * - ranking: [optionValue, ...] - first entry is rank 1
+ * - constant_sum: { [optionValue]: number } - amounts adding up to the total
+ */
+import { getMainText } from './translations';
+
+export const GRID_QUESTION_TYPES = ['matrix', 'ranking', 'constant_sum'];
+
+export const DEFAULT_CONSTANT_SUM_TOTAL = 100;
+
+/**
+ * Check if a question is a matrix, ranking or constant-sum question
+ */
+export const isGridQuestion = (question: any): boolean => {
+  return !!question && GRID_QUESTION_TYPES.includes(question.type);
+};
+
+/**
+ * Stored value of an option or matrix row
+ */
+export const getChoiceValue = (choice: any): string => {
+  return typeof choice === 'object' && choice !== null
+    ? String(choice.value || choice.text || choice.id || '')
+    : String(choice);
+};
+
+/**
+ * Display text (main text, without translation) of an option or matrix row
+ */
+export const getChoiceText = (choice: any): string => {
+  const text = typeof choice === 'object' && choice !== null ? choice.text : choice;
+  return getMainText(String(text ?? ''));
+};
+
+/**
+ * Amount a constant-sum question allocates
+ */
+export const getConstantSumTotal = (question: any): number => {
+  const total = Number(question?.settings?.total);
+  return total > 0 ? total : DEFAULT_CONSTANT_SUM_TOTAL;
+};
+
+/**
+ * Sum of a constant-sum response
+ */
+export const sumAllocations = (response: any): number => {
+  if (!response || typeof response !== 'object') return 0;
+  return Object.values(response).reduce((sum: number, value: any) => {
+    const num = Number(value);
+    return sum + (isNaN(num) ? 0 : num);
+  }, 0);
+};
+
+/**
+ * Validate a grid question's response
+ * @param question - Matrix, ranking or constant-sum question
+ * @param response - Stored response
+ * @returns The message to show, or null if the response is acceptable
+ */
+export const getGridResponseError = (question: any, response: any): string | null => {
+  const hasResponse = response !== null && response !== undefined && response !== '';
+
+  switch (question?.type) {
+    case 'matrix': {
+      if (!question.required) return null;
+      const rows = question.rows || [];
+      // An answer of 0 (or any other falsy scale value) still answers its row
+      const unanswered = rows.filter((row: any) => {
+        const answer = response?.[getChoiceValue(row)];
+        return answer === undefined || answer === null || answer === '';
+      });
+      return unanswered.length > 0
+        ? `Please answer every row (${unanswered.length} of ${rows.length} remaining).`
+        : null;
+    }
+    case 'ranking': {
+      if (!question.required) return null;
+      const options = question.options || [];
+      const ranked = Array.isArray(response) ? response.length : 0;
+      return ranked < options.length ? 'Please arrange the options and confirm the ranking.' : null;
+    }
+    case 'constant_sum': {
+      if (!question.required && !hasResponse) return null;
+      const values = Object.values(response || {}).map(Number);
+      if (values.some((value) => isNaN(value) || value < 0)) {
+        return 'Allocations must be zero or more.';
+      }
+      const total = getConstantSumTotal(question);
+      const allocated = sumAllocations(response);
+      return allocated !== total
+        ? `Allocations must add up to ${total} (currently ${allocated}).`
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Extra fields of a final response entry for grid questions
+ * Matrix rows are sent as text like questionOptions, so the response can be read without the survey.
+ */
+export const getGridResponseFields = (question: any): { questionRows?: string[] } => {
+  if (question?.type !== 'matrix') return {};
+  return {
+    questionRows: (question.rows || []).map((row: any) => (typeof row === 'object' ? row.text : row)),
+  };
+};
+
+/**
+ * Readable text for a grid question's response, one line per row/option
+ * @param question - Matrix, ranking or constant-sum question (from the survey)
+ * @param response - Stored response
+ * @returns Display text, or null if the question is not a grid question
+ */
+export const formatGridResponse = (question: any, response: any): string | null => {
+  if (!isGridQuestion(question) || response === null || response === undefined) {
+    return null;
+  }
+  const options = question.options || [];
+  const optionText = (value: any) => {
+    const option = options.find((opt: any) => getChoiceValue(opt) === String(value));
+    return option ? getChoiceText(option) : String(value);
+  };
+
+  switch (question.type) {
+    case 'matrix':
+      return (question.rows || [])
+        .map((row: any) => {
+          const answer = response[getChoiceValue(row)];
+          return `${getChoiceText(row)}: ${answer !== undefined && answer !== null ? optionText(answer) : '-'}`;
+        })
+        .join('\n');
+    case 'ranking':
+      return Array.isArray(response)
+        ? response.map((value: any, index: number) => `${index + 1}. ${optionText(value)}`).join('\n')
+        : null;
+    case 'constant_sum':
+      return options
+        .map((opt: any) => `${getChoiceText(opt)}: ${Number(response[getChoiceValue(opt)]) || 0}`)
+        .join('\n');
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,196 @@
+/**
+ * Quota engine utilities for React Native
+ * Matches respondents to quota cells on any question or combination of questions
+ * (and computed values such as age_band or ac), and combines server counts with
+ * unsynced local interviews so full cells can screen respondents out offline
+ */
+import { QuotaCell, QuotaCellStatus, QuotaDefinition, QuotaStatus } from '../types';
+import { getMainText } from './translations';
+import { ConditionScope } from './conditionExpressions';
+
+// A cell value that matches any answer of its dimension
+export const QUOTA_CELL_WILDCARD = '*';
+
+// Legacy gender quota keys (gender-counts endpoint) and the gender question's option values
+const LEGACY_GENDER_VALUES: Record<string, string> = {
+  Male: 'male',
+  Female: 'female',
+  'Non-binary': 'non_binary',
+};
+export const LEGACY_GENDER_QUOTA_ID = 'gender';
+
+/**
+ * ID of a quota cell across all quotas of a survey (used for counts)
+ */
+export const getQuotaCellId = (quotaId: string, cellKey: string): string => `${quotaId}:${cellKey}`;
+
+const normalize = (value: any): string => getMainText(String(value ?? '')).toLowerCase().trim();
+
+/**
+ * Values a dimension's answer can match: the stored value and, for option questions, the option's text and code
+ * @returns Normalized values, or null if the dimension is unanswered
+ */
+const getDimensionValues = (dimension: QuotaDefinition['dimensions'][number], scope: ConditionScope): string[] | null => {
+  const raw = dimension.computed
+    ? scope.computedValues[dimension.computed]
+    : dimension.questionId ? scope.responses[dimension.questionId] : undefined;
+  if (raw === null || raw === undefined || raw === '' || (Array.isArray(raw) && raw.length === 0)) {
+    return null;
+  }
+
+  const question = dimension.questionId
+    ? scope.allQuestions.find((q: any) => q.id === dimension.questionId)
+    : undefined;
+  const matches = new Set<string>();
+  (Array.isArray(raw) ? raw : [raw]).forEach((value: any) => {
+    matches.add(normalize(value));
+    const option = Array.isArray(question?.options)
+      ? question.options.find((opt: any) =>
+          typeof opt === 'object' ? (opt.value || opt.text) === value || opt.text === value : opt === value
+        )
+      : null;
+    if (option && typeof option === 'object') {
+      [option.text, option.value, option.code].forEach((optionValue) => {
+        if (optionValue !== undefined && optionValue !== null && optionValue !== '') {
+          matches.add(normalize(optionValue));
+        }
+      });
+    }
+  });
+  return Array.from(matches);
+};
+
+/**
+ * Find the cell of a quota a respondent falls in
+ * @param quota - Quota definition
+ * @param scope - Responses, questions and computed values
+ * @returns The matching cell, or null while any dimension is unanswered or no cell matches
+ */
+export const findQuotaCell = (quota: QuotaDefinition, scope: ConditionScope): QuotaCell | null => {
+  const dimensionValues = (quota.dimensions || []).map((dimension) => getDimensionValues(dimension, scope));
+  if (dimensionValues.length === 0 || dimensionValues.some((values) => values === null)) {
+    return null;
+  }
+  return (quota.cells || []).find((cell) =>
+    dimensionValues.every((values, index) => {
+      const cellValue = cell.values[index];
+      return cellValue === QUOTA_CELL_WILDCARD || values!.includes(normalize(cellValue));
+    })
+  ) || null;
+};
+
+/**
+ * IDs of the cells a respondent falls in, one per quota at most
+ */
+export const getMatchedQuotaCellIds = (quotas: QuotaDefinition[], scope: ConditionScope): string[] => {
+  return quotas.flatMap((quota) => {
+    const cell = findQuotaCell(quota, scope);
+    return cell ? [getQuotaCellId(quota.id, cell.key)] : [];
+  });
+};
+
+/**
+ * Combine quota definitions with counts
+ * @param quotas - Quota definitions
+ * @param serverCounts - Completed interviews per cell ID, as last fetched from the server
+ * @param localCellIds - Cell IDs of completed interviews not yet on the server (one entry per interview and quota)
+ * @param countsUpdatedAt - When the server counts were fetched
+ * @returns Status of every quota cell
+ */
+export const buildQuotaStatus = (
+  quotas: QuotaDefinition[],
+  serverCounts: Record<string, number>,
+  localCellIds: string[],
+  countsUpdatedAt?: string
+): QuotaStatus[] => {
+  return quotas.map((quota) => ({
+    quota,
+    countsUpdatedAt,
+    cells: (quota.cells || []).map((cell): QuotaCellStatus => {
+      const cellId = getQuotaCellId(quota.id, cell.key);
+      const serverCount = serverCounts[cellId] || 0;
+      const localCount = localCellIds.filter((id) => id === cellId).length;
+      const currentCount = serverCount + localCount;
+      return {
+        ...cell,
+        quotaId: quota.id,
+        serverCount,
+        localCount,
+        currentCount,
+        percentage: cell.target > 0 ? Math.min(100, Math.round((currentCount / cell.target) * 100)) : 0,
+        isFull: cell.target > 0 && currentCount >= cell.target,
+      };
+    }),
+  }));
+};
+
+/**
+ * Find a full cell the respondent falls in (early screen-out)
+ * Quotas with screenOut: false only report progress.
+ * @returns The full cell, or null if the respondent can continue
+ */
+export const findFullQuotaCell = (
+  statuses: QuotaStatus[],
+  scope: ConditionScope
+): { quota: QuotaDefinition; cell: QuotaCellStatus } | null => {
+  for (const status of statuses) {
+    if (status.quota.screenOut === false) continue;
+    const cell = findQuotaCell(status.quota, scope);
+    const cellStatus = cell ? status.cells.find((c) => c.key === cell.key) : undefined;
+    if (cellStatus?.isFull) {
+      return { quota: status.quota, cell: cellStatus };
+    }
+  }
+  return null;
+};
+
+/**
+ * Quota cell of an option, for quotas on that question alone (shown next to the option)
+ */
+export const getOptionQuotaCell = (statuses: QuotaStatus[], questionId: string, option: any): QuotaCellStatus | null => {
+  const optionValues = (typeof option === 'object' && option !== null
+    ? [option.value, option.text, option.code]
+    : [option]
+  ).filter((value) => value !== undefined && value !== null && value !== '').map(normalize);
+
+  for (const status of statuses) {
+    const dimensions = status.quota.dimensions || [];
+    if (dimensions.length !== 1 || dimensions[0].questionId !== questionId) continue;
+    const cell = status.cells.find((c) => optionValues.includes(normalize(c.values[0])));
+    if (cell) return cell;
+  }
+  return null;
+};
+
+/**
+ * Readable label of a quota cell
+ */
+export const getQuotaCellLabel = (cell: QuotaCell): string => {
+  return cell.label || cell.values.map((value) => (value === QUOTA_CELL_WILDCARD ? 'Any' : getMainText(value))).join(', ');
+};
+
+/**
+ * Express legacy gender quotas ({ Male: { quota, currentCount }, ... }) as a quota on the gender question
+ * @returns The quota and its server counts
+ */
+export const genderQuotasToQuota = (
+  genderQuotas: Record<string, any>
+): { quota: QuotaDefinition; serverCounts: Record<string, number> } => {
+  const serverCounts: Record<string, number> = {};
+  const cells: QuotaCell[] = Object.entries(genderQuotas || {})
+    .filter(([gender, info]) => LEGACY_GENDER_VALUES[gender] && info && typeof info === 'object')
+    .map(([gender, info]) => {
+      serverCounts[getQuotaCellId(LEGACY_GENDER_QUOTA_ID, gender)] = Number(info.currentCount) || 0;
+      return { key: gender, label: gender, values: [LEGACY_GENDER_VALUES[gender]], target: Number(info.quota) || 0 };
+    });
+
+  return {
+    quota: {
+      id: LEGACY_GENDER_QUOTA_ID,
+      name: 'Gender',
+      dimensions: [{ questionId: 'fixed_respondent_gender', label: 'Gender' }],
+      cells,
+    },
+    serverCounts,
+  };
+};
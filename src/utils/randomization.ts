@@ -0,0 +1,284 @@
+/**
+ * Randomization utilities for React Native
+ * Declarative order of options, questions and sections. Each interview gets a seed and a
+ * rotation index; shuffles are seeded so an order can be reproduced, and the orders actually
+ * shown are recorded with the response (RandomizationRecord) so analysts can control for order effects.
+ */
+import { OptionRandomization, RandomizationRecord, RandomizationStrategy } from '../types';
+
+/**
+ * Create a seeded random number generator (mulberry32 over a hash of the seed)
+ * @param seed - Any string
+ * @returns Function returning numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Create a new random seed for an interview
+ */
+export const createRandomizationSeed = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Get a row of a balanced Latin square (Williams design)
+ * Over all rows each item appears in each position, and directly before each other item,
+ * equally often. Odd sizes need twice as many rows (the mirrored rows) to be balanced.
+ * @param size - Number of items
+ * @param row - Row (the interview's rotation index - wraps around)
+ * @returns Item indices in the order of that row
+ */
+export const getBalancedLatinSquareRow = (size: number, row: number): number[] => {
+  if (size <= 0) {
+    return [];
+  }
+
+  // First row: 0, 1, n-1, 2, n-2, ...
+  const firstRow: number[] = [0];
+  let low = 1;
+  let high = size - 1;
+  for (let position = 1; position < size; position++) {
+    firstRow.push(position % 2 === 1 ? low++ : high--);
+  }
+
+  const rowCount = size % 2 === 0 ? size : size * 2;
+  const rowIndex = ((row % rowCount) + rowCount) % rowCount;
+  const shifted = firstRow.map((item) => (item + rowIndex) % size);
+  return rowIndex >= size ? shifted.reverse() : shifted;
+};
+
+/**
+ * Order items with a strategy
+ * @param items - Items in their original order
+ * @param strategy - How to reorder them
+ * @param random - Random number generator for 'shuffle'
+ * @param rotationIndex - Interview's rotation index for 'rotate', 'reverse' and 'latin_square'
+ * @returns Reordered copy
+ */
+export const orderItems = <T>(
+  items: T[],
+  strategy: RandomizationStrategy,
+  random: () => number,
+  rotationIndex: number
+): T[] => {
+  const count = items.length;
+  if (count < 2) {
+    return [...items];
+  }
+
+  switch (strategy) {
+    case 'shuffle': {
+      // Fisher-Yates
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+    case 'rotate': {
+      const shift = ((rotationIndex % count) + count) % count;
+      return [...items.slice(shift), ...items.slice(0, shift)];
+    }
+    case 'reverse':
+      return Math.abs(rotationIndex) % 2 === 1 ? [...items].reverse() : [...items];
+    case 'latin_square':
+      return getBalancedLatinSquareRow(count, rotationIndex).map((index) => items[index]);
+    default:
+      return [...items];
+  }
+};
+
+/**
+ * Reorder the movable items while fixed items keep their positions
+ * @param items - Items in their original order
+ * @param isFixed - Whether an item keeps its position
+ * @param reorder - Reorders the movable items
+ */
+const orderAroundFixedItems = <T>(items: T[], isFixed: (item: T) => boolean, reorder: (movable: T[]) => T[]): T[] => {
+  const reordered = reorder(items.filter((item) => !isFixed(item)));
+  let next = 0;
+  return items.map((item) => (isFixed(item) ? item : reordered[next++]));
+};
+
+/**
+ * Reorder items to a recorded order (items missing from it keep their original order, after the rest)
+ * @param items - Items in their original order
+ * @param order - Recorded keys, in order
+ * @param getKey - Key of an item
+ */
+export const applyRecordedOrder = <T>(items: T[], order: string[] | undefined, getKey: (item: T) => string): T[] => {
+  if (!order || order.length === 0) {
+    return items;
+  }
+  const byKey = new Map(items.map((item) => [getKey(item), item] as [string, T]));
+  const ordered = order.filter((key) => byKey.has(key)).map((key) => byKey.get(key) as T);
+  const recorded = new Set(order);
+  return [...ordered, ...items.filter((item) => !recorded.has(getKey(item)))];
+};
+
+/**
+ * Key of an option in recorded orders, anchors and groups
+ */
+export const getOptionKey = (option: any): string => {
+  return typeof option === 'object' && option !== null ? String(option.value || option.text || '') : String(option);
+};
+
+const matchesOption = (option: any, key: string): boolean => {
+  if (typeof option !== 'object' || option === null) {
+    return String(option) === key;
+  }
+  return [option.value, option.text, option.code].some((value) => value !== undefined && value !== null && String(value) === key);
+};
+
+/**
+ * Get how a question's options are ordered
+ * Multiple choice questions without optionRandomization follow the legacy shuffleOptions setting
+ * (shuffled unless it is false).
+ * @returns Option randomization, or null if the options keep their order
+ */
+export const getOptionRandomization = (question: any): OptionRandomization | null => {
+  const configured: OptionRandomization | undefined = question?.settings?.optionRandomization;
+  if (configured) {
+    return configured.strategy === 'none' ? null : configured;
+  }
+  if (question?.type === 'multiple_choice' && question?.settings?.shuffleOptions !== false) {
+    return { strategy: 'shuffle' };
+  }
+  return null;
+};
+
+/**
+ * Order a question's options
+ * Anchored options keep their position; the options of a group move together as one block,
+ * shuffled within the block if the group says so.
+ * @param options - Options in their original order
+ * @param randomization - Option randomization of the question
+ * @param random - Random number generator (seeded per interview and question)
+ * @param rotationIndex - Interview's rotation index
+ * @param isAnchored - Extra anchors besides randomization.anchors
+ * @returns Options in the order to show
+ */
+export const orderOptions = (
+  options: any[],
+  randomization: OptionRandomization,
+  random: () => number,
+  rotationIndex: number,
+  isAnchored: (option: any) => boolean = () => false
+): any[] => {
+  const anchors = randomization.anchors || [];
+  const groups = randomization.groups || [];
+  const isFixed = (option: any) => isAnchored(option) || anchors.some((anchor) => matchesOption(option, anchor));
+  const getGroupIndex = (option: any) => groups.findIndex((group) => group.options.some((key) => matchesOption(option, key)));
+
+  return orderAroundFixedItems(options, isFixed, (movable) => {
+    // A group becomes one unit at the position of its first option
+    const units: any[][] = [];
+    const groupUnits = new Map<number, any[]>();
+    movable.forEach((option) => {
+      const groupIndex = getGroupIndex(option);
+      if (groupIndex === -1) {
+        units.push([option]);
+        return;
+      }
+      if (!groupUnits.has(groupIndex)) {
+        const unit: any[] = [];
+        groupUnits.set(groupIndex, unit);
+        units.push(unit);
+      }
+      groupUnits.get(groupIndex)!.push(option);
+    });
+
+    return orderItems(units, randomization.strategy, random, rotationIndex).flatMap((unit) => {
+      const groupIndex = getGroupIndex(unit[0]);
+      return groupIndex !== -1 && groups[groupIndex].shuffleWithin ? orderItems(unit, 'shuffle', random, rotationIndex) : unit;
+    });
+  });
+};
+
+/**
+ * Plan the section and question orders of an interview
+ * Option orders are added as questions are shown (see orderOptions).
+ * @param survey - Survey
+ * @param rotationIndex - Interview's rotation index
+ * @param seed - Interview's random seed
+ */
+export const createRandomizationRecord = (survey: any, rotationIndex: number, seed: string): RandomizationRecord => {
+  const record: RandomizationRecord = { seed, rotationIndex, questionOrders: {}, optionOrders: {} };
+  const sections: any[] = Array.isArray(survey?.sections) ? survey.sections : [];
+  // Same section IDs as flattenSurveyQuestions
+  const sectionIds = sections.map((section: any, index: number) => section?.id || `section-${index}`);
+
+  const sectionRandomization = survey?.sectionRandomization;
+  if (sectionRandomization && sectionRandomization.strategy !== 'none') {
+    const movableIds: string[] | undefined = sectionRandomization.sectionIds;
+    record.sectionOrder = orderAroundFixedItems(
+      sectionIds,
+      (sectionId) => !!movableIds && !movableIds.includes(sectionId),
+      (movable) => orderItems(movable, sectionRandomization.strategy, createSeededRandom(`${seed}:sections`), rotationIndex)
+    );
+  }
+
+  sections.forEach((section: any, index: number) => {
+    const questionRandomization = section?.questionRandomization;
+    if (!questionRandomization || questionRandomization.strategy === 'none' || !Array.isArray(section.questions)) {
+      return;
+    }
+    const sectionId = sectionIds[index];
+    const fixedIds: string[] = questionRandomization.fixedQuestionIds || [];
+    record.questionOrders[sectionId] = orderAroundFixedItems(
+      section.questions.filter(Boolean).map((question: any) => question.id),
+      (questionId) => fixedIds.includes(questionId),
+      (movable) => orderItems(movable, questionRandomization.strategy, createSeededRandom(`${seed}:${sectionId}`), rotationIndex)
+    );
+  });
+
+  return record;
+};
+
+/**
+ * Put an interview's questions in its recorded section and question orders
+ * Questions of sections without a recorded order (direct questions, system questions) keep their position.
+ * @param questions - Flattened questions in survey order (see flattenSurveyQuestions)
+ * @param record - Interview's randomization record
+ */
+export const applyRandomizationRecord = (questions: any[], record?: RandomizationRecord | null): any[] => {
+  if (!record || (!record.sectionOrder && Object.keys(record.questionOrders).length === 0)) {
+    return questions;
+  }
+
+  // Consecutive questions of the same section form a block
+  const blocks: any[][] = [];
+  questions.forEach((question: any) => {
+    const lastBlock = blocks[blocks.length - 1];
+    if (lastBlock && lastBlock[0].sectionId === question.sectionId) {
+      lastBlock.push(question);
+    } else {
+      blocks.push([question]);
+    }
+  });
+
+  const orderedBlocks = blocks.map((block) =>
+    applyRecordedOrder(block, record.questionOrders[block[0].sectionId], (question: any) => question.id)
+  );
+  const sectionOrder = record.sectionOrder;
+  if (!sectionOrder) {
+    return orderedBlocks.flat();
+  }
+
+  const isOrdered = (block: any[]) => sectionOrder.includes(block[0].sectionId);
+  const sortedBlocks = applyRecordedOrder(orderedBlocks.filter(isOrdered), sectionOrder, (block: any[]) => block[0].sectionId);
+  let next = 0;
+  return orderedBlocks.map((block) => (isOrdered(block) ? sortedBlocks[next++] : block)).flat();
+};
@@ -0,0 +1,71 @@
+/**
+ * CATI respondent history utilities for React Native
+ * Previous call attempts to a respondent (by any interviewer), so interviewers know who already
+ * refused, what other interviewers noted and when the respondent prefers to be called
+ */
+import { AaporCategory, DispositionCode, RespondentCallAttempt, RespondentHistory } from '../types';
+import { findDispositionCode, getAbandonReasonCategory } from './dispositions';
+import { getMainText } from './translations';
+
+// Respondents who refused this many times are not called automatically
+export const REPEAT_REFUSAL_LIMIT = 2;
+
+/**
+ * Read the history sent by the server (missing or malformed fields are dropped)
+ */
+export const normalizeRespondentHistory = (data: any): RespondentHistory | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  return {
+    attempts: Array.isArray(data.attempts)
+      ? data.attempts.filter((attempt: any) => attempt && !isNaN(new Date(attempt.attemptedAt).getTime()))
+      : [],
+    preferredLanguage: data.preferredLanguage || null,
+    bestTimeToCall: data.bestTimeToCall || null,
+  };
+};
+
+/**
+ * Sort call attempts, latest first
+ */
+export const sortAttempts = (attempts: RespondentCallAttempt[]): RespondentCallAttempt[] => {
+  return [...attempts].sort((a, b) => new Date(b.attemptedAt).getTime() - new Date(a.attemptedAt).getTime());
+};
+
+/**
+ * AAPOR category of a call attempt
+ * Uses the category recorded with the attempt, then its call status, then its abandon reason
+ */
+export const getAttemptCategory = (attempt: RespondentCallAttempt, codes: DispositionCode[]): AaporCategory | null => {
+  if (attempt.aaporCategory) {
+    return attempt.aaporCategory;
+  }
+  const disposition = findDispositionCode(codes, attempt.callStatus);
+  if (disposition && !disposition.isConnected) {
+    return disposition.aaporCategory;
+  }
+  return getAbandonReasonCategory(attempt.abandonReason);
+};
+
+/**
+ * Count the attempts the respondent refused
+ */
+export const countRefusals = (attempts: RespondentCallAttempt[], codes: DispositionCode[]): number => {
+  return attempts.filter((attempt) => getAttemptCategory(attempt, codes) === 'refusal').length;
+};
+
+/**
+ * Outcome of a call attempt as shown to the interviewer
+ */
+export const getAttemptOutcomeLabel = (attempt: RespondentCallAttempt, codes: DispositionCode[]): string => {
+  const disposition = findDispositionCode(codes, attempt.callStatus);
+  if (disposition && !disposition.isConnected) {
+    return getMainText(disposition.label);
+  }
+  const outcome = attempt.abandonReason || attempt.callStatus;
+  if (!outcome) {
+    return 'Unknown outcome';
+  }
+  return outcome.replace(/_/g, ' ').replace(/^\w/, (letter) => letter.toUpperCase());
+};
@@ -0,0 +1,181 @@
+/**
+ * Roster utilities for React Native
+ * A roster section asks its questions once per item of an earlier answer - a count
+ * (number of household members), selected options, or a list of names.
+ *
+ * Each iteration's questions are separate questions with their own response key
+ * (`${questionId}_r${iteration}`, iterations start at 1). Conditions and validation rules between
+ * questions of the same roster section refer to the same iteration, and {{roster_label}} in
+ * question texts is replaced by the item's label.
+ */
+import { ConditionNode, RosterSettings, ValidationRule } from '../types';
+import { getConditionExpression } from './conditionExpressions';
+import { getMainText } from './translations';
+
+export const DEFAULT_ROSTER_MAX_ITERATIONS = 20;
+const DEFAULT_ROSTER_ITEM_LABEL = 'Member';
+const ROSTER_LABEL_PATTERN = /\{\{\s*roster_label\s*\}\}/g;
+
+export interface RosterItem {
+  iteration: number; // 1-based
+  label: string;
+}
+
+/**
+ * Response key of a roster question in one iteration
+ */
+export const getRosterResponseKey = (questionId: string, iteration: number): string => `${questionId}_r${iteration}`;
+
+/**
+ * Text of a selected option (or the value itself if it isn't an option)
+ */
+const getOptionLabel = (question: any, value: any): string => {
+  const option = Array.isArray(question?.options)
+    ? question.options.find((opt: any) =>
+        typeof opt === 'object' ? (opt.value || opt.text) === value : opt === value
+      )
+    : null;
+  const text = option && typeof option === 'object' ? option.text : option ?? value;
+  return getMainText(String(text ?? ''));
+};
+
+/**
+ * Get the items a roster iterates over
+ * @param roster - Roster settings of the section
+ * @param responses - Responses keyed by question ID
+ * @param allQuestions - Questions of the interview (to look up option texts of the source question)
+ * @returns One item per iteration, or none while the source question is unanswered
+ */
+export const getRosterItems = (
+  roster: RosterSettings,
+  responses: Record<string, any>,
+  allQuestions: any[]
+): RosterItem[] => {
+  const source = responses[roster.sourceQuestionId];
+  const sourceQuestion = allQuestions.find((q: any) => q?.id === roster.sourceQuestionId);
+  let labels: string[] = [];
+
+  if (Array.isArray(source)) {
+    labels = source.map((value: any) => getOptionLabel(sourceQuestion, value));
+  } else if (typeof source === 'number' || (typeof source === 'string' && /^\s*\d+\s*$/.test(source))) {
+    const count = Math.max(0, Math.floor(Number(source)));
+    const itemLabel = roster.itemLabel || DEFAULT_ROSTER_ITEM_LABEL;
+    labels = Array.from({ length: count }, (_, index) => `${itemLabel} ${index + 1}`);
+  } else if (typeof source === 'string') {
+    labels = source.split(/[\n,]/).map((name) => name.trim()).filter(Boolean);
+  }
+
+  const maxIterations = roster.maxIterations || DEFAULT_ROSTER_MAX_ITERATIONS;
+  return labels.slice(0, maxIterations).map((label, index) => ({ iteration: index + 1, label }));
+};
+
+/**
+ * Point rules on questions of the roster section at the same iteration
+ */
+const remapConditionExpression = (node: ConditionNode, rosterQuestionIds: Set<string>, iteration: number): ConditionNode => {
+  if (node.type === 'group') {
+    return { ...node, conditions: node.conditions.map((child) => remapConditionExpression(child, rosterQuestionIds, iteration)) };
+  }
+  if (node.type === 'not') {
+    return { ...node, condition: remapConditionExpression(node.condition, rosterQuestionIds, iteration) };
+  }
+  return node.questionId && rosterQuestionIds.has(node.questionId)
+    ? { ...node, questionId: getRosterResponseKey(node.questionId, iteration) }
+    : node;
+};
+
+const remapValidationRules = (rules: ValidationRule[] | undefined, rosterQuestionIds: Set<string>, iteration: number): ValidationRule[] | undefined => {
+  return rules?.map((rule) => ({
+    ...rule,
+    questionId: rule.questionId && rosterQuestionIds.has(rule.questionId)
+      ? getRosterResponseKey(rule.questionId, iteration)
+      : rule.questionId,
+    when: rule.when ? remapConditionExpression(rule.when, rosterQuestionIds, iteration) : undefined,
+  }));
+};
+
+const withRosterLabel = (text: any, label: string): any => {
+  return typeof text === 'string' ? text.replace(ROSTER_LABEL_PATTERN, label) : text;
+};
+
+/**
+ * Replace the questions of roster sections with one copy per iteration
+ * Questions carry their section's roster as sectionRoster (see flattenSurveyQuestions);
+ * consecutive questions of the same roster section are repeated together.
+ * @param questions - Questions of the interview, in order
+ * @param responses - Responses keyed by question ID
+ * @returns Questions with roster sections expanded (the same array if the survey has no rosters)
+ */
+export const expandRosterQuestions = (questions: any[], responses: Record<string, any>): any[] => {
+  if (!questions.some((question: any) => question?.sectionRoster)) {
+    return questions;
+  }
+
+  const expanded: any[] = [];
+  let index = 0;
+  while (index < questions.length) {
+    const question = questions[index];
+    if (!question?.sectionRoster) {
+      expanded.push(question);
+      index++;
+      continue;
+    }
+
+    let end = index;
+    while (end < questions.length && questions[end]?.sectionRoster && questions[end].sectionId === question.sectionId) {
+      end++;
+    }
+    const block = questions.slice(index, end);
+    const blockIds = new Set<string>(block.map((q: any) => q.id));
+    const items = getRosterItems(question.sectionRoster, responses, questions);
+
+    items.forEach((item) => {
+      block.forEach((blockQuestion: any) => {
+        const expression = getConditionExpression(blockQuestion);
+        expanded.push({
+          ...blockQuestion,
+          id: getRosterResponseKey(blockQuestion.id, item.iteration),
+          text: withRosterLabel(blockQuestion.text, item.label),
+          description: withRosterLabel(blockQuestion.description, item.label),
+          conditionExpression: expression ? remapConditionExpression(expression, blockIds, item.iteration) : undefined,
+          validationRules: remapValidationRules(blockQuestion.validationRules, blockIds, item.iteration),
+          rosterQuestionId: blockQuestion.id,
+          rosterIteration: item.iteration,
+          rosterLabel: item.label,
+          rosterCount: items.length,
+        });
+      });
+    });
+    index = end;
+  }
+  return expanded;
+};
+
+/**
+ * Roster questions whose source question is unanswered (their iterations aren't known yet)
+ */
+export const getPendingRosterQuestions = (questions: any[], responses: Record<string, any>): any[] => {
+  return questions.filter((question: any) => {
+    const source = question?.sectionRoster ? responses[question.sectionRoster.sourceQuestionId] : undefined;
+    return question?.sectionRoster &&
+      (source === undefined || source === null || source === '' || (Array.isArray(source) && source.length === 0));
+  });
+};
+
+/**
+ * Roster fields of a final response, so reviewers can group answers by iteration
+ */
+export const getRosterResponseFields = (question: any): {
+  rosterQuestionId?: string;
+  rosterIteration?: number;
+  rosterLabel?: string;
+} => {
+  if (!question?.rosterQuestionId) {
+    return {};
+  }
+  return {
+    rosterQuestionId: question.rosterQuestionId,
+    rosterIteration: question.rosterIteration,
+    rosterLabel: question.rosterLabel,
+  };
+};
@@ -0,0 +1,817 @@
+/**
+ * Survey engine for React Native
+ * The survey runtime without any React state: which questions an interview asks and in what order,
+ * which are visible for the current responses, progress, navigation and validation.
+ * Shared by the interview screen, the sync service and the review screens.
+ * Imports only other pure utils - no React, native modules or services - so every caller
+ * gets the same visibility and ordering for the same survey and responses.
+ */
+import { DispositionCode, InterviewParadata, RandomizationRecord } from '../types';
+import { getMainText } from './translations';
+import {
+  getConditionExpression,
+  getConditionQuestionIds,
+  evaluateConditionExpression,
+} from './conditionExpressions';
+import { evaluateComputedVariables, getAnswerText } from './surveyVariables';
+import { getGridResponseError, getGridResponseFields } from './questionTypes';
+import { getMediaResponseError, toSubmittedResponse } from './mediaQuestions';
+import { expandRosterQuestions, getPendingRosterQuestions, getRosterResponseFields } from './rosters';
+import { getResponseTime } from './paradata';
+import { applyRandomizationRecord } from './randomization';
+import { isConnectedDisposition } from './dispositions';
+import {
+  evaluateValidationRules,
+  getValidationRules,
+  PHONE_NUMBER_RULE,
+  ValidationIssue,
+} from './validationRules';
+
+export const TARGET_SURVEY_ID = '68fd1915d41841da463f0d46';
+
+export type InterviewMode = 'capi' | 'cati';
+
+export interface SurveyEngineContext {
+  mode: InterviewMode;
+  setNumber?: number | null; // Question set for this interview (CATI, and CAPI in surveys that opt in)
+  selectedAC?: string | null; // AC selected by the interviewer (CAPI)
+  pollingStationSelected?: boolean; // Both group and station selected (CAPI)
+  byeElectionAvailable?: boolean; // The interview's AC has a bye-election (target survey Q7)
+  acName?: string | null; // AC of the interview - selected (CAPI) or from the respondent (CATI)
+  mpName?: string | null; // MP of the AC (fetched during the interview)
+  mlaName?: string | null; // MLA of the AC
+  randomization?: RandomizationRecord | null; // Interview's section and question orders
+  dispositionCodes?: DispositionCode[]; // Call statuses of the survey (CATI)
+}
+
+export interface UnansweredQuestion {
+  question: any;
+  index: number;
+}
+
+export interface InvalidQuestion extends UnansweredQuestion {
+  message: string;
+}
+
+// Age bands available to skip logic as the computed value 'age_band'
+const AGE_BANDS: Array<{ label: string; min: number; max: number }> = [
+  { label: '18-24', min: 18, max: 24 },
+  { label: '25-34', min: 25, max: 34 },
+  { label: '35-44', min: 35, max: 44 },
+  { label: '45-54', min: 45, max: 54 },
+  { label: '55-64', min: 55, max: 64 },
+  { label: '65+', min: 65, max: Infinity },
+];
+
+// CATI question order for the target survey - Q1 onwards is rearranged into this sequence
+const TARGET_SURVEY_CATI_ORDER: Array<{ number: string; subQuestion?: string }> = [
+  { number: '2' },
+  { number: '1' },
+  { number: '13' },
+  { number: '14' },
+  { number: '16', subQuestion: 'A' },
+  { number: '16', subQuestion: 'B' },
+  { number: '5' },
+  { number: '6' },
+  { number: '7' },
+  { number: '8' },
+  { number: '9' },
+  { number: '10' },
+  { number: '17' },
+  { number: '19' },
+  { number: '28' },
+  { number: '20' },
+  { number: '21' },
+  { number: '22' },
+  { number: '26' },
+  { number: '27' },
+  { number: '3' },
+  { number: '23' },
+  { number: '24' },
+  { number: '25' },
+];
+
+/**
+ * Check if a survey is the survey with hard-coded AC, bye-election and CATI ordering rules
+ */
+export const isTargetSurvey = (survey: any): boolean => {
+  return !!survey && (survey._id === TARGET_SURVEY_ID || survey.id === TARGET_SURVEY_ID);
+};
+
+/**
+ * Check if a response has content (0, negative numbers and false count as answers)
+ */
+export const hasResponseContent = (response: any): boolean => {
+  if (response === null || response === undefined) return false;
+  if (typeof response === 'string') return response.trim().length > 0;
+  if (Array.isArray(response)) return response.length > 0;
+  if (typeof response === 'number') return !isNaN(response) && isFinite(response);
+  return true;
+};
+
+/**
+ * Check if a response satisfies a required question
+ */
+export const isQuestionAnswered = (response: any): boolean => {
+  if (response === null || response === undefined || response === '') return false;
+  if (Array.isArray(response)) return response.length > 0;
+  // Matrix and constant-sum responses are objects keyed by row/option
+  if (typeof response === 'object') return Object.keys(response).length > 0;
+  return true;
+};
+
+const isQuestionNumber = (question: any, number: string): boolean => {
+  return question.questionNumber === number ||
+    (!!question.questionNumber && String(question.questionNumber).toLowerCase() === number);
+};
+
+/**
+ * Check if a question is the target survey's bye-election question (Q7)
+ */
+const isByeElectionQuestion = (question: any): boolean => {
+  const questionNum = String(question.questionNumber || '').toLowerCase();
+  return questionNum === '7' || questionNum === '7.0';
+};
+
+/**
+ * Get the CATI question set numbers used in a survey
+ * @param survey - Survey
+ * @returns Set numbers in ascending order
+ */
+export const getSetNumbers = (survey: any): number[] => {
+  const setNumbers = new Set<number>();
+  survey?.sections?.forEach((section: any) => {
+    section.questions?.forEach((question: any) => {
+      if (question.setsForThisQuestion && question.setNumber !== null && question.setNumber !== undefined) {
+        setNumbers.add(question.setNumber);
+      }
+    });
+  });
+  return Array.from(setNumbers).sort((a, b) => a - b);
+};
+
+/**
+ * Check if an interview asks a single question set
+ * Sets always apply to CATI; CAPI interviews use them only in surveys that opt in
+ */
+export const usesQuestionSets = (survey: any, mode: InterviewMode): boolean => {
+  return mode === 'cati' || survey?.capiQuestionSets === true;
+};
+
+/**
+ * Get the set that follows another in rotation
+ * @param setNumbers - Set numbers of the survey, ascending
+ * @param lastSetNumber - Set given to the previous interview (null for the first set)
+ * @returns Next set, or null if the survey has no sets
+ */
+export const getNextSetNumber = (setNumbers: number[], lastSetNumber: number | null): number | null => {
+  if (setNumbers.length === 0) return null;
+  if (lastSetNumber === null) return setNumbers[0];
+  return setNumbers.find((setNumber) => setNumber > lastSetNumber) ?? setNumbers[0];
+};
+
+/**
+ * Check if a question is asked in this mode and question set
+ * @param question - Survey question
+ * @param mode - Interview mode
+ * @param currentSetNumber - Question set of the interview
+ * @param useSets - Whether the interview asks a single set (default: CATI only)
+ * @returns True if the question belongs in the interview
+ */
+export const shouldShowQuestion = (
+  question: any,
+  mode: InterviewMode,
+  currentSetNumber: number | null,
+  useSets: boolean = mode === 'cati'
+): boolean => {
+  if (mode === 'capi') {
+    if (question.enabledForCAPI === false) {
+      return false;
+    }
+  } else {
+    if (question.enabledForCATI === false) {
+      return false;
+    }
+    // CAPI-only questions (Survey Builder sets enabledForCAPI without enabledForCATI)
+    if (question.enabledForCAPI === true && question.enabledForCATI !== true) {
+      return false;
+    }
+  }
+
+  // Without sets every question is asked
+  if (!useSets) {
+    return true;
+  }
+
+  if (question.setsForThisQuestion && question.setNumber !== null && question.setNumber !== undefined) {
+    // Only questions from the selected set (none until the set is known)
+    return currentSetNumber !== null && question.setNumber === currentSetNumber;
+  }
+
+  // Questions without sets (or setsForThisQuestion without a setNumber) appear in every set
+  return true;
+};
+
+/**
+ * Get every question of a survey with its position, sections first, then direct questions
+ * @param survey - Survey
+ * @returns Questions with sectionIndex, questionIndex, sectionId, sectionTitle and sectionRoster
+ */
+export const flattenSurveyQuestions = (survey: any): any[] => {
+  const questions: any[] = [];
+
+  if (Array.isArray(survey?.sections)) {
+    survey.sections.forEach((section: any, sectionIndex: number) => {
+      if (!Array.isArray(section?.questions)) return;
+      section.questions.forEach((question: any, questionIndex: number) => {
+        if (!question) return;
+        questions.push({
+          ...question,
+          sectionIndex,
+          questionIndex,
+          sectionId: section?.id || `section-${sectionIndex}`,
+          sectionTitle: section?.title || 'Survey Section',
+          sectionRoster: section?.roster,
+        });
+      });
+    });
+  }
+
+  if (Array.isArray(survey?.questions)) {
+    survey.questions.forEach((question: any, questionIndex: number) => {
+      if (!question) return;
+      questions.push({
+        ...question,
+        sectionIndex: 0,
+        questionIndex,
+        sectionId: 'direct-questions',
+        sectionTitle: 'Survey Questions',
+      });
+    });
+  }
+
+  return questions;
+};
+
+/**
+ * Match a question by its question number (e.g. '16' with sub-question 'A' matches "16.a", "16A")
+ */
+const matchesQuestionNumber = (question: any, targetNumber: string, subQuestion: string | null = null): boolean => {
+  const qNum = String(question.questionNumber || '').trim().toLowerCase();
+
+  if (subQuestion) {
+    const sub = subQuestion.toLowerCase();
+    return qNum === `${targetNumber}.${sub}` || qNum === `${targetNumber}${sub}`;
+  }
+
+  return qNum === String(targetNumber).toLowerCase();
+};
+
+/**
+ * Rearrange the target survey's questions into its CATI order
+ * Questions before Q1 keep their place; questions not in the order follow the reordered ones.
+ */
+const applyTargetSurveyCatiOrder = (questions: any[]): any[] => {
+  // Position of Q1 (the last match wins)
+  let q1StartIndex = -1;
+  questions.forEach((q: any, idx: number) => {
+    if (matchesQuestionNumber(q, '1')) {
+      q1StartIndex = idx;
+    }
+  });
+
+  // Otherwise the first question numbered 1 or higher
+  if (q1StartIndex === -1) {
+    q1StartIndex = questions.findIndex((q: any) => {
+      const qNum = parseInt(q.questionNumber);
+      return !isNaN(qNum) && qNum >= 1;
+    });
+  }
+
+  // Otherwise everything after the system questions (negative order)
+  if (q1StartIndex === -1) {
+    questions.forEach((q: any, idx: number) => {
+      if (q.order && q.order < 0) {
+        q1StartIndex = Math.max(q1StartIndex, idx + 1);
+      }
+    });
+  }
+
+  if (q1StartIndex === -1) {
+    q1StartIndex = 0;
+  }
+
+  const questionsBeforeQ1 = questions.slice(0, q1StartIndex);
+  const questionsFromQ1 = questions.slice(q1StartIndex);
+  const reorderedQuestions: any[] = [];
+  const usedIndices = new Set<number>();
+
+  TARGET_SURVEY_CATI_ORDER.forEach(({ number, subQuestion }) => {
+    const foundIndex = questionsFromQ1.findIndex((q: any, idx: number) =>
+      !usedIndices.has(idx) && matchesQuestionNumber(q, number, subQuestion || null)
+    );
+    if (foundIndex !== -1) {
+      reorderedQuestions.push(questionsFromQ1[foundIndex]);
+      usedIndices.add(foundIndex);
+    } else {
+      console.warn(`⚠️ Could not find Q${number}${subQuestion ? '.' + subQuestion : ''} for CATI ordering`);
+    }
+  });
+
+  const remainingQuestions = questionsFromQ1.filter((_: any, idx: number) => !usedIndices.has(idx));
+  return [...questionsBeforeQ1, ...reorderedQuestions, ...remainingQuestions];
+};
+
+/**
+ * Get the survey questions an interview asks, in the order it asks them
+ * (system questions such as call status or consent are added by the caller)
+ * @param survey - Survey
+ * @param context - Interview mode and CATI question set
+ * @returns Ordered questions with their section position
+ */
+export const buildSurveyQuestions = (survey: any, context: SurveyEngineContext): any[] => {
+  if (!survey) {
+    return [];
+  }
+
+  const useSets = usesQuestionSets(survey, context.mode);
+  const currentSetNumber = useSets ? context.setNumber ?? null : null;
+  const isTargetSurveyCATI = context.mode === 'cati' && isTargetSurvey(survey);
+
+  const questions = applyRandomizationRecord(flattenSurveyQuestions(survey), context.randomization).filter((question: any) => {
+    // Direct questions (not in sections) are always asked
+    if (question.sectionId === 'direct-questions' || shouldShowQuestion(question, context.mode, currentSetNumber, useSets)) {
+      return true;
+    }
+    // Q7 and Q17 of the target survey are kept in CATI whatever their set, so they can be reordered -
+    // conditions decide later whether they are asked
+    const isQ7OrQ17 = isQuestionNumber(question, '7') || isQuestionNumber(question, '17');
+    return isTargetSurveyCATI && isQ7OrQ17 && question.enabledForCATI !== false;
+  });
+
+  if (!isTargetSurveyCATI) {
+    return questions;
+  }
+
+  // Reordering must not let CAPI-only questions through (Q7/Q17 are always kept)
+  return applyTargetSurveyCatiOrder(questions).filter((q: any) => {
+    if (isQuestionNumber(q, '7') || isQuestionNumber(q, '17')) {
+      return true;
+    }
+    if (q.enabledForCATI === false) {
+      return false;
+    }
+    return !(q.enabledForCAPI === true && q.enabledForCATI !== true);
+  });
+};
+
+/**
+ * Check if a question asks for the respondent's age (by ID or text, ignoring translations)
+ */
+export const isAgeQuestion = (question: any): boolean => {
+  if (!question) return false;
+  if ((question.id || '').includes('fixed_respondent_age')) {
+    return true;
+  }
+  const questionText = getMainText(question.text || '').toLowerCase();
+  return questionText.includes('could you please tell me your age') ||
+    questionText.includes('tell me your age') ||
+    questionText.includes('what is your age') ||
+    questionText.includes('your age in complete years') ||
+    questionText.includes('age in complete years');
+};
+
+/**
+ * Age band an age falls in
+ * @param age - Age in complete years
+ * @returns Band label (e.g. '25-34'), or null for ages below the first band
+ */
+export const getAgeBand = (age: number): string | null => {
+  const band = AGE_BANDS.find((b) => age >= b.min && age <= b.max);
+  return band ? band.label : null;
+};
+
+/**
+ * Values skip logic and piping can refer to besides question responses:
+ * built-ins (age, age_band, ac, mode, set_number, mp_name, mla_name) and the survey's computed variables
+ * @param survey - Survey (for its computedVariables)
+ * @param allQuestions - Questions of the interview
+ * @param responses - Responses keyed by question ID
+ * @param context - Interview context
+ * @returns Computed values keyed by name
+ */
+export const getComputedValues = (
+  survey: any,
+  allQuestions: any[],
+  responses: Record<string, any>,
+  context: SurveyEngineContext
+): Record<string, any> => {
+  const ageQuestion = allQuestions.find((q: any) => isAgeQuestion(q) && hasResponseContent(responses[q.id]));
+  const age = ageQuestion ? parseInt(String(responses[ageQuestion.id]), 10) : NaN;
+
+  const builtInValues = {
+    age: isNaN(age) ? null : age,
+    age_band: isNaN(age) ? null : getAgeBand(age),
+    ac: context.acName || context.selectedAC || null,
+    mode: context.mode,
+    set_number: context.setNumber ?? null,
+    mp_name: context.mpName || null,
+    mla_name: context.mlaName || null,
+  };
+
+  return evaluateComputedVariables(survey?.computedVariables, {
+    responses,
+    allQuestions,
+    computedValues: builtInValues,
+  });
+};
+
+/**
+ * Values available to {{name}} placeholders: computed values, plus the answer to every
+ * question by question number ({{Q12}}) and by ID
+ * @returns Piping values keyed by name
+ */
+export const getPipingValues = (
+  survey: any,
+  allQuestions: any[],
+  responses: Record<string, any>,
+  context: SurveyEngineContext
+): Record<string, any> => {
+  const values: Record<string, any> = {};
+  allQuestions.forEach((question: any) => {
+    const answer = getAnswerText(question, responses[question.id]);
+    if (question.id) {
+      values[question.id] = answer;
+    }
+    if (question.questionNumber) {
+      values[`Q${question.questionNumber}`] = answer;
+    }
+  });
+  return { ...values, ...getComputedValues(survey, allQuestions, responses, context) };
+};
+
+/**
+ * Evaluate a question's skip logic against the current responses
+ * Values are compared by option main text, so a condition matches whichever translation was stored.
+ * @param question - Question with optional conditionExpression or conditions
+ * @param responses - Responses keyed by question ID
+ * @param allQuestions - Questions of the interview (to look up the options of referenced questions)
+ * @param computedValues - Result of getComputedValues
+ * @returns True if the question's conditions are met
+ */
+export const evaluateConditions = (
+  question: any,
+  responses: Record<string, any>,
+  allQuestions: any[],
+  computedValues: Record<string, any> = {}
+): boolean => {
+  const expression = getConditionExpression(question);
+  if (!expression) {
+    return true;
+  }
+  return evaluateConditionExpression(expression, { responses, allQuestions, computedValues });
+};
+
+/**
+ * Target survey: the bye-election question (Q7) is only asked when the interview's AC has a bye-election
+ */
+const isHiddenByeElectionQuestion = (question: any, survey: any, context: SurveyEngineContext): boolean => {
+  return isTargetSurvey(survey) && isByeElectionQuestion(question) && !context.byeElectionAvailable;
+};
+
+/**
+ * Get the questions currently shown for the responses given so far
+ * Roster sections are repeated for each of their items.
+ * @param survey - Survey
+ * @param allQuestions - Questions of the interview, in order
+ * @param responses - Responses keyed by question ID
+ * @param context - Interview context
+ * @returns Visible questions, in order
+ */
+export const getVisibleQuestions = (
+  survey: any,
+  allQuestions: any[],
+  responses: Record<string, any>,
+  context: SurveyEngineContext
+): any[] => {
+  const questions = expandRosterQuestions(allQuestions, responses);
+  const computedValues = getComputedValues(survey, questions, responses, context);
+  return questions.filter((question: any) => {
+    if (!question) return false;
+    if (!evaluateConditions(question, responses, questions, computedValues)) {
+      return false;
+    }
+    return !isHiddenByeElectionQuestion(question, survey, context);
+  });
+};
+
+/**
+ * Count the questions the interview may still ask: every question without conditions,
+ * plus conditional questions that are visible now or depend on questions not answered yet
+ * (a roster section counts once while the number of its iterations is unknown)
+ * @returns Maximum number of questions
+ */
+export const getMaxPossibleQuestions = (
+  survey: any,
+  allQuestions: any[],
+  responses: Record<string, any>,
+  context: SurveyEngineContext
+): number => {
+  const questions = expandRosterQuestions(allQuestions, responses);
+  const computedValues = getComputedValues(survey, questions, responses, context);
+  let maxCount = 0;
+
+  for (const question of [...questions, ...getPendingRosterQuestions(allQuestions, responses)]) {
+    if (!question) continue;
+
+    const expression = getConditionExpression(question);
+    if (!expression) {
+      maxCount++;
+      continue;
+    }
+
+    if (isHiddenByeElectionQuestion(question, survey, context)) {
+      continue;
+    }
+
+    const isCurrentlyVisible = evaluateConditionExpression(expression, { responses, allQuestions: questions, computedValues });
+    const hasUnansweredDependencies = getConditionQuestionIds(expression).some((questionId) => {
+      const response = responses[questionId];
+      return response === undefined || response === null || response === '';
+    });
+
+    if (isCurrentlyVisible || hasUnansweredDependencies) {
+      maxCount++;
+    }
+  }
+
+  return maxCount;
+};
+
+/**
+ * Interview progress
+ * @param currentIndex - Index of the current visible question
+ * @param visibleCount - Number of visible questions
+ * @param maxPossibleQuestions - Result of getMaxPossibleQuestions
+ * @returns Question total to display and progress between 0 and 1
+ */
+export const getProgress = (
+  currentIndex: number,
+  visibleCount: number,
+  maxPossibleQuestions: number
+): { total: number; progress: number } => {
+  const total = maxPossibleQuestions || visibleCount;
+  return {
+    total,
+    progress: total > 0 ? (currentIndex + 1) / total : 0,
+  };
+};
+
+/**
+ * Index of the next visible question
+ * @returns The next index, or the current index on the last question
+ */
+export const getNextQuestionIndex = (currentIndex: number, visibleQuestions: any[]): number => {
+  return currentIndex < visibleQuestions.length - 1 ? currentIndex + 1 : currentIndex;
+};
+
+/**
+ * Index of the previous visible question
+ * @returns The previous index, or 0 on the first question
+ */
+export const getPreviousQuestionIndex = (currentIndex: number): number => {
+  return currentIndex > 0 ? currentIndex - 1 : 0;
+};
+
+/**
+ * Check if the consent form response declines the interview
+ */
+export const isConsentDeclined = (consentResponse: any): boolean => {
+  return consentResponse === '2' ||
+    consentResponse === 2 ||
+    consentResponse === 'consent-disagree' ||
+    String(consentResponse).toLowerCase().includes('disagree') ||
+    String(consentResponse).toLowerCase() === 'no';
+};
+
+/**
+ * Check if a question is the AC selection question
+ */
+export const isACSelectionQuestion = (question: any): boolean => {
+  return question?.id === 'ac-selection' ||
+    !!question?.isACSelection ||
+    (!!question?.text && question.text.toLowerCase().includes('select assembly constituency'));
+};
+
+/**
+ * Check if a question is the polling station selection question
+ */
+export const isPollingStationQuestion = (question: any): boolean => {
+  return question?.id === 'polling-station-selection' ||
+    question?.type === 'polling_station' ||
+    !!question?.isPollingStationSelection ||
+    (!!question?.text && question.text.toLowerCase().includes('select polling station'));
+};
+
+/**
+ * Check if a question asks for the respondent's phone number
+ */
+export const isPhoneNumberQuestion = (question: any): boolean => {
+  const questionText = (question?.text || '').toLowerCase();
+  return questionText.includes('share your mobile') ||
+    questionText.includes('mobile number') ||
+    questionText.includes('phone number');
+};
+
+/**
+ * Check an answered question against its validation rules
+ * CAPI phone number questions without rules of their own get the phone number rule.
+ * @param question - Question
+ * @param responses - Responses keyed by question ID
+ * @param context - Interview context
+ * @param allQuestions - Questions of the interview
+ * @param computedValues - Result of getComputedValues
+ * @returns Rules the answer breaks, hard ones first
+ */
+export const getValidationIssues = (
+  question: any,
+  responses: Record<string, any>,
+  context: SurveyEngineContext,
+  allQuestions: any[] = [],
+  computedValues: Record<string, any> = {}
+): ValidationIssue[] => {
+  const rules = getValidationRules(question);
+  if (context.mode === 'capi' && isPhoneNumberQuestion(question) && !rules.some((rule) => rule.operator === 'phone_number')) {
+    rules.push(PHONE_NUMBER_RULE);
+  }
+  return evaluateValidationRules(question, rules, { responses, allQuestions, computedValues });
+};
+
+/**
+ * Validate the current question before moving to the next one
+ * Soft validation rules are not checked here - see getValidationIssues.
+ * @param question - Current question
+ * @param responses - Responses keyed by question ID
+ * @param context - Interview context
+ * @param allQuestions - Questions of the interview (for rules comparing answers)
+ * @param computedValues - Result of getComputedValues
+ * @returns The message to show, or null if the interviewer may move on
+ */
+export const validateQuestion = (
+  question: any,
+  responses: Record<string, any>,
+  context: SurveyEngineContext,
+  allQuestions: any[] = [],
+  computedValues: Record<string, any> = {}
+): string | null => {
+  if (!question) {
+    return null;
+  }
+
+  if (context.mode === 'cati' && question.id === 'call-status') {
+    const callStatusResponse = responses['call-status'];
+    if (!callStatusResponse) {
+      return 'Please select a call status before proceeding.';
+    }
+    // A call that didn't connect is submitted from here, not continued
+    if (!isConnectedDisposition(callStatusResponse, context.dispositionCodes)) {
+      return 'Please submit the interview with the selected call status.';
+    }
+  }
+
+  if (question.id === 'consent-form' && isConsentDeclined(responses['consent-form'])) {
+    return 'Please abandon the interview using the Abandon button.';
+  }
+
+  if (question.required && !isQuestionAnswered(responses[question.id])) {
+    return 'This is a required question. Please provide an answer before proceeding.';
+  }
+
+  const responseError = getGridResponseError(question, responses[question.id]) ||
+    getMediaResponseError(question, responses[question.id]);
+  if (responseError) {
+    return responseError;
+  }
+
+  if (context.mode === 'capi') {
+    if (isACSelectionQuestion(question) && !context.selectedAC) {
+      return 'Please select an Assembly Constituency before proceeding.';
+    }
+    if (isPollingStationQuestion(question) && !context.pollingStationSelected) {
+      return 'Please select both Group and Polling Station before proceeding.';
+    }
+  }
+
+  const hardIssue = getValidationIssues(question, responses, context, allQuestions, computedValues)
+    .find((issue) => issue.severity === 'hard');
+  return hardIssue ? hardIssue.message : null;
+};
+
+/**
+ * Find visible questions whose answers break a hard validation rule (before submitting)
+ * An answer can break a rule after it was given, when the answer it is compared with changes.
+ * @returns Invalid questions with their visible index and the message to show
+ */
+export const getInvalidQuestions = (
+  visibleQuestions: any[],
+  responses: Record<string, any>,
+  context: SurveyEngineContext,
+  allQuestions: any[] = [],
+  computedValues: Record<string, any> = {}
+): InvalidQuestion[] => {
+  const invalid: InvalidQuestion[] = [];
+  visibleQuestions.forEach((question: any, index: number) => {
+    const hardIssue = getValidationIssues(question, responses, context, allQuestions, computedValues)
+      .find((issue) => issue.severity === 'hard');
+    if (hardIssue) {
+      invalid.push({ question, index, message: hardIssue.message });
+    }
+  });
+  return invalid;
+};
+
+/**
+ * Find required visible questions without an answer (before submitting)
+ * @param visibleQuestions - Questions shown in this interview
+ * @param responses - Responses keyed by question ID
+ * @param context - Interview context
+ * @returns Unanswered questions with their visible index
+ */
+export const getUnansweredRequiredQuestions = (
+  visibleQuestions: any[],
+  responses: Record<string, any>,
+  context: SurveyEngineContext
+): UnansweredQuestion[] => {
+  const unanswered: UnansweredQuestion[] = [];
+
+  // A CATI call that didn't connect never reaches the consent form
+  const callStatusResponse = responses['call-status'];
+  const shouldSkipConsentCheck = context.mode === 'cati' && !!callStatusResponse && !isConnectedDisposition(callStatusResponse, context.dispositionCodes);
+
+  visibleQuestions.forEach((question: any, index: number) => {
+    if (!question.required) return;
+    if (shouldSkipConsentCheck && question.id === 'consent-form') return;
+
+    const isSelectionMissing =
+      (isACSelectionQuestion(question) && !context.selectedAC) ||
+      (isPollingStationQuestion(question) && !context.pollingStationSelected);
+
+    const response = responses[question.id];
+    if (
+      isSelectionMissing ||
+      !isQuestionAnswered(response) ||
+      getGridResponseError(question, response) ||
+      getMediaResponseError(question, response)
+    ) {
+      unanswered.push({ question, index });
+    }
+  });
+
+  return unanswered;
+};
+
+/**
+ * Build the final responses array submitted for a synced interview
+ * Unanswered optional questions are left out; unanswered required ones are marked as skipped.
+ * Roster questions get one response per iteration.
+ * @param survey - Survey
+ * @param responses - Responses keyed by question ID
+ * @param paradata - Interview paradata (for each question's response time)
+ * @returns Final responses, in survey order
+ */
+export const buildFinalResponses = (
+  survey: any,
+  responses: Record<string, any>,
+  paradata?: InterviewParadata | null
+): any[] => {
+  const finalResponses: any[] = [];
+
+  // Built from section questions only
+  expandRosterQuestions(flattenSurveyQuestions({ sections: survey?.sections }), responses).forEach((question: any) => {
+    const responseValue = responses[question.id];
+    const isEmpty = responseValue === undefined || responseValue === null || responseValue === '';
+    if (isEmpty && !question.isRequired) {
+      return;
+    }
+
+    finalResponses.push({
+      sectionIndex: question.sectionIndex,
+      questionIndex: question.questionIndex,
+      questionId: question.id,
+      questionType: question.type,
+      questionText: question.text,
+      questionDescription: question.description,
+      questionOptions: question.options
+        ? question.options.map((opt: any) => (typeof opt === 'object' ? opt.text : opt))
+        : [],
+      ...getGridResponseFields(question),
+      ...getRosterResponseFields(question),
+      response: isEmpty ? null : toSubmittedResponse(responseValue),
+      responseTime: getResponseTime(paradata, question.id),
+      isRequired: question.isRequired || false,
+      isSkipped: isEmpty,
+    });
+  });
+
+  return finalResponses;
+};
@@ -0,0 +1,164 @@
+/**
+ * Survey variable utilities for React Native
+ * Computes survey-level variables from earlier responses and pipes values
+ * into question text and options as {{name}} placeholders
+ */
+import { ComputedVariable } from '../types';
+import { getMainText } from './translations';
+import { evaluateConditionExpression, ConditionScope } from './conditionExpressions';
+
+const PIPE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Readable answer for a response: option main text for choice questions, the value itself otherwise
+ * @param question - Question the response belongs to
+ * @param response - Stored response
+ * @returns Answer text (multiple answers joined by commas), or '' if unanswered
+ */
+export const getAnswerText = (question: any, response: any): string => {
+  if (response === null || response === undefined || response === '') {
+    return '';
+  }
+  const values = Array.isArray(response) ? response : [response];
+  return values
+    .map((value: any) => {
+      const option = Array.isArray(question?.options)
+        ? question.options.find((opt: any) =>
+            typeof opt === 'object' ? (opt.value || opt.text) === value || opt.text === value : opt === value
+          )
+        : null;
+      const text = option ? (typeof option === 'object' ? option.text : option) : value;
+      return getMainText(String(text ?? '')).trim();
+    })
+    .filter(Boolean)
+    .join(', ');
+};
+
+const toNumber = (value: any): number => {
+  const numericValue = Array.isArray(value) ? value[0] : value;
+  return parseFloat(String(numericValue ?? '').trim());
+};
+
+/**
+ * Compute survey variables in order - each may use the values computed before it
+ * @param variables - The survey's computed variables
+ * @param scope - Responses, questions and the computed values available so far
+ * @returns Computed values including the survey variables
+ */
+export const evaluateComputedVariables = (
+  variables: ComputedVariable[] | undefined,
+  scope: ConditionScope
+): Record<string, any> => {
+  const values = { ...scope.computedValues };
+  if (!Array.isArray(variables)) {
+    return values;
+  }
+
+  const findQuestion = (questionId?: string) =>
+    questionId ? scope.allQuestions.find((q: any) => q.id === questionId) : undefined;
+  const sourceValue = (variable: ComputedVariable) =>
+    variable.computed ? values[variable.computed] : variable.questionId ? scope.responses[variable.questionId] : undefined;
+
+  for (const variable of variables) {
+    if (!variable?.name) continue;
+
+    let value: any = null;
+    try {
+      switch (variable.type) {
+        case 'answer':
+          value = getAnswerText(findQuestion(variable.questionId), sourceValue(variable)) || null;
+          break;
+        case 'band': {
+          const num = toNumber(sourceValue(variable));
+          const band = isNaN(num)
+            ? undefined
+            : (variable.bands || []).find((b) => (b.min === undefined || num >= b.min) && (b.max === undefined || num <= b.max));
+          value = band ? band.label : null;
+          break;
+        }
+        case 'map': {
+          const source = sourceValue(variable);
+          const key = source === null || source === undefined ? '' : String(Array.isArray(source) ? source[0] : source);
+          const map = variable.map || {};
+          // Match the stored value, or the main text of the answer
+          const answerKey = getAnswerText(findQuestion(variable.questionId), key);
+          value = map[key] ?? map[answerKey] ?? null;
+          break;
+        }
+        case 'sum': {
+          const numbers = (variable.questionIds || [])
+            .map((questionId) => toNumber(scope.responses[questionId]))
+            .filter((num) => !isNaN(num));
+          value = numbers.length > 0 ? numbers.reduce((sum, num) => sum + num, 0) : null;
+          break;
+        }
+        case 'conditional': {
+          const variableScope = { ...scope, computedValues: values };
+          const match = (variable.cases || []).find((c) => c.when && evaluateConditionExpression(c.when, variableScope));
+          value = match ? match.value : null;
+          break;
+        }
+        default:
+          console.warn(`⚠️ Unknown computed variable type: ${(variable as any).type}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error computing variable ${variable.name}:`, error);
+    }
+
+    values[variable.name] = value ?? variable.defaultValue ?? null;
+  }
+
+  return values;
+};
+
+/**
+ * Check if text contains {{name}} placeholders
+ */
+export const hasPipedValues = (text: any): boolean => {
+  return typeof text === 'string' && text.includes('{{');
+};
+
+/**
+ * Replace {{name}} placeholders with values (translations are stripped from piped values,
+ * so the result still parses as "Main Text {Translation}"). Unknown names become empty.
+ * @param text - Text with placeholders
+ * @param values - Values keyed by name
+ * @returns Text with values piped in
+ */
+export const pipeText = (text: string, values: Record<string, any>): string => {
+  if (!hasPipedValues(text)) {
+    return text;
+  }
+  return text.replace(PIPE_PATTERN, (_match, name: string) => {
+    const value = values[name];
+    if (value === null || value === undefined) return '';
+    return getMainText(Array.isArray(value) ? value.join(', ') : String(value));
+  });
+};
+
+/**
+ * Pipe values into a question's text, description and option texts
+ * @param question - Question
+ * @param values - Values keyed by name
+ * @returns The same question object when it has no placeholders, otherwise a piped copy
+ */
+export const pipeQuestion = (question: any, values: Record<string, any>): any => {
+  if (!question) {
+    return question;
+  }
+  const options = Array.isArray(question.options) ? question.options : null;
+  const hasPipedOptions = !!options?.some((opt: any) => typeof opt === 'object' && hasPipedValues(opt?.text));
+  if (!hasPipedValues(question.text) && !hasPipedValues(question.description) && !hasPipedOptions) {
+    return question;
+  }
+
+  return {
+    ...question,
+    text: pipeText(question.text, values),
+    description: hasPipedValues(question.description) ? pipeText(question.description, values) : question.description,
+    // Only the text of option objects is piped - option values stay as stored responses
+    options: hasPipedOptions
+      ? options!.map((opt: any) => (typeof opt === 'object' ? { ...opt, text: pipeText(opt.text, values) } : opt))
+      : question.options,
+  };
+};
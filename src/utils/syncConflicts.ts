@@ -0,0 +1,135 @@
+/**
+ * Sync conflict utilities for React Native
+ * Compares a locally stored interview with the copy the server already has
+ */
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+export type SyncConflictReason =
+  | 'content_mismatch'         // Server copy has different answers
+  | 'response_count_mismatch'  // Server copy has a different number of answers
+  | 'rejected'                 // Server copy was rejected in review
+  | 'missing_on_server';       // We have a responseId but the server has no such response
+
+/**
+ * Server-side state of an already submitted response
+ */
+export interface ServerResponseState {
+  responseId: string;
+  status?: string;
+  responseCount?: number;
+  contentHash?: string;
+}
+
+/**
+ * Conflict recorded on an offline interview for manual review
+ */
+export interface SyncConflict {
+  reasons: SyncConflictReason[];
+  detectedAt: string;
+  serverResponseId?: string;
+  serverStatus?: string;
+  serverResponseCount?: number;
+  serverContentHash?: string;
+  localResponseCount?: number; // Unknown for records submitted before content hashes were stored
+  localContentHash?: string;
+}
+
+// Server statuses that mean the stored copy will not be accepted as-is
+const REJECTED_STATUSES = ['rejected'];
+
+/**
+ * Serialize a value with object keys sorted, so equal content always gives equal strings
+ * @param value - Any JSON value
+ * @returns Canonical JSON string
+ */
+const canonicalJson = (value: any): string => {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Answered (non-skipped) responses, the part of a submission both sides can compare
+ * @param finalResponses - Responses array as sent to the server
+ * @returns Answered responses sorted by question ID
+ */
+const getAnsweredResponses = (finalResponses: any[]): Array<{ questionId: string; response: any }> => {
+  return (finalResponses || [])
+    .filter((item: any) => item && !item.isSkipped && item.response !== null && item.response !== undefined && item.response !== '')
+    .map((item: any) => ({ questionId: String(item.questionId), response: item.response }))
+    .sort((a, b) => (a.questionId < b.questionId ? -1 : a.questionId > b.questionId ? 1 : 0));
+};
+
+/**
+ * Number of answered questions in a submission
+ * @param finalResponses - Responses array as sent to the server
+ * @returns Count of non-skipped responses
+ */
+export const countAnsweredResponses = (finalResponses: any[]): number => {
+  return getAnsweredResponses(finalResponses).length;
+};
+
+/**
+ * Content hash of a submission: SHA-256 of the canonical JSON of answered
+ * [{ questionId, response }] pairs sorted by questionId (the server computes the same)
+ * @param finalResponses - Responses array as sent to the server
+ * @returns Hex digest
+ */
+export const computeResponsesHash = (finalResponses: any[]): string => {
+  return bytesToHex(sha256(utf8ToBytes(canonicalJson(getAnsweredResponses(finalResponses)))));
+};
+
+/**
+ * Compare the local copy of an interview with the server's
+ * @param local - Content hash and answered count stored at submission, or null if none were stored
+ *   (older records) - then only the server status and presence are compared
+ * @param server - Server state, or null if the server has no such response
+ * @returns Conflict reasons (empty if the copies agree)
+ */
+export const detectSyncConflict = (
+  local: { contentHash: string; responseCount: number } | null,
+  server: ServerResponseState | null
+): SyncConflictReason[] => {
+  if (!server) {
+    return ['missing_on_server'];
+  }
+
+  const reasons: SyncConflictReason[] = [];
+  if (server.status && REJECTED_STATUSES.includes(server.status.toLowerCase())) {
+    reasons.push('rejected');
+  }
+  if (!local) {
+    return reasons;
+  }
+  if (typeof server.responseCount === 'number' && server.responseCount !== local.responseCount) {
+    reasons.push('response_count_mismatch');
+  }
+  if (server.contentHash && server.contentHash.toLowerCase() !== local.contentHash.toLowerCase()) {
+    reasons.push('content_mismatch');
+  }
+  return reasons;
+};
+
+/**
+ * Human-readable label for a conflict reason (shown on the dashboard)
+ * @param reason - Conflict reason
+ * @returns Label
+ */
+export const getSyncConflictLabel = (reason: SyncConflictReason): string => {
+  switch (reason) {
+    case 'content_mismatch': return 'Answers differ from the server copy';
+    case 'response_count_mismatch': return 'Server has a different number of answers';
+    case 'rejected': return 'Server copy was rejected';
+    case 'missing_on_server': return 'Server has no record of this interview';
+    default: return 'Unknown conflict';
+  }
+};
@@ -0,0 +1,172 @@
+/**
+ * Sync error utilities for React Native
+ * Classifies offline interview sync failures and computes retry backoff
+ */
+
+export type SyncErrorType =
+  | 'network'              // No connection, timeout or dropped transfer - retry later
+  | 'auth_expired'         // 401/403 - retry after the interviewer logs in again
+  | 'validation_rejected'  // Server rejected the payload (4xx) - retrying won't help
+  | 'server_error'         // 5xx - retry later
+  | 'duplicate'            // Already on server - treat as synced
+  | 'unknown';
+
+export class SyncError extends Error {
+  type: SyncErrorType;
+  status?: number;
+  code?: string;
+
+  constructor(type: SyncErrorType, message: string, status?: number, code?: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.type = type;
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Error code for a recording that is missing or empty on the device
+// There is nothing to upload, so the interview is submitted without it rather than retried
+export const AUDIO_MISSING_CODE = 'AUDIO_MISSING';
+
+// Permanent failures stop being retried automatically once this many attempts have failed
+export const MAX_SYNC_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30 seconds
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// Server error codes that mean the response already exists
+// A 409 alone is not enough - session-state and version conflicts use it too
+const DUPLICATE_ERROR_CODES = ['DUPLICATE_SUBMISSION', 'E11000', '11000'];
+
+/**
+ * Classify an HTTP status / server error code pair
+ * @param status - HTTP status code (undefined when the request never got a response)
+ * @param code - Server error code from the response body, if any
+ * @returns Error type
+ */
+export const classifyHttpStatus = (status?: number, code?: string | number): SyncErrorType => {
+  const codeStr = code !== undefined && code !== null ? String(code).toUpperCase() : '';
+  if (DUPLICATE_ERROR_CODES.includes(codeStr)) {
+    return 'duplicate';
+  }
+  if (!status) {
+    return 'network';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth_expired';
+  }
+  if (status === 408 || status === 429) {
+    return 'network';
+  }
+  if (status >= 500) {
+    return 'server_error';
+  }
+  if (status >= 400) {
+    return 'validation_rejected';
+  }
+  return 'unknown';
+};
+
+/**
+ * Convert any thrown value (axios error, fetch error, SyncError) into a SyncError
+ * @param error - Caught error
+ * @returns Classified SyncError
+ */
+export const classifySyncError = (error: any): SyncError => {
+  if (error instanceof SyncError) {
+    return error;
+  }
+
+  const status: number | undefined = error?.response?.status ?? error?.status;
+  const data = error?.response?.data || {};
+  const rawCode = data.code ?? data.errorCode ?? error?.code;
+  const code = rawCode !== undefined && rawCode !== null ? String(rawCode) : undefined;
+  const message = data.message || error?.message || 'Unknown error';
+
+  if (data.isDuplicate === true) {
+    return new SyncError('duplicate', message, status, code);
+  }
+
+  if (!status) {
+    if (classifyHttpStatus(undefined, code) === 'duplicate') {
+      return new SyncError('duplicate', message, undefined, code);
+    }
+    const isNetworkFailure = error?.name === 'AbortError' ||
+      error?.code === 'ECONNABORTED' ||
+      error?.isCancel === true ||
+      (typeof error?.message === 'string' && (
+        error.message.includes('Network request failed') ||
+        error.message.includes('Network Error') ||
+        error.message.toLowerCase().includes('timeout')
+      ));
+    return new SyncError(isNetworkFailure ? 'network' : 'unknown', message, undefined, code);
+  }
+
+  return new SyncError(classifyHttpStatus(status, code), message, status, code);
+};
+
+/**
+ * Build a SyncError from a failed apiService result ({ success: false, message, status, code })
+ * @param result - apiService result object
+ * @param fallbackMessage - Message used when the result has none
+ * @returns Classified SyncError
+ */
+export const syncErrorFromResult = (result: any, fallbackMessage: string): SyncError => {
+  const message = result?.message || fallbackMessage;
+  const rawCode = result?.code ?? result?.error?.code ?? result?.error?.errorCode;
+  const code = rawCode !== undefined && rawCode !== null ? String(rawCode) : undefined;
+  if (result?.isDuplicate === true || result?.error?.isDuplicate === true) {
+    return new SyncError('duplicate', message, result?.status, code);
+  }
+  return new SyncError(classifyHttpStatus(result?.status, code), message, result?.status, code);
+};
+
+/**
+ * Whether a failure of this type is worth retrying automatically
+ * @param type - Error type
+ * @returns True if a later attempt can succeed without intervention
+ */
+export const isRetryableSyncError = (type: SyncErrorType): boolean => {
+  return type === 'network' || type === 'server_error' || type === 'auth_expired' || type === 'unknown';
+};
+
+/**
+ * Exponential backoff delay before the next automatic attempt
+ * @param syncAttempts - Number of failed attempts so far
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelayMs = (syncAttempts: number): number => {
+  if (syncAttempts <= 0) return 0;
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, syncAttempts - 1), MAX_RETRY_DELAY_MS);
+};
+
+/**
+ * Whether an interview's backoff window has elapsed
+ * @param syncAttempts - Number of failed attempts so far
+ * @param lastSyncAttempt - ISO timestamp of the last attempt
+ * @param now - Current time in milliseconds
+ * @returns True if the interview may be retried now
+ */
+export const isRetryDue = (syncAttempts: number, lastSyncAttempt?: string, now: number = Date.now()): boolean => {
+  if (!lastSyncAttempt || syncAttempts <= 0) return true;
+  const last = new Date(lastSyncAttempt).getTime();
+  if (isNaN(last)) return true;
+  return now - last >= getRetryDelayMs(syncAttempts);
+};
+
+/**
+ * Human-readable label for an error type (shown on the dashboard)
+ * @param type - Error type
+ * @returns Label
+ */
+export const getSyncErrorLabel = (type?: SyncErrorType): string => {
+  switch (type) {
+    case 'network': return 'Network problem';
+    case 'auth_expired': return 'Login expired';
+    case 'validation_rejected': return 'Rejected by server';
+    case 'server_error': return 'Server error';
+    case 'duplicate': return 'Already submitted';
+    default: return 'Unknown error';
+  }
+};
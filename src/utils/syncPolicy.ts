@@ -0,0 +1,64 @@
+/**
+ * Sync policy utilities for React Native
+ * Decides what may be uploaded on the current connection
+ */
+import { NetInfoState, NetInfoStateType } from '@react-native-community/netinfo';
+
+export interface SyncPolicySettings {
+  wifiOnlyAudio: boolean; // Hold large recordings until Wi-Fi or an unmetered network
+  audioSizeThresholdMb: number; // Recordings up to this size upload on any network
+}
+
+export const DEFAULT_SYNC_POLICY: SyncPolicySettings = {
+  wifiOnlyAudio: false,
+  audioSizeThresholdMb: 5,
+};
+
+export const AUDIO_THRESHOLD_OPTIONS_MB = [1, 5, 10, 25];
+
+/**
+ * Whether a connection costs the interviewer nothing per megabyte
+ * Wi-Fi and Ethernet count as unmetered unless the OS flags them as expensive (e.g. a phone hotspot)
+ * @param state - NetInfo state
+ * @returns True for Wi-Fi/Ethernet or any connection the OS reports as not expensive
+ */
+export const isUnmeteredConnection = (state: NetInfoState): boolean => {
+  if (!state.isConnected) {
+    return false;
+  }
+  const details: any = state.details;
+  if (details && typeof details.isConnectionExpensive === 'boolean') {
+    return !details.isConnectionExpensive;
+  }
+  return state.type === NetInfoStateType.wifi || state.type === NetInfoStateType.ethernet;
+};
+
+/**
+ * Whether an audio upload should wait for an unmetered connection
+ * @param sizeBytes - Total size of the recordings to upload
+ * @param isUnmetered - Whether the current connection is unmetered
+ * @param settings - The interviewer's sync policy
+ * @returns True if the upload should be deferred
+ */
+export const shouldDeferAudio = (
+  sizeBytes: number,
+  isUnmetered: boolean,
+  settings: SyncPolicySettings
+): boolean => {
+  if (!settings.wifiOnlyAudio || isUnmetered) {
+    return false;
+  }
+  return sizeBytes > settings.audioSizeThresholdMb * 1024 * 1024;
+};
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns Size in KB or MB
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
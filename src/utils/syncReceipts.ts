@@ -0,0 +1,80 @@
+/**
+ * Sync receipt utilities for React Native
+ * A receipt is the local proof that an interview reached the server, kept after the interview itself is deleted
+ */
+
+export interface SyncReceipt {
+  localId: string;
+  responseId: string | null;
+  surveyId: string;
+  surveyName: string | null;
+  interviewerId: string | null;
+  mode: 'CAPI' | 'CATI';
+  startTime: string | null;
+  endTime: string | null;
+  syncedAt: string;
+  audioSize: number | null;
+  audioChecksum: string | null;
+  acName: string | null;
+  pollingStation: string | null;
+}
+
+const CSV_COLUMNS: Array<{ header: string; key: keyof SyncReceipt }> = [
+  { header: 'Local ID', key: 'localId' },
+  { header: 'Response ID', key: 'responseId' },
+  { header: 'Survey ID', key: 'surveyId' },
+  { header: 'Survey', key: 'surveyName' },
+  { header: 'Interviewer ID', key: 'interviewerId' },
+  { header: 'Mode', key: 'mode' },
+  { header: 'Started', key: 'startTime' },
+  { header: 'Ended', key: 'endTime' },
+  { header: 'Synced', key: 'syncedAt' },
+  { header: 'Audio Size (bytes)', key: 'audioSize' },
+  { header: 'Audio MD5', key: 'audioChecksum' },
+  { header: 'AC', key: 'acName' },
+  { header: 'Polling Station', key: 'pollingStation' },
+];
+
+/**
+ * Quote a CSV field if it contains a separator, quote or newline
+ * @param value - Field value
+ * @returns CSV-safe field
+ */
+const escapeCsvField = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format receipts as CSV for export
+ * @param receipts - Receipts to export
+ * @returns CSV text with a header row
+ */
+export const receiptsToCsv = (receipts: SyncReceipt[]): string => {
+  const header = CSV_COLUMNS.map((column) => column.header).join(',');
+  const rows = receipts.map((receipt) =>
+    CSV_COLUMNS.map((column) => escapeCsvField(receipt[column.key])).join(',')
+  );
+  return [header, ...rows].join('\n');
+};
+
+/**
+ * Count receipts per local calendar day of sync, newest day first
+ * @param receipts - Receipts to count
+ * @returns Day label (YYYY-MM-DD) and count
+ */
+export const countReceiptsByDay = (receipts: SyncReceipt[]): Array<{ day: string; count: number }> => {
+  const counts = new Map<string, number>();
+  receipts.forEach((receipt) => {
+    const date = new Date(receipt.syncedAt);
+    if (isNaN(date.getTime())) return;
+    const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([day, count]) => ({ day, count }))
+    .sort((a, b) => (a.day < b.day ? 1 : a.day > b.day ? -1 : 0));
+};
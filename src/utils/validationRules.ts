@@ -0,0 +1,223 @@
+/**
+ * Validation rule utilities for React Native
+ * Declarative answer checks with severity: hard rules block the interview until the answer
+ * is corrected, soft rules only warn and let the interviewer confirm the answer.
+ * Rules can compare an answer with a constant, another question's answer or a computed value.
+ */
+import { ValidationOverride, ValidationRule } from '../types';
+import { ConditionScope, evaluateConditionExpression } from './conditionExpressions';
+import { getMainText } from './translations';
+
+export interface ValidationIssue {
+  ruleId: string;
+  severity: 'hard' | 'soft';
+  message: string;
+}
+
+// Phone numbers are checked on CAPI phone number questions without rules of their own
+export const PHONE_NUMBER_RULE: ValidationRule = {
+  id: 'phone_number',
+  severity: 'hard',
+  operator: 'phone_number',
+  message: 'Please enter a valid phone number.',
+};
+
+const hasContent = (value: any): boolean => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+const toNumber = (value: any): number => {
+  const numericValue = Array.isArray(value) ? value[0] : value;
+  return parseFloat(String(numericValue ?? '').trim());
+};
+
+const normalize = (value: any): string => getMainText(String(value ?? '')).toLowerCase().trim();
+
+/**
+ * Validate a phone number (empty is allowed - the question is optional)
+ * @param phoneNumber - Phone number as entered
+ * @returns Whether it is valid, with the message to show if not
+ */
+export const validatePhoneNumber = (phoneNumber: string | null | undefined): { valid: boolean; message: string | null } => {
+  const phoneStr = phoneNumber != null ? String(phoneNumber) : '';
+  if (!phoneStr || phoneStr.trim() === '') {
+    return { valid: true, message: null };
+  }
+
+  const digitsOnly = phoneStr.replace(/\D/g, '');
+  if (digitsOnly.length !== 10) {
+    return { valid: false, message: 'Phone number must be exactly 10 digits.' };
+  }
+
+  // Repeated digits (1111111111)
+  if (/^(\d)\1{4,}$/.test(digitsOnly)) {
+    return { valid: false, message: 'Please enter a valid phone number.' };
+  }
+
+  // Sequential digits (1234567890, 9876543210)
+  const nums = digitsOnly.split('').map(Number);
+  let ascending = true;
+  let descending = true;
+  for (let i = 1; i < nums.length; i++) {
+    if (nums[i] !== nums[i - 1] + 1) ascending = false;
+    if (nums[i] !== nums[i - 1] - 1) descending = false;
+  }
+  if (ascending || descending || digitsOnly === '1234567890') {
+    return { valid: false, message: 'Please enter a valid phone number.' };
+  }
+
+  return { valid: true, message: null };
+};
+
+/**
+ * Get a question's validation rules: its validationRules plus hard rules for the legacy
+ * validation min/max/pattern settings
+ */
+export const getValidationRules = (question: any): ValidationRule[] => {
+  const rules: ValidationRule[] = Array.isArray(question?.validationRules) ? [...question.validationRules] : [];
+  const validation = question?.validation;
+  if (!validation) {
+    return rules;
+  }
+
+  if (validation.min !== undefined && validation.min !== null) {
+    rules.push({
+      id: 'validation_min',
+      severity: 'hard',
+      operator: 'greater_than_or_equal',
+      value: validation.min,
+      message: `Please enter a value of at least ${validation.min}.`,
+    });
+  }
+  if (validation.max !== undefined && validation.max !== null) {
+    rules.push({
+      id: 'validation_max',
+      severity: 'hard',
+      operator: 'less_than_or_equal',
+      value: validation.max,
+      message: `Please enter a value of at most ${validation.max}.`,
+    });
+  }
+  if (validation.pattern) {
+    rules.push({
+      id: 'validation_pattern',
+      severity: 'hard',
+      operator: 'pattern',
+      value: validation.pattern,
+      message: 'Please enter the answer in the required format.',
+    });
+  }
+  return rules;
+};
+
+/**
+ * Check an answer against one rule
+ * Rules comparing with another answer or computed value pass while that value is missing.
+ */
+const passesRule = (rule: ValidationRule, response: any, scope: ConditionScope): boolean => {
+  const target = rule.questionId
+    ? scope.responses[rule.questionId]
+    : rule.computed ? scope.computedValues[rule.computed] : rule.value;
+
+  switch (rule.operator) {
+    case 'phone_number': {
+      // "Refused to share phone number" is stored as 0
+      if (response === 0 || response === '0') return true;
+      return validatePhoneNumber(String(response)).valid;
+    }
+    case 'pattern': {
+      try {
+        return new RegExp(String(target)).test(String(response));
+      } catch (error) {
+        console.warn(`⚠️ Invalid validation pattern in rule ${rule.id}:`, target);
+        return true;
+      }
+    }
+    case 'min_length':
+      return String(response).trim().length >= toNumber(target);
+    case 'max_length':
+      return String(response).trim().length <= toNumber(target);
+    case 'equals':
+    case 'not_equals': {
+      if (!hasContent(target)) return true;
+      const isEqual = normalize(response) === normalize(target);
+      return rule.operator === 'equals' ? isEqual : !isEqual;
+    }
+    case 'between': {
+      const [min, max] = Array.isArray(target) ? target.map(toNumber) : [NaN, NaN];
+      const value = toNumber(response);
+      if (isNaN(value)) return true;
+      return (isNaN(min) || value >= min) && (isNaN(max) || value <= max);
+    }
+    default: {
+      const value = toNumber(response);
+      const bound = toNumber(target);
+      if (isNaN(value) || isNaN(bound)) return true;
+      if (rule.operator === 'less_than') return value < bound;
+      if (rule.operator === 'less_than_or_equal') return value <= bound;
+      if (rule.operator === 'greater_than') return value > bound;
+      if (rule.operator === 'greater_than_or_equal') return value >= bound;
+      return true;
+    }
+  }
+};
+
+/**
+ * Check a question's answer against validation rules
+ * Unanswered questions have no issues - required answers are checked separately.
+ * @param question - Question
+ * @param rules - Rules to check (see getValidationRules)
+ * @param scope - Responses, questions and computed values
+ * @returns Rules the answer breaks, hard ones first
+ */
+export const evaluateValidationRules = (
+  question: any,
+  rules: ValidationRule[],
+  scope: ConditionScope
+): ValidationIssue[] => {
+  const response = scope.responses[question?.id];
+  if (!hasContent(response)) {
+    return [];
+  }
+
+  return rules
+    .filter((rule) => !rule.when || evaluateConditionExpression(rule.when, scope))
+    .filter((rule) => !passesRule(rule, response, scope))
+    .map((rule) => ({
+      ruleId: rule.id,
+      severity: rule.severity === 'soft' ? 'soft' as const : 'hard' as const,
+      // The phone number check says what is wrong with the number
+      message: (rule.operator === 'phone_number' && validatePhoneNumber(String(response)).message) ||
+        rule.message || 'Please check this answer.',
+    }))
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'hard' ? -1 : 1));
+};
+
+/**
+ * Check if the interviewer already confirmed a soft issue for the current answer
+ */
+export const isValidationIssueConfirmed = (
+  overrides: ValidationOverride[],
+  questionId: string,
+  issue: ValidationIssue,
+  response: any
+): boolean => {
+  return overrides.some((override) =>
+    override.questionId === questionId &&
+    override.ruleId === issue.ruleId &&
+    JSON.stringify(override.response) === JSON.stringify(response)
+  );
+};
+
+/**
+ * Confirmations that still apply - an answer changed after it was confirmed is no longer overridden
+ */
+export const getCurrentValidationOverrides = (
+  overrides: ValidationOverride[],
+  responses: Record<string, any>
+): ValidationOverride[] => {
+  return overrides.filter((override) => JSON.stringify(responses[override.questionId]) === JSON.stringify(override.response));
+};